@@ -0,0 +1,104 @@
+// Staff permissions checked by `requirePermission`. Every admin route needs one.
+export const PERMISSIONS = {
+  DASHBOARD_READ: 'dashboard:read',
+  PARTICIPANTS_READ: 'participants:read',
+  PARTICIPANTS_WRITE: 'participants:write',
+  PROMOTERS_READ: 'promoters:read',
+  PROMOTERS_APPROVE: 'promoters:approve',
+  PAYMENTS_READ: 'payments:read',
+  PAYMENTS_REFUND: 'payments:refund',
+  AUDIT_READ: 'audit:read',
+  USERS_READ: 'users:read',
+  USERS_MANAGE: 'users:manage',
+  USERS_IMPERSONATE: 'users:impersonate',
+  USERS_EXPORT: 'users:export',
+  CONFIG_READ: 'config:read',
+  CONFIG_WRITE: 'config:write',
+  STAFF_MANAGE: 'staff:manage',
+  API_KEYS_MANAGE: 'api-keys:manage',
+  CHECK_INS_READ: 'check-ins:read',
+  CHECK_INS_SCAN: 'check-ins:scan',
+  HUNTS_READ: 'hunts:read',
+  HUNTS_WRITE: 'hunts:write'
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+// Grants every permission, including ones added later
+export const WILDCARD_PERMISSION = '*';
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(PERMISSIONS);
+
+export const isKnownPermission = (value: string): value is Permission => {
+  return value === WILDCARD_PERMISSION || (ALL_PERMISSIONS as string[]).includes(value);
+};
+
+export const hasPermission = (granted: string[], required: Permission): boolean => {
+  return granted.includes(WILDCARD_PERMISSION) || granted.includes(required);
+};
+
+// Scopes that can be granted to partner API keys, checked by `authenticateApiKey`
+export const API_KEY_SCOPES = {
+  PARTICIPANTS_REGISTER: 'participants:register',
+  REFERRALS_READ: 'referrals:read'
+} as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[keyof typeof API_KEY_SCOPES];
+
+export const ALL_API_KEY_SCOPES: ApiKeyScope[] = Object.values(API_KEY_SCOPES);
+
+export const SUPER_ADMIN_ROLE = 'super_admin';
+
+// Roles created by the seed script; marked as system roles so they can't be edited
+export const BUILT_IN_STAFF_ROLES = [
+  {
+    name: SUPER_ADMIN_ROLE,
+    description: 'Full access, including staff and role management',
+    permissions: [WILDCARD_PERMISSION]
+  },
+  {
+    name: 'support',
+    description: 'Help participants and promoters with their accounts',
+    permissions: [
+      PERMISSIONS.DASHBOARD_READ,
+      PERMISSIONS.PARTICIPANTS_READ,
+      PERMISSIONS.PROMOTERS_READ,
+      PERMISSIONS.HUNTS_READ,
+      PERMISSIONS.USERS_READ,
+      PERMISSIONS.USERS_MANAGE,
+      PERMISSIONS.USERS_IMPERSONATE
+    ]
+  },
+  {
+    name: 'moderator',
+    description: 'Review participants and promoter applications',
+    permissions: [
+      PERMISSIONS.DASHBOARD_READ,
+      PERMISSIONS.PARTICIPANTS_READ,
+      PERMISSIONS.PARTICIPANTS_WRITE,
+      PERMISSIONS.PROMOTERS_READ,
+      PERMISSIONS.PROMOTERS_APPROVE,
+      PERMISSIONS.HUNTS_READ
+    ]
+  },
+  {
+    name: 'finance',
+    description: 'View payments and issue refunds',
+    permissions: [
+      PERMISSIONS.DASHBOARD_READ,
+      PERMISSIONS.PARTICIPANTS_READ,
+      PERMISSIONS.PAYMENTS_READ,
+      PERMISSIONS.PAYMENTS_REFUND,
+      PERMISSIONS.AUDIT_READ,
+      PERMISSIONS.HUNTS_READ
+    ]
+  },
+  {
+    name: 'event_staff',
+    description: 'Scan tickets at in-person events',
+    permissions: [
+      PERMISSIONS.CHECK_INS_READ,
+      PERMISSIONS.CHECK_INS_SCAN
+    ]
+  }
+];
\ No newline at end of file
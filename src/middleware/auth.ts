@@ -1,14 +1,44 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { UserRole } from '@prisma/client';
+import rateLimit from 'express-rate-limit';
+import { ApiKey, TierType, UserRole } from '@prisma/client';
 import prisma from '@/config/database';
+import { isIssuedBeforeRevocation } from '@/services/sessionService';
+import { isTwoFactorRequiredForRole } from '@/services/twoFactorService';
+import { getUserPermissions } from '@/services/permissionService';
+import { ApiKeyScope, hasPermission, Permission } from '@/config/permissions';
+import { findActiveApiKey, recordApiKeyUse } from '@/services/apiKeyService';
+import {
+  ImpersonationClaims,
+  isImpersonationActive,
+  recordImpersonatedRequest
+} from '@/services/impersonationService';
+import { ContentType } from '@/services/configService';
+import { getContentAccessRule, getEntitledTier, isContentType } from '@/services/contentAccessService';
+import { isHigherTier } from '@/services/tierUpgradeService';
+import { verifyPurposeToken } from '@/utils/tokens';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
     id: string;
     email: string;
     role: UserRole;
+    sessionId?: string;
+    permissions?: string[];
+    tier?: TierType; // Loaded by `requireTier`
+    // Set when an admin is viewing the app as this user
+    impersonatorId?: string;
+    impersonationId?: string;
   };
+  // Set by `authenticateApiKey` for partner (server-to-server) requests
+  apiKey?: {
+    id: string;
+    name: string;
+    scopes: string[];
+    rateLimitPerMinute: number;
+  };
+  // Set once the key also holds every scope the route requires
+  apiKeyAuthenticated?: boolean;
 }
 
 export const authenticate = async (
@@ -31,12 +61,23 @@ export const authenticate = async (
       throw new Error('JWT_SECRET is not configured');
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
+    // Impersonation tokens are signed with their own key and flagged with the admin's ID
+    const isImpersonation = (jwt.decode(token) as jwt.JwtPayload | null)?.purpose === 'impersonation';
+
+    const decoded = isImpersonation
+      ? verifyPurposeToken<ImpersonationClaims & Record<string, unknown>>(token, 'impersonation')
+      : jwt.verify(token, process.env.JWT_SECRET) as any;
+
+    if (isImpersonation && !await isImpersonationActive(decoded)) {
+      return res.status(401).json({ 
+        error: 'Impersonation has ended.' 
+      });
+    }
     
     // Fetch fresh user data
     const user = await prisma.user.findUnique({
       where: { id: decoded.id },
-      select: { id: true, email: true, role: true }
+      select: { id: true, email: true, role: true, sessionsRevokedAt: true }
     });
 
     if (!user) {
@@ -45,7 +86,54 @@ export const authenticate = async (
       });
     }
 
-    req.user = user;
+    // Impersonation never grants admin access, even if the target is promoted later
+    if (isImpersonation && user.role === 'ADMIN') {
+      return res.status(403).json({ 
+        error: 'Admin accounts cannot be impersonated.' 
+      });
+    }
+
+    // Reject tokens issued before all of the user's sessions were revoked
+    if (isIssuedBeforeRevocation(decoded.iat, user.sessionsRevokedAt)) {
+      return res.status(401).json({ 
+        error: 'Token has been revoked.' 
+      });
+    }
+
+    // Reject tokens belonging to a session that was logged out or revoked
+    if (decoded.sid) {
+      const session = await prisma.session.findUnique({
+        where: { id: decoded.sid },
+        select: { userId: true, revokedAt: true }
+      });
+
+      if (!session || session.userId !== user.id || session.revokedAt) {
+        return res.status(401).json({ 
+          error: 'Session has been revoked.' 
+        });
+      }
+    }
+
+    req.user = {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      sessionId: decoded.sid,
+      impersonatorId: isImpersonation ? decoded.impersonatorId : undefined,
+      impersonationId: isImpersonation ? decoded.iid : undefined
+    };
+
+    // Record every impersonated request once its outcome is known
+    if (isImpersonation) {
+      res.on('finish', () => {
+        recordImpersonatedRequest(
+          decoded,
+          { method: req.method, path: req.originalUrl, statusCode: res.statusCode },
+          { ipAddress: req.ip, userAgent: req.get('User-Agent') }
+        ).catch(error => console.error('Failed to record impersonated request:', error));
+      });
+    }
+
     next();
   } catch (error) {
     if (error instanceof jwt.JsonWebTokenError) {
@@ -77,4 +165,234 @@ export const authorize = (...roles: UserRole[]) => {
 
     next();
   };
+};
+
+// Require a participant tier: a fixed one, or the minimum the content access policy sets
+// for a content type. Based on the user's enrollment in `?huntId=`, or their latest.
+export const requireTier = (minimum: TierType | ContentType) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ 
+          error: 'Authentication required.' 
+        });
+      }
+
+      const requiredTier = isContentType(minimum)
+        ? (await getContentAccessRule(minimum)).minimumTier
+        : minimum;
+
+      if (!req.user.tier) {
+        const huntId = typeof req.query.huntId === 'string' ? req.query.huntId : undefined;
+        req.user.tier = await getEntitledTier(req.user.id, huntId);
+      }
+
+      if (isHigherTier(requiredTier, req.user.tier)) {
+        return res.status(403).json({ 
+          error: `This content requires the ${requiredTier} tier or higher.`,
+          code: 'TIER_REQUIRED',
+          requiredTier,
+          currentTier: req.user.tier
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Tier check error:', error);
+      return res.status(500).json({ 
+        error: 'Internal server error during authorization.' 
+      });
+    }
+  };
+};
+
+// Refuse destructive or account-security actions while an admin is impersonating
+export const denyImpersonation = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  if (req.user?.impersonatorId) {
+    return res.status(403).json({ 
+      error: 'This action is not available while impersonating a user.',
+      code: 'IMPERSONATION_FORBIDDEN'
+    });
+  }
+
+  next();
+};
+
+// Block roles that must use 2FA until the user has enrolled
+export const requireTwoFactorEnrollment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ 
+        error: 'Authentication required.' 
+      });
+    }
+
+    if (!await isTwoFactorRequiredForRole(req.user.role)) {
+      return next();
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user.id },
+      select: { twoFactorEnabled: true }
+    });
+
+    if (!user?.twoFactorEnabled) {
+      return res.status(403).json({ 
+        error: 'Two-factor authentication must be enabled to access this resource.',
+        code: 'TWO_FACTOR_ENROLLMENT_REQUIRED'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Two-factor enforcement error:', error);
+    return res.status(500).json({ 
+      error: 'Internal server error during authentication.' 
+    });
+  }
+};
+
+// Require staff permissions granted through the user's staff roles (all of them must be held)
+export const requirePermission = (...permissions: Permission[]) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({ 
+          error: 'Authentication required.' 
+        });
+      }
+
+      // Loaded once per request and reused by later checks
+      if (!req.user.permissions) {
+        req.user.permissions = await getUserPermissions(req.user.id, req.user.role);
+      }
+
+      const granted = req.user.permissions;
+      const missing = permissions.filter(permission => !hasPermission(granted, permission));
+
+      if (missing.length > 0) {
+        return res.status(403).json({ 
+          error: 'Insufficient permissions.',
+          missingPermissions: missing
+        });
+      }
+
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      return res.status(500).json({ 
+        error: 'Internal server error during authorization.' 
+      });
+    }
+  };
+};
+
+// Per-key budget, set by each key's rateLimitPerMinute
+const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: (req) => (req as AuthenticatedRequest).apiKey?.rateLimitPerMinute ?? 60,
+  keyGenerator: (req) => `api-key:${(req as AuthenticatedRequest).apiKey?.id}`,
+  message: { error: 'API key rate limit exceeded.' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Keyed requests to API key routes skip the global IP limit, so guessing keys is limited per IP here
+const invalidApiKeyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  requestWasSuccessful: (req, res) => res.statusCode !== 401,
+  skipSuccessfulRequests: true,
+  message: { error: 'Too many invalid API key attempts, please try again later.' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+const toRequestApiKey = (apiKey: ApiKey): AuthenticatedRequest['apiKey'] => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  scopes: apiKey.scopes,
+  rateLimitPerMinute: apiKey.rateLimitPerMinute
+});
+
+// Authenticate a partner request by its X-API-Key header; the key must hold every scope
+export const authenticateApiKey = (...scopes: ApiKeyScope[]) => {
+  const checkScopes = async (req: AuthenticatedRequest, res: Response, next: NextFunction, apiKey: ApiKey) => {
+    try {
+      const missing = scopes.filter(scope => !apiKey.scopes.includes(scope));
+
+      if (missing.length > 0) {
+        return res.status(403).json({ 
+          error: 'API key is missing required scopes.',
+          missingScopes: missing
+        });
+      }
+
+      req.apiKeyAuthenticated = true;
+
+      await recordApiKeyUse(apiKey, req.ip);
+
+      next();
+    } catch (error) {
+      console.error('API key authentication error:', error);
+      return res.status(500).json({ 
+        error: 'Internal server error during authentication.' 
+      });
+    }
+  };
+
+  const checkApiKey = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const key = req.get('X-API-Key');
+
+      if (!key) {
+        return res.status(401).json({ 
+          error: 'Access denied. No API key provided.' 
+        });
+      }
+
+      const apiKey = await findActiveApiKey(key);
+
+      if (!apiKey) {
+        return res.status(401).json({ 
+          error: 'Invalid or revoked API key.' 
+        });
+      }
+
+      req.apiKey = toRequestApiKey(apiKey);
+
+      // Limited before the scope check, so every keyed request that skipped the IP limit is counted
+      apiKeyLimiter(req, res, (error?: unknown) => error ? next(error) : checkScopes(req, res, next, apiKey));
+    } catch (error) {
+      console.error('API key authentication error:', error);
+      return res.status(500).json({ 
+        error: 'Internal server error during authentication.' 
+      });
+    }
+  };
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    invalidApiKeyLimiter(req, res, (error?: unknown) => error ? next(error) : checkApiKey(req, res, next));
+  };
+};
+
+// For public routes partners also call: check the key only when one is sent
+export const optionalApiKey = (...scopes: ApiKeyScope[]) => {
+  const authenticateKey = authenticateApiKey(...scopes);
+
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    if (!req.get('X-API-Key')) {
+      return next();
+    }
+
+    return authenticateKey(req, res, next);
+  };
 };
\ No newline at end of file
@@ -3,6 +3,7 @@ import axios from 'axios';
 
 export interface TurnstileRequest extends Request {
   turnstileVerified?: boolean;
+  apiKeyAuthenticated?: boolean;
 }
 
 export const validateTurnstile = async (
@@ -11,6 +12,11 @@ export const validateTurnstile = async (
   next: NextFunction
 ) => {
   try {
+    // Server-to-server requests whose API key `authenticateApiKey` already accepted for this route
+    if (req.apiKeyAuthenticated) {
+      return next();
+    }
+
     const { turnstileToken } = req.body;
     
     if (!turnstileToken) {
@@ -1,16 +1,55 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import bcrypt from 'bcryptjs';
 import { Prisma } from '@prisma/client';
 import prisma from '@/config/database';
 import { AppError } from '@/middleware/errorHandler';
-import { authenticate, authorize, AuthenticatedRequest } from '@/middleware/auth';
+import {
+  authenticate,
+  authorize,
+  requirePermission,
+  requireTwoFactorEnrollment,
+  AuthenticatedRequest
+} from '@/middleware/auth';
+import { ALL_API_KEY_SCOPES, ALL_PERMISSIONS, isKnownPermission, PERMISSIONS } from '@/config/permissions';
+import {
+  getContentAccessPolicy,
+  getHintSettings,
+  getInviteRewardSettings,
+  getRegistrationForm,
+  getSecuritySettings,
+  getSiteSettings,
+  REGISTRATION_FIELD_TYPES,
+  setConfig
+} from '@/services/configService';
+import { saveRegistrationForm } from '@/services/registrationFormService';
+import { isEmailVerificationRequired } from '@/services/emailVerificationService';
+import { createAccountClaimLink, isAccountClaimed } from '@/services/accountClaimService';
+import { sendPromoterApprovalEmail } from '@/services/emailService';
+import { getSessionContext, listActiveSessions, revokeAllSessions } from '@/services/sessionService';
+import { setStaffRoles } from '@/services/permissionService';
+import { endImpersonation, startImpersonation } from '@/services/impersonationService';
+import { createApiKey, revokeApiKey } from '@/services/apiKeyService';
+import { promoteFromWaitlistInBackground } from '@/services/waitlistService';
+import { describeDataExport, requestDataExport } from '@/services/dataExportService';
+import { checkInTicket, getTicketPublicKey } from '@/services/ticketService';
+import { assertValidHuntSchedule, isHuntRegistrationOpen, syncEnrollmentStatus } from '@/services/huntService';
+import { getHuntTierPrices, TIER_PRICES } from '@/services/tierUpgradeService';
+import { createClue, deleteClue, describeClueForAdmin, previewClue, reorderClues, updateClue } from '@/services/clueService';
+import {
+  createHint,
+  deleteHint,
+  describeHintForAdmin,
+  getHintUsageReport,
+  updateHint
+} from '@/services/hintService';
 
 const router = Router();
 
-// All admin routes require ADMIN role
+// All admin routes require ADMIN role (and 2FA when mandated by security settings).
+// Each route additionally requires a permission granted by the user's staff roles.
 router.use(authenticate);
 router.use(authorize('ADMIN'));
+router.use(requireTwoFactorEnrollment);
 
 // Validation schemas
 const approvePromoterSchema = z.object({
@@ -26,9 +65,229 @@ const updateParticipantStatusSchema = z.object({
   reason: z.string().optional()
 });
 
-// GET /api/admin/dashboard
-router.get('/dashboard', async (req: AuthenticatedRequest, res: Response) => {
+const updateSiteSettingsSchema = z.object({
+  siteName: z.string().min(1).optional(),
+  maxParticipants: z.number().int().min(0).optional(),
+  tierCapacity: z.object({
+    FREE: z.number().int().min(0).nullable().optional(),
+    PREMIUM: z.number().int().min(0).nullable().optional(),
+    VIP: z.number().int().min(0).nullable().optional()
+  }).optional(),
+  teamSizeLimits: z.object({
+    FREE: z.number().int().min(1).max(50),
+    PREMIUM: z.number().int().min(1).max(50),
+    VIP: z.number().int().min(1).max(50)
+  }).optional(),
+  registrationOpen: z.boolean().optional(),
+  promoterApplicationsOpen: z.boolean().optional(),
+  requireEmailVerification: z.boolean().optional()
+});
+
+const updateSecuritySettingsSchema = z.object({
+  requireAdminTwoFactor: z.boolean().optional(),
+  registrationRiskThreshold: z.number().int().min(1).optional(),
+  maxRegistrationsPerIp: z.number().int().min(1).optional(),
+  blockedEmailDomains: z.array(z.string().trim().toLowerCase().min(3)).optional()
+});
+
+const inviteRewardGrantSchema = z.object({
+  type: z.enum(['HINT_CREDITS', 'TIER_DISCOUNT', 'LEADERBOARD_BONUS']),
+  amount: z.number().int().min(1, 'Reward amount must be at least 1')
+});
+
+const inviteRewardGrantsSchema = z.array(inviteRewardGrantSchema)
+  .refine(grants => new Set(grants.map(grant => grant.type)).size === grants.length, 'Each reward type can only be listed once');
+
+const updateInviteRewardSettingsSchema = z.object({
+  enabled: z.boolean().optional(),
+  grantOn: z.enum(['REGISTRATION', 'FIRST_PAYMENT']).optional(),
+  maxRewardedInvites: z.number().int().min(0).optional(),
+  inviterRewards: inviteRewardGrantsSchema.optional(),
+  inviteeRewards: inviteRewardGrantsSchema.optional()
+});
+
+const registrationFieldSchema = z.object({
+  key: z.string().regex(
+    /^[a-zA-Z][a-zA-Z0-9_]{0,49}$/,
+    'Field key must start with a letter and contain only letters, numbers and underscores (max 50)'
+  ),
+  label: z.string().min(1, 'Field label is required').max(200),
+  type: z.enum(REGISTRATION_FIELD_TYPES),
+  required: z.boolean().default(false),
+  options: z.array(z.string().min(1).max(200)).max(100).optional(),
+  tiers: z.array(z.enum(['FREE', 'PREMIUM', 'VIP'])).optional(),
+  helpText: z.string().max(500).optional(),
+  placeholder: z.string().max(200).optional(),
+  maxLength: z.number().int().min(1).max(10000).optional(),
+  min: z.number().optional(),
+  max: z.number().optional()
+}).superRefine((field, ctx) => {
+  const hasOptions = field.type === 'select' || field.type === 'multiselect';
+
+  if (hasOptions && !field.options?.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Field "${field.key}" needs at least one option` });
+  }
+
+  if (!hasOptions && field.options) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Only select fields can have options ("${field.key}")` });
+  }
+
+  if (field.options && new Set(field.options).size !== field.options.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Field "${field.key}" has duplicate options` });
+  }
+
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Field "${field.key}" has min greater than max` });
+  }
+});
+
+const registrationFormSchema = z.object({
+  fields: z.array(registrationFieldSchema).max(50, 'A registration form can have at most 50 fields')
+}).refine(
+  form => new Set(form.fields.map(field => field.key)).size === form.fields.length,
+  'Field keys must be unique'
+);
+
+const permissionListSchema = z.array(z.string())
+  .refine(permissions => permissions.every(isKnownPermission), 'Unknown permission');
+
+const createStaffRoleSchema = z.object({
+  name: z.string().regex(/^[a-z0-9_]{2,50}$/, 'Role name must be 2-50 lowercase letters, digits or underscores'),
+  description: z.string().max(200).optional(),
+  permissions: permissionListSchema
+});
+
+const updateStaffRoleSchema = z.object({
+  description: z.string().max(200).optional(),
+  permissions: permissionListSchema.optional()
+});
+
+const impersonateUserSchema = z.object({
+  reason: z.string().min(5, 'A reason of at least 5 characters is required').max(500)
+});
+
+const apiKeyScopesSchema = z.array(z.enum(ALL_API_KEY_SCOPES as [string, ...string[]]))
+  .min(1, 'At least one scope is required');
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100),
+  scopes: apiKeyScopesSchema,
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional(),
+  expiresAt: z.coerce.date().optional()
+});
+
+const updateApiKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  scopes: apiKeyScopesSchema.optional(),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional()
+});
+
+const assignStaffRolesSchema = z.object({
+  roleIds: z.array(z.string().cuid())
+});
+
+const huntSchema = z.object({
+  name: z.string().trim().min(1, 'Hunt name is required').max(100),
+  slug: z.string().max(60).regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must be lowercase letters, numbers and dashes'),
+  description: z.string().max(5000).nullable().optional(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  registrationOpensAt: z.coerce.date(),
+  registrationClosesAt: z.coerce.date(),
+  maxParticipants: z.number().int().min(1).nullable().optional(),
+  tierPrices: z.object({
+    FREE: z.number().min(0),
+    PREMIUM: z.number().min(0),
+    VIP: z.number().min(0)
+  }).optional(),
+  isPublished: z.boolean().optional()
+});
+
+const clueSchema = z.object({
+  title: z.string().trim().min(1, 'Clue title is required').max(200),
+  body: z.string().trim().min(1, 'Clue text is required').max(10000),
+  answers: z.array(z.string().trim().min(1).max(200)).min(1, 'At least one answer is required').max(20),
+  position: z.number().int().min(1).optional(),
+  isBonus: z.boolean().optional(),
+  minimumTier: z.enum(['FREE', 'PREMIUM', 'VIP']).nullable().optional(),
+  releasesAt: z.coerce.date().nullable().optional()
+});
+
+const clueOrderSchema = z.object({
+  clueIds: z.array(z.string()).min(1, 'Clue order is required')
+});
+
+const cluePreviewSchema = z.object({
+  answer: z.string().max(200).optional()
+});
+
+const hintSchema = z.object({
+  body: z.string().trim().min(1, 'Hint text is required').max(5000),
+  unlockAfterMinutes: z.number().int().min(0).max(10080).optional(),
+  creditCost: z.number().int().min(0).max(100).optional(),
+  penaltyPoints: z.number().int().min(0).optional(),
+  minimumTier: z.enum(['FREE', 'PREMIUM', 'VIP']).nullable().optional()
+});
+
+const hintPackSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]{1,40}$/, 'Hint pack ID must be lowercase letters, numbers and dashes'),
+  name: z.string().trim().min(1, 'Hint pack name is required').max(100),
+  credits: z.number().int().min(1),
+  price: z.number().min(0.5, 'Hint packs must cost at least $0.50')
+});
+
+const updateHintSettingsSchema = z.object({
+  freeCreditsPerHunt: z.object({
+    FREE: z.number().int().min(0),
+    PREMIUM: z.number().int().min(0),
+    VIP: z.number().int().min(0)
+  }).optional(),
+  hintPacks: z.array(hintPackSchema)
+    .refine(packs => new Set(packs.map(pack => pack.id)).size === packs.length, 'Each hint pack ID can only be used once')
+    .optional()
+});
+
+const announcementSchema = z.object({
+  huntId: z.string().nullable().optional(),
+  title: z.string().trim().min(1, 'Announcement title is required').max(200),
+  body: z.string().trim().min(1, 'Announcement text is required').max(10000),
+  minimumTier: z.enum(['FREE', 'PREMIUM', 'VIP']).nullable().optional(),
+  publishedAt: z.coerce.date().optional()
+});
+
+const contentAccessRuleSchema = z.object({
+  minimumTier: z.enum(['FREE', 'PREMIUM', 'VIP']),
+  releaseDelayMinutes: z.object({
+    FREE: z.number().int().min(0).max(10080),
+    PREMIUM: z.number().int().min(0).max(10080),
+    VIP: z.number().int().min(0).max(10080)
+  })
+});
+
+const updateContentAccessPolicySchema = z.object({
+  CLUE: contentAccessRuleSchema.optional(),
+  HINT: contentAccessRuleSchema.optional(),
+  BONUS_STAGE: contentAccessRuleSchema.optional(),
+  ANNOUNCEMENT: contentAccessRuleSchema.optional()
+});
+
+const riskReviewSchema = z.object({
+  decision: z.enum(['APPROVE', 'REJECT']),
+  notes: z.string().max(1000).optional()
+});
+
+const checkInSchema = z.object({
+  ticket: z.string().min(1, 'Ticket is required'),
+  location: z.string().trim().min(1, 'Location name is required').max(100)
+});
+
+// GET /api/admin/dashboard?huntId=...
+// With a hunt, participant figures and revenue cover only that hunt; promoter figures are site-wide
+router.get('/dashboard', requirePermission(PERMISSIONS.DASHBOARD_READ), async (req: AuthenticatedRequest, res: Response) => {
   try {
+    const huntId = req.query.huntId as string;
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
     const [
       totalParticipants,
       totalPromoters,
@@ -38,7 +297,7 @@ router.get('/dashboard', async (req: AuthenticatedRequest, res: Response) => {
       topPromoters
     ] = await Promise.all([
       // Total participants
-      prisma.participant.count(),
+      huntId ? prisma.huntEnrollment.count({ where: { huntId } }) : prisma.participant.count(),
       
       // Total promoters
       prisma.promoter.count(),
@@ -50,18 +309,14 @@ router.get('/dashboard', async (req: AuthenticatedRequest, res: Response) => {
       
       // Total revenue
       prisma.payment.aggregate({
-        where: { status: 'COMPLETED' },
+        where: { status: 'COMPLETED', ...(huntId && { huntId }) },
         _sum: { amount: true }
       }),
       
       // Recent registrations (last 7 days)
-      prisma.participant.count({
-        where: {
-          createdAt: {
-            gte: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-          }
-        }
-      }),
+      huntId
+        ? prisma.huntEnrollment.count({ where: { huntId, createdAt: { gte: since } } })
+        : prisma.participant.count({ where: { createdAt: { gte: since } } }),
       
       // Top promoters by referrals
       prisma.promoter.findMany({
@@ -76,24 +331,41 @@ router.get('/dashboard', async (req: AuthenticatedRequest, res: Response) => {
     ]);
 
     // Tier distribution
-    const tierDistribution = await prisma.participant.groupBy({
-      by: ['tier'],
-      _count: true
-    });
+    const tierDistribution = huntId
+      ? await prisma.huntEnrollment.groupBy({
+        by: ['tier'],
+        where: { huntId },
+        _count: true
+      })
+      : await prisma.participant.groupBy({
+        by: ['tier'],
+        _count: true
+      });
 
     // Monthly registration trends
-    const monthlyTrends = await prisma.$queryRaw`
-      SELECT 
-        DATE_TRUNC('month', "createdAt") as month,
-        COUNT(*) as registrations
-      FROM "participants" 
-      WHERE "createdAt" >= CURRENT_DATE - INTERVAL '6 months'
-      GROUP BY month
-      ORDER BY month DESC
-    `;
+    const monthlyTrends = huntId
+      ? await prisma.$queryRaw`
+        SELECT 
+          DATE_TRUNC('month', "createdAt") as month,
+          COUNT(*) as registrations
+        FROM "hunt_enrollments" 
+        WHERE "huntId" = ${huntId} AND "createdAt" >= CURRENT_DATE - INTERVAL '6 months'
+        GROUP BY month
+        ORDER BY month DESC
+      `
+      : await prisma.$queryRaw`
+        SELECT 
+          DATE_TRUNC('month', "createdAt") as month,
+          COUNT(*) as registrations
+        FROM "participants" 
+        WHERE "createdAt" >= CURRENT_DATE - INTERVAL '6 months'
+        GROUP BY month
+        ORDER BY month DESC
+      `;
 
     res.json({
       dashboard: {
+        huntId: huntId || null,
         overview: {
           totalParticipants,
           totalPromoters,
@@ -119,7 +391,7 @@ router.get('/dashboard', async (req: AuthenticatedRequest, res: Response) => {
 });
 
 // GET /api/admin/participants
-router.get('/participants', async (req: AuthenticatedRequest, res: Response) => {
+router.get('/participants', requirePermission(PERMISSIONS.PARTICIPANTS_READ), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
@@ -127,6 +399,8 @@ router.get('/participants', async (req: AuthenticatedRequest, res: Response) =>
     const search = req.query.search as string;
     const tier = req.query.tier as string;
     const status = req.query.status as string;
+    const teamId = req.query.teamId as string;
+    const huntId = req.query.huntId as string;
 
     // Build where clause
     const where: any = {};
@@ -137,8 +411,17 @@ router.get('/participants', async (req: AuthenticatedRequest, res: Response) =>
         { user: { email: { contains: search, mode: 'insensitive' } } }
       ];
     }
-    if (tier) where.tier = tier;
-    if (status) where.status = status;
+    if (teamId) where.teamId = teamId;
+
+    // Within a hunt, tier and status are the participant's in that hunt
+    if (huntId) {
+      where.enrollments = {
+        some: { huntId, ...(tier && { tier }), ...(status && { status }) }
+      };
+    } else {
+      if (tier) where.tier = tier;
+      if (status) where.status = status;
+    }
 
     const [participants, total] = await Promise.all([
       prisma.participant.findMany({
@@ -156,8 +439,15 @@ router.get('/participants', async (req: AuthenticatedRequest, res: Response) =>
             }
           },
           payments: {
-            where: { status: 'COMPLETED' },
+            where: { status: 'COMPLETED', ...(huntId && { huntId }) },
             select: { amount: true }
+          },
+          enrollments: {
+            where: huntId ? { huntId } : undefined,
+            select: { huntId: true, tier: true, status: true, createdAt: true }
+          },
+          team: {
+            select: { id: true, name: true, captainId: true }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -185,7 +475,7 @@ router.get('/participants', async (req: AuthenticatedRequest, res: Response) =>
 });
 
 // GET /api/admin/promoters
-router.get('/promoters', async (req: AuthenticatedRequest, res: Response) => {
+router.get('/promoters', requirePermission(PERMISSIONS.PROMOTERS_READ), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
@@ -245,7 +535,7 @@ router.get('/promoters', async (req: AuthenticatedRequest, res: Response) => {
 });
 
 // PUT /api/admin/promoters/approve
-router.put('/promoters/approve', async (req: AuthenticatedRequest, res: Response) => {
+router.put('/promoters/approve', requirePermission(PERMISSIONS.PROMOTERS_APPROVE), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validatedData = approvePromoterSchema.parse(req.body);
     
@@ -276,23 +566,7 @@ router.put('/promoters/approve', async (req: AuthenticatedRequest, res: Response
         include: { user: true }
       });
 
-      // Generate password for approved promoters
-      if (validatedData.approved) {
-        const tempPassword = Math.random().toString(36).slice(-8);
-        const hashedPassword = await bcrypt.hash(tempPassword, 12);
-        
-        await tx.user.update({
-          where: { id: promoter.userId },
-          data: { password: hashedPassword }
-        });
-
-        // TODO: Send welcome email with temp password
-        console.log('Promoter approved - send welcome email:', {
-          email: promoter.user.email,
-          tempPassword,
-          referralCode: promoter.referralCode
-        });
-      } else {
+      if (!validatedData.approved) {
         // TODO: Send rejection email
         console.log('Promoter rejected - send rejection email:', {
           email: promoter.user.email,
@@ -320,6 +594,22 @@ router.put('/promoters/approve', async (req: AuthenticatedRequest, res: Response
       return updatedPromoter;
     });
 
+    // Approved promoters get a one-time link to set their own password
+    if (validatedData.approved && !isAccountClaimed(promoter.user)) {
+      try {
+        const claimUrl = await createAccountClaimLink(promoter.user);
+        await sendPromoterApprovalEmail(
+          promoter.user.email,
+          promoter.user.firstName || 'there',
+          promoter.referralCode,
+          claimUrl,
+          result.commissionRate
+        );
+      } catch (emailError) {
+        console.error('Failed to send promoter approval email:', emailError);
+      }
+    }
+
     res.json({
       message: `Promoter ${validatedData.approved ? 'approved' : 'rejected'} successfully`,
       promoter: result
@@ -333,17 +623,38 @@ router.put('/promoters/approve', async (req: AuthenticatedRequest, res: Response
 });
 
 // PUT /api/admin/participants/status
-router.put('/participants/status', async (req: AuthenticatedRequest, res: Response) => {
+router.put('/participants/status', requirePermission(PERMISSIONS.PARTICIPANTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validatedData = updateParticipantStatusSchema.parse(req.body);
+
+    const existing = await prisma.participant.findUnique({
+      where: { id: validatedData.participantId },
+      include: { user: true }
+    });
+
+    if (!existing) {
+      throw new AppError('Participant not found', 404);
+    }
+
+    // Deleted accounts are tombstones kept for their payment history
+    if (existing.status === 'WITHDRAWN') {
+      throw new AppError('Participant has deleted their account', 400);
+    }
+
+    if (validatedData.status === 'ACTIVE' && await isEmailVerificationRequired(existing.user)) {
+      throw new AppError('Participant must verify their email before being activated', 400);
+    }
     
     const result = await prisma.$transaction(async (tx) => {
+      // Any manual status takes the participant off the waitlist
       const participant = await tx.participant.update({
         where: { id: validatedData.participantId },
-        data: { status: validatedData.status },
+        data: { status: validatedData.status, waitlistedAt: null },
         include: { user: true }
       });
 
+      await syncEnrollmentStatus(tx, participant.id, validatedData.status);
+
       // Create audit log
       await tx.auditLog.create({
         data: {
@@ -363,6 +674,16 @@ router.put('/participants/status', async (req: AuthenticatedRequest, res: Respon
       return participant;
     });
 
+    // Suspended participants are signed out of every device
+    if (validatedData.status === 'SUSPENDED') {
+      await revokeAllSessions(result.userId, 'ACCOUNT_SUSPENDED');
+    }
+
+    // A rejection frees a place for the next person on the waitlist
+    if (validatedData.status === 'REJECTED') {
+      promoteFromWaitlistInBackground('participant rejection');
+    }
+
     res.json({
       message: 'Participant status updated successfully',
       participant: result
@@ -375,15 +696,296 @@ router.put('/participants/status', async (req: AuthenticatedRequest, res: Respon
   }
 });
 
+// GET /api/admin/waitlist
+router.get('/waitlist', requirePermission(PERMISSIONS.PARTICIPANTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = (page - 1) * limit;
+
+  const [waitlisted, total, settings] = await Promise.all([
+    prisma.participant.findMany({
+      where: { status: 'WAITLISTED' },
+      include: {
+        user: {
+          select: { email: true, firstName: true, lastName: true }
+        }
+      },
+      orderBy: { waitlistedAt: 'asc' },
+      skip: offset,
+      take: limit
+    }),
+    prisma.participant.count({ where: { status: 'WAITLISTED' } }),
+    getSiteSettings()
+  ]);
+
+  res.json({
+    waitlist: waitlisted.map((participant, index) => ({
+      ...participant,
+      waitlistPosition: offset + index + 1
+    })),
+    capacity: {
+      maxParticipants: settings.maxParticipants,
+      tierCapacity: settings.tierCapacity
+    },
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+// POST /api/admin/check-ins
+// Staff scan a participant's ticket QR code at an in-person event
+router.post('/check-ins', requirePermission(PERMISSIONS.CHECK_INS_SCAN), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = checkInSchema.parse(req.body);
+
+    const { checkIn, holder } = await checkInTicket(
+      validatedData.ticket,
+      validatedData.location,
+      req.user!.id,
+      getSessionContext(req)
+    );
+
+    res.status(201).json({
+      message: 'Checked in successfully',
+      checkIn,
+      participant: holder
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/admin/check-ins?huntId=...&location=...
+router.get('/check-ins', requirePermission(PERMISSIONS.CHECK_INS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = (page - 1) * limit;
+  const location = req.query.location as string;
+  const huntId = req.query.huntId as string;
+
+  const where: Prisma.CheckInWhereInput = {
+    ...(location && { location }),
+    ...(huntId && { huntId })
+  };
+
+  const [checkIns, total] = await Promise.all([
+    prisma.checkIn.findMany({
+      where,
+      include: {
+        hunt: {
+          select: { id: true, name: true, slug: true }
+        },
+        participant: {
+          select: {
+            id: true,
+            tier: true,
+            user: { select: { firstName: true, lastName: true, email: true } }
+          }
+        },
+        scannedBy: {
+          select: { id: true, email: true, firstName: true, lastName: true }
+        }
+      },
+      orderBy: { checkedInAt: 'desc' },
+      skip: offset,
+      take: limit
+    }),
+    prisma.checkIn.count({ where })
+  ]);
+
+  res.json({
+    checkIns,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+// GET /api/admin/check-ins/public-key
+// Lets scanner apps verify ticket signatures when offline
+router.get('/check-ins/public-key', requirePermission(PERMISSIONS.CHECK_INS_SCAN), async (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    algorithm: 'Ed25519',
+    format: 'RMT1.<base64url payload>.<base64url signature over "RMT1.<payload>">',
+    publicKey: getTicketPublicKey()
+  });
+});
+
+// GET /api/admin/review-queue?type=participants|promoters
+// Registrations flagged by risk scoring that haven't been reviewed yet, riskiest first
+router.get('/review-queue', requirePermission(PERMISSIONS.PARTICIPANTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const type = req.query.type as string;
+  const reviewFields = {
+    id: true,
+    status: true,
+    riskScore: true,
+    riskFlags: true,
+    ipAddress: true,
+    userAgent: true,
+    createdAt: true,
+    user: {
+      select: { id: true, email: true, firstName: true, lastName: true }
+    }
+  } as const;
+
+  const [participants, promoters] = await Promise.all([
+    type === 'promoters' ? Promise.resolve([]) : prisma.participant.findMany({
+      where: { flaggedForReview: true },
+      select: { ...reviewFields, tier: true, walletAddress: true },
+      orderBy: [{ riskScore: 'desc' }, { createdAt: 'asc' }]
+    }),
+    type === 'participants' ? Promise.resolve([]) : prisma.promoter.findMany({
+      where: { flaggedForReview: true },
+      select: { ...reviewFields, type: true, referralCode: true },
+      orderBy: [{ riskScore: 'desc' }, { createdAt: 'asc' }]
+    })
+  ]);
+
+  res.json({ participants, promoters });
+});
+
+// POST /api/admin/review-queue/participants/:id
+// Approving releases a held FREE registration; rejecting frees its place
+router.post('/review-queue/participants/:id', requirePermission(PERMISSIONS.PARTICIPANTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = riskReviewSchema.parse(req.body);
+
+    const participant = await prisma.participant.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!participant || !participant.flaggedForReview) {
+      throw new AppError('Participant is not awaiting review', 404);
+    }
+
+    const status = validatedData.decision === 'REJECT'
+      ? 'REJECTED'
+      : participant.status === 'PENDING' && participant.tier === 'FREE' ? 'APPROVED' : participant.status;
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const reviewed = await tx.participant.update({
+        where: { id: participant.id },
+        data: {
+          status,
+          ...(status === 'REJECTED' && { waitlistedAt: null }),
+          flaggedForReview: false,
+          riskReviewedAt: new Date(),
+          riskReviewedBy: req.user!.id
+        }
+      });
+
+      if (status !== participant.status) {
+        await syncEnrollmentStatus(tx, participant.id, status, status === 'REJECTED' ? undefined : ['PENDING']);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: validatedData.decision === 'APPROVE' ? 'PARTICIPANT_RISK_CLEARED' : 'PARTICIPANT_RISK_REJECTED',
+          entityType: 'PARTICIPANT',
+          entityId: participant.id,
+          oldValues: { status: participant.status, riskScore: participant.riskScore, riskFlags: participant.riskFlags },
+          newValues: { status, notes: validatedData.notes },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      return reviewed;
+    });
+
+    if (status === 'REJECTED' && participant.status !== 'WAITLISTED' && participant.status !== 'REJECTED') {
+      promoteFromWaitlistInBackground('risk review rejection');
+    }
+
+    res.json({
+      message: validatedData.decision === 'APPROVE' ? 'Registration approved' : 'Registration rejected',
+      participant: updated
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/admin/review-queue/promoters/:id
+// Approving only clears the flag; the application still goes through promoter approval
+router.post('/review-queue/promoters/:id', requirePermission(PERMISSIONS.PROMOTERS_APPROVE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = riskReviewSchema.parse(req.body);
+
+    const promoter = await prisma.promoter.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!promoter || !promoter.flaggedForReview) {
+      throw new AppError('Promoter is not awaiting review', 404);
+    }
+
+    const isRejected = validatedData.decision === 'REJECT';
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const reviewed = await tx.promoter.update({
+        where: { id: promoter.id },
+        data: {
+          ...(isRejected && { status: 'REJECTED', rejectionReason: validatedData.notes }),
+          flaggedForReview: false,
+          riskReviewedAt: new Date(),
+          riskReviewedBy: req.user!.id
+        }
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: isRejected ? 'PROMOTER_RISK_REJECTED' : 'PROMOTER_RISK_CLEARED',
+          entityType: 'PROMOTER',
+          entityId: promoter.id,
+          oldValues: { status: promoter.status, riskScore: promoter.riskScore, riskFlags: promoter.riskFlags },
+          newValues: { status: reviewed.status, notes: validatedData.notes },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      return reviewed;
+    });
+
+    res.json({
+      message: isRejected ? 'Application rejected' : 'Risk flag cleared',
+      promoter: updated
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
 // GET /api/admin/payments
-router.get('/payments', async (req: AuthenticatedRequest, res: Response) => {
+router.get('/payments', requirePermission(PERMISSIONS.PAYMENTS_READ), async (req: AuthenticatedRequest, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
     const offset = (page - 1) * limit;
     const status = req.query.status as string;
+    const huntId = req.query.huntId as string;
 
     const where: any = status ? { status: status as any } : {};
+    if (huntId) where.huntId = huntId;
 
     const [payments, total] = await Promise.all([
       prisma.payment.findMany({
@@ -394,6 +996,9 @@ router.get('/payments', async (req: AuthenticatedRequest, res: Response) => {
           },
           participant: {
             select: { tier: true }
+          },
+          hunt: {
+            select: { id: true, name: true, slug: true }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -417,43 +1022,1647 @@ router.get('/payments', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
-// GET /api/admin/audit-logs
-router.get('/audit-logs', async (req: AuthenticatedRequest, res: Response) => {
+// GET /api/admin/hunts
+router.get('/hunts', requirePermission(PERMISSIONS.HUNTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const hunts = await prisma.hunt.findMany({
+    include: {
+      _count: { select: { enrollments: true } }
+    },
+    orderBy: { startsAt: 'desc' }
+  });
+
+  res.json({
+    hunts: hunts.map(({ _count, ...hunt }) => ({
+      ...hunt,
+      tierPrices: getHuntTierPrices(hunt),
+      registrationOpen: isHuntRegistrationOpen(hunt),
+      enrollmentCount: _count.enrollments
+    }))
+  });
+});
+
+// POST /api/admin/hunts
+router.post('/hunts', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
-    const offset = (page - 1) * limit;
-    const action = req.query.action as string;
+    const validatedData = huntSchema.parse(req.body);
 
-    const where = action ? { action } : {};
+    assertValidHuntSchedule(validatedData);
 
-    const [logs, total] = await Promise.all([
-      prisma.auditLog.findMany({
-        where,
-        include: {
-          user: {
-            select: { firstName: true, lastName: true, email: true }
-          }
-        },
-        orderBy: { createdAt: 'desc' },
-        skip: offset,
-        take: limit
-      }),
-      prisma.auditLog.count({ where })
-    ]);
+    const existing = await prisma.hunt.findUnique({
+      where: { slug: validatedData.slug }
+    });
 
-    res.json({
-      logs,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
-      }
+    if (existing) {
+      throw new AppError('A hunt with that slug already exists', 409);
+    }
+
+    const hunt = await prisma.$transaction(async (tx) => {
+      const created = await tx.hunt.create({
+        data: {
+          ...validatedData,
+          tierPrices: validatedData.tierPrices ?? TIER_PRICES
+        }
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: 'HUNT_CREATE',
+          entityType: 'HUNT',
+          entityId: created.id,
+          newValues: { ...validatedData, tierPrices: created.tierPrices } as Prisma.InputJsonObject,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      return created;
+    });
+
+    res.status(201).json({
+      message: 'Hunt created successfully',
+      hunt
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
     throw error;
   }
 });
 
+// GET /api/admin/hunts/:id
+router.get('/hunts/:id', requirePermission(PERMISSIONS.HUNTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const hunt = await prisma.hunt.findUnique({
+    where: { id: req.params.id }
+  });
+
+  if (!hunt) {
+    throw new AppError('Hunt not found', 404);
+  }
+
+  const [enrollments, revenue] = await Promise.all([
+    prisma.huntEnrollment.groupBy({
+      by: ['tier', 'status'],
+      where: { huntId: hunt.id },
+      _count: true
+    }),
+    prisma.payment.aggregate({
+      where: { huntId: hunt.id, status: 'COMPLETED' },
+      _sum: { amount: true }
+    })
+  ]);
+
+  res.json({
+    hunt: {
+      ...hunt,
+      tierPrices: getHuntTierPrices(hunt),
+      registrationOpen: isHuntRegistrationOpen(hunt)
+    },
+    enrollments,
+    revenue: revenue._sum.amount || 0
+  });
+});
+
+// PUT /api/admin/hunts/:id
+// Price changes only affect checkouts started afterwards
+router.put('/hunts/:id', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = huntSchema.partial().parse(req.body);
+
+    const hunt = await prisma.hunt.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!hunt) {
+      throw new AppError('Hunt not found', 404);
+    }
+
+    assertValidHuntSchedule({ ...hunt, ...validatedData });
+
+    if (validatedData.slug && validatedData.slug !== hunt.slug) {
+      const existing = await prisma.hunt.findUnique({
+        where: { slug: validatedData.slug }
+      });
+
+      if (existing) {
+        throw new AppError('A hunt with that slug already exists', 409);
+      }
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.hunt.update({
+        where: { id: hunt.id },
+        data: validatedData
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: 'HUNT_UPDATE',
+          entityType: 'HUNT',
+          entityId: hunt.id,
+          newValues: validatedData as Prisma.InputJsonObject,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      })
+    ]);
+
+    res.json({
+      message: 'Hunt updated successfully',
+      hunt: updated
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/admin/hunts/:id
+// Only hunts nobody has signed up for; unpublish the others instead
+router.delete('/hunts/:id', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  const hunt = await prisma.hunt.findUnique({
+    where: { id: req.params.id },
+    include: {
+      _count: { select: { enrollments: true, payments: true, referrals: true } }
+    }
+  });
+
+  if (!hunt) {
+    throw new AppError('Hunt not found', 404);
+  }
+
+  if (hunt._count.enrollments > 0 || hunt._count.payments > 0 || hunt._count.referrals > 0) {
+    throw new AppError('Hunt has registrations or payments. Unpublish it instead.', 409);
+  }
+
+  await prisma.$transaction([
+    prisma.hunt.delete({
+      where: { id: hunt.id }
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'HUNT_DELETE',
+        entityType: 'HUNT',
+        entityId: hunt.id,
+        oldValues: { name: hunt.name, slug: hunt.slug },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    })
+  ]);
+
+  res.json({
+    message: 'Hunt deleted successfully'
+  });
+});
+
+// GET /api/admin/hunts/:huntId/clues
+router.get('/hunts/:huntId/clues', requirePermission(PERMISSIONS.HUNTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const [clues, solves] = await Promise.all([
+    prisma.clue.findMany({
+      where: { huntId: req.params.huntId },
+      include: {
+        _count: { select: { progress: true } }
+      },
+      orderBy: { position: 'asc' }
+    }),
+    prisma.clueProgress.groupBy({
+      by: ['clueId'],
+      where: { clue: { huntId: req.params.huntId }, solvedAt: { not: null } },
+      _count: true
+    })
+  ]);
+
+  res.json({
+    clues: clues.map(clue => ({
+      ...describeClueForAdmin(clue),
+      participantsSolved: solves.find(solve => solve.clueId === clue.id)?._count ?? 0
+    }))
+  });
+});
+
+// POST /api/admin/hunts/:huntId/clues
+// Added after the last clue unless a `position` is given
+router.post('/hunts/:huntId/clues', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = clueSchema.parse(req.body);
+
+    const hunt = await prisma.hunt.findUnique({
+      where: { id: req.params.huntId }
+    });
+
+    if (!hunt) {
+      throw new AppError('Hunt not found', 404);
+    }
+
+    const clue = await createClue(hunt, validatedData);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CLUE_CREATE',
+        entityType: 'CLUE',
+        entityId: clue.id,
+        newValues: {
+          huntId: hunt.id,
+          position: clue.position,
+          title: clue.title,
+          answerCount: clue.answerHashes.length,
+          isBonus: clue.isBonus,
+          minimumTier: clue.minimumTier,
+          releasesAt: clue.releasesAt?.toISOString() ?? null
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      message: 'Clue created successfully',
+      clue: describeClueForAdmin(clue)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// PUT /api/admin/hunts/:huntId/clues/order
+router.put('/hunts/:huntId/clues/order', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = clueOrderSchema.parse(req.body);
+
+    const clues = await reorderClues(req.params.huntId, validatedData.clueIds);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CLUE_REORDER',
+        entityType: 'HUNT',
+        entityId: req.params.huntId,
+        newValues: { clueIds: validatedData.clueIds },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Clues reordered successfully',
+      clues: clues.map(describeClueForAdmin)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// PUT /api/admin/hunts/:huntId/clues/:clueId
+// Move clues with the order endpoint; `answers` replaces every accepted answer
+router.put('/hunts/:huntId/clues/:clueId', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = clueSchema.omit({ position: true }).partial().parse(req.body);
+
+    const clue = await updateClue(req.params.huntId, req.params.clueId, validatedData);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CLUE_UPDATE',
+        entityType: 'CLUE',
+        entityId: clue.id,
+        newValues: {
+          ...(validatedData.title !== undefined && { title: validatedData.title }),
+          ...(validatedData.body !== undefined && { body: validatedData.body }),
+          ...(validatedData.answers && { answerCount: clue.answerHashes.length }),
+          ...(validatedData.isBonus !== undefined && { isBonus: validatedData.isBonus }),
+          ...(validatedData.minimumTier !== undefined && { minimumTier: validatedData.minimumTier }),
+          ...(validatedData.releasesAt !== undefined && { releasesAt: validatedData.releasesAt?.toISOString() ?? null })
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Clue updated successfully',
+      clue: describeClueForAdmin(clue)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/admin/hunts/:huntId/clues/:clueId
+// Also deletes participants' progress on the clue
+router.delete('/hunts/:huntId/clues/:clueId', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  const clue = await deleteClue(req.params.huntId, req.params.clueId);
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'CLUE_DELETE',
+      entityType: 'CLUE',
+      entityId: clue.id,
+      oldValues: { huntId: clue.huntId, position: clue.position, title: clue.title },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'Clue deleted successfully'
+  });
+});
+
+// POST /api/admin/hunts/:huntId/clues/:clueId/preview
+// The clue as participants will see it, when each tier gets it, and whether `answer` would be accepted
+router.post('/hunts/:huntId/clues/:clueId/preview', requirePermission(PERMISSIONS.HUNTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = cluePreviewSchema.parse(req.body);
+
+    const hunt = await prisma.hunt.findUnique({
+      where: { id: req.params.huntId }
+    });
+
+    if (!hunt) {
+      throw new AppError('Hunt not found', 404);
+    }
+
+    const preview = await previewClue(hunt, req.params.clueId, validatedData.answer);
+
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/admin/hunts/:huntId/clues/:clueId/hints
+router.get('/hunts/:huntId/clues/:clueId/hints', requirePermission(PERMISSIONS.HUNTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const hints = await prisma.hint.findMany({
+    where: { clueId: req.params.clueId, clue: { huntId: req.params.huntId } },
+    include: {
+      _count: { select: { unlocks: true } }
+    },
+    orderBy: { position: 'asc' }
+  });
+
+  res.json({ hints: hints.map(describeHintForAdmin) });
+});
+
+// POST /api/admin/hunts/:huntId/clues/:clueId/hints
+// Added after the clue's last hint; participants unlock them in order
+router.post('/hunts/:huntId/clues/:clueId/hints', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = hintSchema.parse(req.body);
+
+    const clue = await prisma.clue.findFirst({
+      where: { id: req.params.clueId, huntId: req.params.huntId }
+    });
+
+    if (!clue) {
+      throw new AppError('Clue not found', 404);
+    }
+
+    const hint = await createHint(clue, validatedData);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'HINT_CREATE',
+        entityType: 'HINT',
+        entityId: hint.id,
+        newValues: {
+          clueId: clue.id,
+          position: hint.position,
+          unlockAfterMinutes: hint.unlockAfterMinutes,
+          creditCost: hint.creditCost,
+          penaltyPoints: hint.penaltyPoints,
+          minimumTier: hint.minimumTier
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      message: 'Hint created successfully',
+      hint: describeHintForAdmin(hint)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// PUT /api/admin/hunts/:huntId/clues/:clueId/hints/:hintId
+router.put('/hunts/:huntId/clues/:clueId/hints/:hintId', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = hintSchema.partial().parse(req.body);
+
+    const clue = await prisma.clue.findFirst({
+      where: { id: req.params.clueId, huntId: req.params.huntId }
+    });
+
+    if (!clue) {
+      throw new AppError('Clue not found', 404);
+    }
+
+    const hint = await updateHint(clue.id, req.params.hintId, validatedData);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'HINT_UPDATE',
+        entityType: 'HINT',
+        entityId: hint.id,
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Hint updated successfully',
+      hint: describeHintForAdmin(hint)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/admin/hunts/:huntId/clues/:clueId/hints/:hintId
+// Only hints nobody has unlocked
+router.delete('/hunts/:huntId/clues/:clueId/hints/:hintId', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  const clue = await prisma.clue.findFirst({
+    where: { id: req.params.clueId, huntId: req.params.huntId }
+  });
+
+  if (!clue) {
+    throw new AppError('Clue not found', 404);
+  }
+
+  const hint = await deleteHint(clue.id, req.params.hintId);
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'HINT_DELETE',
+      entityType: 'HINT',
+      entityId: hint.id,
+      oldValues: { clueId: clue.id, position: hint.position },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'Hint deleted successfully'
+  });
+});
+
+// GET /api/admin/hunts/:huntId/hint-usage
+router.get('/hunts/:huntId/hint-usage', requirePermission(PERMISSIONS.HUNTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const hunt = await prisma.hunt.findUnique({
+    where: { id: req.params.huntId }
+  });
+
+  if (!hunt) {
+    throw new AppError('Hunt not found', 404);
+  }
+
+  const report = await getHintUsageReport(hunt.id);
+
+  res.json({
+    huntId: hunt.id,
+    ...report
+  });
+});
+
+// GET /api/admin/announcements
+router.get('/announcements', requirePermission(PERMISSIONS.HUNTS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+
+  const where: Prisma.AnnouncementWhereInput = {};
+  if (req.query.huntId) where.huntId = req.query.huntId as string;
+
+  const [announcements, total] = await Promise.all([
+    prisma.announcement.findMany({
+      where,
+      include: {
+        hunt: { select: { name: true, slug: true } },
+        createdBy: { select: { email: true, firstName: true, lastName: true } }
+      },
+      orderBy: { publishedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit
+    }),
+    prisma.announcement.count({ where })
+  ]);
+
+  res.json({
+    announcements,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+// POST /api/admin/announcements
+// Without a `huntId` it goes to participants of every hunt. `publishedAt` can schedule it.
+router.post('/announcements', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = announcementSchema.parse(req.body);
+
+    if (validatedData.huntId) {
+      const hunt = await prisma.hunt.findUnique({
+        where: { id: validatedData.huntId }
+      });
+
+      if (!hunt) {
+        throw new AppError('Hunt not found', 404);
+      }
+    }
+
+    const announcement = await prisma.$transaction(async (tx) => {
+      const created = await tx.announcement.create({
+        data: {
+          ...validatedData,
+          createdById: req.user!.id
+        }
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: 'ANNOUNCEMENT_CREATE',
+          entityType: 'ANNOUNCEMENT',
+          entityId: created.id,
+          newValues: {
+            huntId: created.huntId,
+            title: created.title,
+            minimumTier: created.minimumTier,
+            publishedAt: created.publishedAt.toISOString()
+          },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      return created;
+    });
+
+    res.status(201).json({
+      message: 'Announcement created successfully',
+      announcement
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// PUT /api/admin/announcements/:id
+router.put('/announcements/:id', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = announcementSchema.omit({ huntId: true }).partial().parse(req.body);
+
+    const announcement = await prisma.announcement.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!announcement) {
+      throw new AppError('Announcement not found', 404);
+    }
+
+    const [updated] = await prisma.$transaction([
+      prisma.announcement.update({
+        where: { id: announcement.id },
+        data: validatedData
+      }),
+      prisma.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: 'ANNOUNCEMENT_UPDATE',
+          entityType: 'ANNOUNCEMENT',
+          entityId: announcement.id,
+          newValues: {
+            ...validatedData,
+            ...(validatedData.publishedAt && { publishedAt: validatedData.publishedAt.toISOString() })
+          },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      })
+    ]);
+
+    res.json({
+      message: 'Announcement updated successfully',
+      announcement: updated
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/admin/announcements/:id
+router.delete('/announcements/:id', requirePermission(PERMISSIONS.HUNTS_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  const announcement = await prisma.announcement.findUnique({
+    where: { id: req.params.id }
+  });
+
+  if (!announcement) {
+    throw new AppError('Announcement not found', 404);
+  }
+
+  await prisma.$transaction([
+    prisma.announcement.delete({
+      where: { id: announcement.id }
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'ANNOUNCEMENT_DELETE',
+        entityType: 'ANNOUNCEMENT',
+        entityId: announcement.id,
+        oldValues: { huntId: announcement.huntId, title: announcement.title },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    })
+  ]);
+
+  res.json({
+    message: 'Announcement deleted successfully'
+  });
+});
+
+// GET /api/admin/audit-logs
+router.get('/audit-logs', requirePermission(PERMISSIONS.AUDIT_READ), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const offset = (page - 1) * limit;
+    const action = req.query.action as string;
+    const impersonatorId = req.query.impersonatorId as string;
+
+    const where: Prisma.AuditLogWhereInput = {};
+    if (action) where.action = action;
+    if (impersonatorId) where.impersonatorId = impersonatorId;
+    if (req.query.apiKeyId) where.apiKeyId = req.query.apiKeyId as string;
+
+    const [logs, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        include: {
+          user: {
+            select: { firstName: true, lastName: true, email: true }
+          },
+          apiKey: {
+            select: { name: true, prefix: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: offset,
+        take: limit
+      }),
+      prisma.auditLog.count({ where })
+    ]);
+
+    res.json({
+      logs,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    throw error;
+  }
+});
+
+// GET /api/admin/users/:userId/sessions
+router.get('/users/:userId/sessions', requirePermission(PERMISSIONS.USERS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.params.userId },
+    select: { id: true, email: true, role: true }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const sessions = await listActiveSessions(user.id);
+
+  res.json({ user, sessions });
+});
+
+// DELETE /api/admin/users/:userId/sessions
+router.delete('/users/:userId/sessions', requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.params.userId },
+    select: { id: true, role: true }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  await revokeAllSessions(user.id, 'ADMIN_REVOKED');
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'ADMIN_SESSIONS_REVOKED',
+      entityType: 'USER',
+      entityId: user.id,
+      newValues: { role: user.role },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'All sessions revoked successfully'
+  });
+});
+
+// POST /api/admin/users/:userId/unlock
+router.post('/users/:userId/unlock', requirePermission(PERMISSIONS.USERS_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.params.userId },
+    select: { id: true, failedLoginAttempts: true, lockedUntil: true }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null
+    }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'ACCOUNT_UNLOCKED',
+      entityType: 'USER',
+      entityId: user.id,
+      oldValues: {
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil?.toISOString() ?? null
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'Account unlocked successfully'
+  });
+});
+
+// POST /api/admin/users/:userId/impersonate
+router.post('/users/:userId/impersonate', requirePermission(PERMISSIONS.USERS_IMPERSONATE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = impersonateUserSchema.parse(req.body);
+
+    const { impersonation, targetUser, accessToken } = await startImpersonation(
+      req.user!.id,
+      req.params.userId,
+      validatedData.reason,
+      getSessionContext(req)
+    );
+
+    res.status(201).json({
+      message: 'Impersonation started',
+      impersonation: {
+        id: impersonation.id,
+        expiresAt: impersonation.expiresAt
+      },
+      user: targetUser,
+      // Access token only: impersonation can't be refreshed, start a new one instead
+      tokens: {
+        accessToken
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/admin/users/:userId/export
+router.post('/users/:userId/export', requirePermission(PERMISSIONS.USERS_EXPORT), async (req: AuthenticatedRequest, res: Response) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.params.userId },
+    select: { id: true }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const dataExport = await requestDataExport(user.id, req.user!.id);
+
+  res.status(dataExport.status === 'PENDING' ? 202 : 201).json({
+    message: dataExport.status === 'PENDING' ? 'Export is being prepared' : 'Export is ready',
+    export: describeDataExport(dataExport)
+  });
+});
+
+// GET /api/admin/exports/:id
+router.get('/exports/:id', requirePermission(PERMISSIONS.USERS_EXPORT), async (req: AuthenticatedRequest, res: Response) => {
+  const dataExport = await prisma.dataExport.findUnique({
+    where: { id: req.params.id }
+  });
+
+  if (!dataExport) {
+    throw new AppError('Export not found', 404);
+  }
+
+  res.json({ export: { ...describeDataExport(dataExport), userId: dataExport.userId } });
+});
+
+// GET /api/admin/impersonations
+router.get('/impersonations', requirePermission(PERMISSIONS.AUDIT_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const page = parseInt(req.query.page as string) || 1;
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+  const offset = (page - 1) * limit;
+
+  const [impersonations, total] = await Promise.all([
+    prisma.impersonation.findMany({
+      include: {
+        admin: {
+          select: { id: true, email: true, firstName: true, lastName: true }
+        },
+        targetUser: {
+          select: { id: true, email: true, firstName: true, lastName: true, role: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      skip: offset,
+      take: limit
+    }),
+    prisma.impersonation.count()
+  ]);
+
+  res.json({
+    impersonations,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  });
+});
+
+// DELETE /api/admin/impersonations/:id
+router.delete('/impersonations/:id', requirePermission(PERMISSIONS.USERS_IMPERSONATE), async (req: AuthenticatedRequest, res: Response) => {
+  const ended = await endImpersonation(req.params.id, req.user!.id, 'ADMIN_ENDED', getSessionContext(req));
+
+  if (!ended) {
+    throw new AppError('Impersonation not found or already ended', 404);
+  }
+
+  res.json({
+    message: 'Impersonation ended'
+  });
+});
+
+// GET /api/admin/settings
+router.get('/settings', requirePermission(PERMISSIONS.CONFIG_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await getSiteSettings();
+
+  res.json({ settings });
+});
+
+// PUT /api/admin/settings
+router.put('/settings', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateSiteSettingsSchema.parse(req.body);
+
+    const currentSettings = await getSiteSettings();
+    const settings = await setConfig('site_settings', { ...currentSettings, ...validatedData });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'SITE_SETTINGS_UPDATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'site_settings',
+        oldValues: { ...currentSettings },
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    // Raising capacity lets waitlisted participants in straight away
+    promoteFromWaitlistInBackground('settings update');
+
+    res.json({
+      message: 'Settings updated successfully',
+      settings
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/admin/settings/security
+router.get('/settings/security', requirePermission(PERMISSIONS.CONFIG_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await getSecuritySettings();
+
+  res.json({ settings });
+});
+
+// PUT /api/admin/settings/security
+router.put('/settings/security', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateSecuritySettingsSchema.parse(req.body);
+
+    // Don't let an admin lock themselves out by mandating 2FA they haven't set up
+    if (validatedData.requireAdminTwoFactor) {
+      const admin = await prisma.user.findUnique({
+        where: { id: req.user!.id },
+        select: { twoFactorEnabled: true }
+      });
+
+      if (!admin?.twoFactorEnabled) {
+        throw new AppError('Enable two-factor authentication on your own account first', 400);
+      }
+    }
+
+    const currentSettings = await getSecuritySettings();
+    const settings = await setConfig('security_settings', { ...currentSettings, ...validatedData });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'SECURITY_SETTINGS_UPDATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'security_settings',
+        oldValues: { ...currentSettings },
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Security settings updated successfully',
+      settings
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/admin/settings/invite-rewards
+router.get('/settings/invite-rewards', requirePermission(PERMISSIONS.CONFIG_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await getInviteRewardSettings();
+
+  res.json({ settings });
+});
+
+// PUT /api/admin/settings/invite-rewards
+// Changes apply to invites from then on; rewards already granted are kept
+router.put('/settings/invite-rewards', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateInviteRewardSettingsSchema.parse(req.body);
+
+    const currentSettings = await getInviteRewardSettings();
+    const settings = await setConfig('invite_rewards', { ...currentSettings, ...validatedData });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'INVITE_REWARD_SETTINGS_UPDATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'invite_rewards',
+        oldValues: { ...currentSettings } as unknown as Prisma.InputJsonValue,
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Invite reward settings updated successfully',
+      settings
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/admin/settings/content-access
+router.get('/settings/content-access', requirePermission(PERMISSIONS.CONFIG_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const policy = await getContentAccessPolicy();
+
+  res.json({ policy });
+});
+
+// PUT /api/admin/settings/content-access
+// Minimum tier and per-tier release delays for each content type; items can set their own minimum tier
+router.put('/settings/content-access', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateContentAccessPolicySchema.parse(req.body);
+
+    const currentPolicy = await getContentAccessPolicy();
+    const policy = await setConfig('content_access', { ...currentPolicy, ...validatedData });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CONTENT_ACCESS_POLICY_UPDATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'content_access',
+        oldValues: currentPolicy as unknown as Prisma.InputJsonValue,
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Content access policy updated successfully',
+      policy
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/admin/settings/hints
+router.get('/settings/hints', requirePermission(PERMISSIONS.CONFIG_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const settings = await getHintSettings();
+
+  res.json({ settings });
+});
+
+// PUT /api/admin/settings/hints
+// Free hint credits per tier and the hint packs on sale; packs already bought keep their credits
+router.put('/settings/hints', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateHintSettingsSchema.parse(req.body);
+
+    const currentSettings = await getHintSettings();
+    const settings = await setConfig('hint_settings', { ...currentSettings, ...validatedData });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'HINT_SETTINGS_UPDATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'hint_settings',
+        oldValues: currentSettings as unknown as Prisma.InputJsonValue,
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Hint settings updated successfully',
+      settings
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/admin/registration-form
+router.get('/registration-form', requirePermission(PERMISSIONS.CONFIG_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const form = await getRegistrationForm();
+
+  res.json({ form });
+});
+
+// PUT /api/admin/registration-form
+// Replace the whole form, e.g. at the start of a new season
+router.put('/registration-form', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = registrationFormSchema.parse(req.body);
+
+    const currentForm = await getRegistrationForm();
+    const form = await saveRegistrationForm(validatedData.fields);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'REGISTRATION_FORM_UPDATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'registration_form',
+        oldValues: currentForm as unknown as Prisma.InputJsonValue,
+        newValues: form as unknown as Prisma.InputJsonValue,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Registration form updated successfully',
+      form
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/admin/registration-form/fields
+router.post('/registration-form/fields', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const field = registrationFieldSchema.parse(req.body);
+
+    const currentForm = await getRegistrationForm();
+    if (currentForm.fields.some(existing => existing.key === field.key)) {
+      throw new AppError(`A field with key "${field.key}" already exists`, 409);
+    }
+
+    const { fields } = registrationFormSchema.parse({ fields: [...currentForm.fields, field] });
+    const form = await saveRegistrationForm(fields);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'REGISTRATION_FIELD_CREATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'registration_form',
+        newValues: { field, version: form.version },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      message: 'Registration field added successfully',
+      form
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// PUT /api/admin/registration-form/fields/:key
+router.put('/registration-form/fields/:key', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const currentForm = await getRegistrationForm();
+    const existing = currentForm.fields.find(field => field.key === req.params.key);
+
+    if (!existing) {
+      throw new AppError('Registration field not found', 404);
+    }
+
+    // Partial updates are merged into the existing definition; the key can't change
+    const field = registrationFieldSchema.parse({ ...existing, ...req.body, key: existing.key });
+    const form = await saveRegistrationForm(
+      currentForm.fields.map(current => current.key === field.key ? field : current)
+    );
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'REGISTRATION_FIELD_UPDATE',
+        entityType: 'SYSTEM_CONFIG',
+        entityId: 'registration_form',
+        oldValues: { field: { ...existing } },
+        newValues: { field, version: form.version },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Registration field updated successfully',
+      form
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/admin/registration-form/fields/:key
+// Answers already given stay in each participant's registrationData
+router.delete('/registration-form/fields/:key', requirePermission(PERMISSIONS.CONFIG_WRITE), async (req: AuthenticatedRequest, res: Response) => {
+  const currentForm = await getRegistrationForm();
+  const existing = currentForm.fields.find(field => field.key === req.params.key);
+
+  if (!existing) {
+    throw new AppError('Registration field not found', 404);
+  }
+
+  const form = await saveRegistrationForm(currentForm.fields.filter(field => field.key !== existing.key));
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'REGISTRATION_FIELD_DELETE',
+      entityType: 'SYSTEM_CONFIG',
+      entityId: 'registration_form',
+      oldValues: { field: { ...existing } },
+      newValues: { version: form.version },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'Registration field deleted successfully',
+    form
+  });
+});
+
+// GET /api/admin/permissions
+router.get('/permissions', requirePermission(PERMISSIONS.STAFF_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  res.json({ permissions: ALL_PERMISSIONS });
+});
+
+// GET /api/admin/roles
+router.get('/roles', requirePermission(PERMISSIONS.STAFF_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  const roles = await prisma.staffRole.findMany({
+    include: {
+      _count: { select: { users: true } }
+    },
+    orderBy: { name: 'asc' }
+  });
+
+  res.json({ roles });
+});
+
+// POST /api/admin/roles
+router.post('/roles', requirePermission(PERMISSIONS.STAFF_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = createStaffRoleSchema.parse(req.body);
+
+    const existingRole = await prisma.staffRole.findUnique({
+      where: { name: validatedData.name }
+    });
+
+    if (existingRole) {
+      throw new AppError('A staff role with this name already exists', 409);
+    }
+
+    const role = await prisma.staffRole.create({
+      data: validatedData
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'STAFF_ROLE_CREATE',
+        entityType: 'STAFF_ROLE',
+        entityId: role.id,
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      message: 'Staff role created successfully',
+      role
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// PUT /api/admin/roles/:id
+router.put('/roles/:id', requirePermission(PERMISSIONS.STAFF_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateStaffRoleSchema.parse(req.body);
+
+    const role = await prisma.staffRole.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!role) {
+      throw new AppError('Staff role not found', 404);
+    }
+
+    if (role.isSystem) {
+      throw new AppError('Built-in staff roles cannot be modified', 400);
+    }
+
+    const updatedRole = await prisma.staffRole.update({
+      where: { id: role.id },
+      data: validatedData
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'STAFF_ROLE_UPDATE',
+        entityType: 'STAFF_ROLE',
+        entityId: role.id,
+        oldValues: { description: role.description, permissions: role.permissions },
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Staff role updated successfully',
+      role: updatedRole
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/admin/roles/:id
+router.delete('/roles/:id', requirePermission(PERMISSIONS.STAFF_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  const role = await prisma.staffRole.findUnique({
+    where: { id: req.params.id }
+  });
+
+  if (!role) {
+    throw new AppError('Staff role not found', 404);
+  }
+
+  if (role.isSystem) {
+    throw new AppError('Built-in staff roles cannot be deleted', 400);
+  }
+
+  await prisma.staffRole.delete({
+    where: { id: role.id }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'STAFF_ROLE_DELETE',
+      entityType: 'STAFF_ROLE',
+      entityId: role.id,
+      oldValues: { name: role.name, permissions: role.permissions },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'Staff role deleted successfully'
+  });
+});
+
+// GET /api/admin/staff
+router.get('/staff', requirePermission(PERMISSIONS.STAFF_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  const staff = await prisma.user.findMany({
+    where: { role: 'ADMIN' },
+    select: {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      twoFactorEnabled: true,
+      createdAt: true,
+      staffRoles: {
+        select: { id: true, name: true, permissions: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  res.json({ staff });
+});
+
+// PUT /api/admin/staff/:userId/roles
+router.put('/staff/:userId/roles', requirePermission(PERMISSIONS.STAFF_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = assignStaffRolesSchema.parse(req.body);
+
+    const { previousRoles, staffRoles } = await setStaffRoles(req.params.userId, validatedData.roleIds);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'STAFF_ROLES_ASSIGN',
+        entityType: 'USER',
+        entityId: req.params.userId,
+        oldValues: { roles: previousRoles },
+        newValues: { roles: staffRoles.map(staffRole => staffRole.name) },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Staff roles updated successfully',
+      staffRoles
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// Fields safe to return for an API key (never the hash)
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  rateLimitPerMinute: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  expiresAt: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: {
+    select: { id: true, email: true }
+  }
+} satisfies Prisma.ApiKeySelect;
+
+// GET /api/admin/api-keys
+router.get('/api-keys', requirePermission(PERMISSIONS.API_KEYS_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  const apiKeys = await prisma.apiKey.findMany({
+    select: apiKeySelect,
+    orderBy: { createdAt: 'desc' }
+  });
+
+  res.json({ apiKeys, availableScopes: ALL_API_KEY_SCOPES });
+});
+
+// POST /api/admin/api-keys
+router.post('/api-keys', requirePermission(PERMISSIONS.API_KEYS_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = createApiKeySchema.parse(req.body);
+
+    const { apiKey, key } = await createApiKey(validatedData, req.user!.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'API_KEY_CREATE',
+        entityType: 'API_KEY',
+        entityId: apiKey.id,
+        newValues: {
+          name: apiKey.name,
+          prefix: apiKey.prefix,
+          scopes: apiKey.scopes,
+          rateLimitPerMinute: apiKey.rateLimitPerMinute
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.status(201).json({
+      message: 'API key created. Copy it now, it will not be shown again.',
+      key,
+      apiKey: await prisma.apiKey.findUnique({ where: { id: apiKey.id }, select: apiKeySelect })
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// PUT /api/admin/api-keys/:id
+router.put('/api-keys/:id', requirePermission(PERMISSIONS.API_KEYS_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateApiKeySchema.parse(req.body);
+
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!apiKey) {
+      throw new AppError('API key not found', 404);
+    }
+
+    if (apiKey.revokedAt) {
+      throw new AppError('Revoked API keys cannot be modified', 400);
+    }
+
+    const updatedApiKey = await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: validatedData,
+      select: apiKeySelect
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'API_KEY_UPDATE',
+        entityType: 'API_KEY',
+        entityId: apiKey.id,
+        oldValues: {
+          name: apiKey.name,
+          scopes: apiKey.scopes,
+          rateLimitPerMinute: apiKey.rateLimitPerMinute
+        },
+        newValues: validatedData,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'API key updated successfully',
+      apiKey: updatedApiKey
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/admin/api-keys/:id
+router.delete('/api-keys/:id', requirePermission(PERMISSIONS.API_KEYS_MANAGE), async (req: AuthenticatedRequest, res: Response) => {
+  const apiKey = await revokeApiKey(req.params.id);
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'API_KEY_REVOKE',
+      entityType: 'API_KEY',
+      entityId: apiKey.id,
+      oldValues: { name: apiKey.name, prefix: apiKey.prefix },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'API key revoked successfully'
+  });
+});
+
 export default router;
\ No newline at end of file
@@ -1,14 +1,73 @@
 import { Router, Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
+import rateLimit from 'express-rate-limit';
 import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import prisma from '@/config/database';
 import { AppError } from '@/middleware/errorHandler';
-import { authenticate, AuthenticatedRequest } from '@/middleware/auth';
+import { authenticate, AuthenticatedRequest, denyImpersonation } from '@/middleware/auth';
 import { validateTurnstile } from '@/middleware/validateTurnstile';
+import {
+  confirmEmailVerification,
+  issueEmailVerification,
+  resendEmailVerification
+} from '@/services/emailVerificationService';
+import { requestPasswordReset, resetPassword } from '@/services/passwordResetService';
+import {
+  canClaimAccount,
+  claimAccount,
+  findUserByClaimToken,
+  isAccountClaimed,
+  issueAccountClaim
+} from '@/services/accountClaimService';
+import {
+  createSession,
+  getSessionContext,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeOtherSessions,
+  revokeSession,
+  rotateRefreshToken
+} from '@/services/sessionService';
+import {
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  createLoginChallenge,
+  disableTwoFactor,
+  isTwoFactorRequiredForRole,
+  LoginMethod,
+  regenerateRecoveryCodes,
+  verifyLoginChallenge,
+  verifyTwoFactor
+} from '@/services/twoFactorService';
+import {
+  assertLoginAllowed,
+  recordFailedLogin,
+  recordUnknownAccountLogin,
+  resetFailedLogins
+} from '@/services/loginProtectionService';
+import {
+  createSiweNonce,
+  findParticipantByWallet,
+  linkVerifiedWallet,
+  verifySiweSignature
+} from '@/services/siweService';
+import { getUserPermissions } from '@/services/permissionService';
+import { endImpersonation } from '@/services/impersonationService';
+import { toSafeUser } from '@/utils/users';
 
 const router = Router();
 
+// Per-IP limit on failed sign-ins, on top of the per-account lockout
+const loginLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // failed attempts per IP per window
+  skipSuccessfulRequests: true,
+  message: 'Too many failed login attempts from this IP, please try again later.',
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Validation schemas
 const loginSchema = z.object({
   email: z.string().email('Invalid email format'),
@@ -28,32 +87,105 @@ const refreshSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required')
 });
 
-// Helper function to generate tokens
-const generateTokens = (userId: string, email: string, role: string) => {
-  const jwtSecret = process.env.JWT_SECRET;
-  const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET;
-  
-  if (!jwtSecret || !jwtRefreshSecret) {
-    throw new Error('JWT secrets not configured');
-  }
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, 'Verification token is required')
+});
 
-  const accessToken = jwt.sign(
-    { id: userId, email, role },
-    jwtSecret,
-    { expiresIn: process.env.JWT_EXPIRES_IN || '24h' } as jwt.SignOptions
-  );
+const resendVerificationSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  turnstileToken: z.string().min(1, 'Bot verification required')
+});
 
-  const refreshToken = jwt.sign(
-    { id: userId },
-    jwtRefreshSecret,
-    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' } as jwt.SignOptions
-  );
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  turnstileToken: z.string().min(1, 'Bot verification required')
+});
 
-  return { accessToken, refreshToken };
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+const claimAccountSchema = z.object({
+  token: z.string().min(1, 'Activation token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters')
+});
+
+const resendClaimSchema = z.object({
+  email: z.string().email('Invalid email format'),
+  turnstileToken: z.string().min(1, 'Bot verification required')
+});
+
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1, 'Login challenge is required'),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional()
+}).refine(data => !!data.code || !!data.recoveryCode, 'Authentication code or recovery code is required');
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, 'Authentication code is required')
+});
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().optional(),
+  recoveryCode: z.string().optional()
+}).refine(data => !!data.code || !!data.recoveryCode, 'Authentication code or recovery code is required');
+
+const siweVerifySchema = z.object({
+  message: z.string().min(1, 'Signed message is required'),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, 'Invalid signature')
+});
+
+type LoginUser = Prisma.UserGetPayload<{ include: { participant: true; promoter: true } }>;
+
+// Issue tokens and respond once every login step (password, 2FA) has passed
+const completeLogin = async (
+  req: Request,
+  res: Response,
+  user: LoginUser,
+  twoFactorMethod?: string,
+  loginMethod: LoginMethod = 'PASSWORD'
+) => {
+  await resetFailedLogins(user);
+
+  const { accessToken, refreshToken } = await createSession(user, getSessionContext(req));
+
+  // Create audit log
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'USER_LOGIN',
+      entityType: 'USER',
+      entityId: user.id,
+      newValues: { loginMethod, ...(twoFactorMethod && { twoFactorMethod }) },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'Login successful',
+    user: {
+      id: user.id,
+      email: user.email,
+      role: user.role,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      participant: user.participant,
+      promoter: user.promoter
+    },
+    tokens: {
+      accessToken,
+      refreshToken
+    },
+    // Admins without 2FA must enroll before privileged routes will accept them
+    twoFactorEnrollmentRequired: !user.twoFactorEnabled && await isTwoFactorRequiredForRole(user.role)
+  });
 };
 
 // POST /api/auth/login
-router.post('/login', validateTurnstile, async (req: Request, res: Response) => {
+router.post('/login', loginLimiter, validateTurnstile, async (req: Request, res: Response) => {
   try {
     const validatedData = loginSchema.parse(req.body);
     
@@ -67,45 +199,165 @@ router.post('/login', validateTurnstile, async (req: Request, res: Response) =>
     });
 
     if (!user) {
+      await recordUnknownAccountLogin(validatedData.email, getSessionContext(req));
       throw new AppError('Invalid email or password', 401);
     }
 
+    // Accounts created by registration forms have no password until claimed. Answer as for
+    // a wrong password so the response doesn't reveal the account's state.
+    if (!isAccountClaimed(user)) {
+      throw new AppError('Invalid email or password', 401);
+    }
+
+    // Locked accounts and accounts inside their retry delay are refused outright
+    assertLoginAllowed(user);
+
     // Verify password
-    const isPasswordValid = await bcrypt.compare(validatedData.password, user.password);
+    const isPasswordValid = await bcrypt.compare(validatedData.password, user.password!);
     if (!isPasswordValid) {
+      await recordFailedLogin(user, getSessionContext(req), 'INVALID_PASSWORD');
       throw new AppError('Invalid email or password', 401);
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user.id, user.email, user.role);
+    // Second step required: hand back a short-lived challenge instead of tokens
+    if (user.twoFactorEnabled) {
+      return res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: createLoginChallenge(user.id)
+      });
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/auth/login/2fa
+router.post('/login/2fa', loginLimiter, async (req: Request, res: Response) => {
+  try {
+    const validatedData = twoFactorLoginSchema.parse(req.body);
+
+    const { userId, loginMethod } = verifyLoginChallenge(validatedData.challengeToken);
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        participant: true,
+        promoter: true
+      }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new AppError('Login challenge is invalid or has expired. Please log in again.', 401);
+    }
+
+    assertLoginAllowed(user);
+
+    const method = await verifyTwoFactor(user, validatedData);
+
+    if (!method) {
+      await recordFailedLogin(user, getSessionContext(req), 'INVALID_TWO_FACTOR_CODE');
+      throw new AppError('Invalid authentication code', 401);
+    }
+
+    await completeLogin(req, res, user, method, loginMethod);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/auth/siwe/nonce
+router.get('/siwe/nonce', async (req: Request, res: Response) => {
+  const { nonce, expiresAt, domain } = await createSiweNonce();
+
+  res.json({
+    nonce,
+    domain,
+    expiresAt
+  });
+});
+
+// POST /api/auth/siwe/verify
+router.post('/siwe/verify', loginLimiter, async (req: Request, res: Response) => {
+  try {
+    const validatedData = siweVerifySchema.parse(req.body);
+
+    const address = await verifySiweSignature(validatedData.message, validatedData.signature);
+
+    const participant = await findParticipantByWallet(address);
+    if (!participant) {
+      throw new AppError('No account is linked to this wallet. Sign in with email and link it from your profile first.', 404);
+    }
+
+    assertLoginAllowed(participant.user);
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id: participant.userId },
+      include: {
+        participant: true,
+        promoter: true
+      }
+    });
+
+    // The wallet replaces the password step only; 2FA still applies
+    if (user.twoFactorEnabled) {
+      return res.json({
+        message: 'Two-factor authentication required',
+        twoFactorRequired: true,
+        challengeToken: createLoginChallenge(user.id, 'SIWE')
+      });
+    }
+
+    await completeLogin(req, res, user, undefined, 'SIWE');
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/auth/siwe/link
+router.post('/siwe/link', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = siweVerifySchema.parse(req.body);
+
+    const participant = await prisma.participant.findUnique({
+      where: { userId: req.user!.id }
+    });
+
+    if (!participant) {
+      throw new AppError('Participant profile not found', 404);
+    }
+
+    const address = await verifySiweSignature(validatedData.message, validatedData.signature);
+    const updatedParticipant = await linkVerifiedWallet(participant.id, address);
 
-    // Create audit log
     await prisma.auditLog.create({
       data: {
-        userId: user.id,
-        action: 'USER_LOGIN',
-        entityType: 'USER',
-        entityId: user.id,
+        userId: req.user!.id,
+        action: 'WALLET_VERIFIED',
+        entityType: 'PARTICIPANT',
+        entityId: participant.id,
+        oldValues: { walletAddress: participant.walletAddress },
+        newValues: { walletAddress: address, method: 'SIWE_LINK' },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
       }
     });
 
     res.json({
-      message: 'Login successful',
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        participant: user.participant,
-        promoter: user.promoter
-      },
-      tokens: {
-        accessToken,
-        refreshToken
-      }
+      message: 'Wallet linked successfully',
+      walletAddress: updatedParticipant.walletAddress,
+      walletVerifiedAt: updatedParticipant.walletVerifiedAt
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -144,7 +396,7 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
     });
 
     // Generate tokens
-    const { accessToken, refreshToken } = generateTokens(user.id, user.email, user.role);
+    const { accessToken, refreshToken } = await createSession(user, getSessionContext(req));
 
     // Create audit log
     await prisma.auditLog.create({
@@ -158,6 +410,13 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
       }
     });
 
+    // Send verification email (registration still succeeds if delivery fails)
+    try {
+      await issueEmailVerification(user);
+    } catch (emailError) {
+      console.error('Failed to send verification email:', emailError);
+    }
+
     res.status(201).json({
       message: 'Registration successful',
       user: {
@@ -165,7 +424,8 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
         email: user.email,
         role: user.role,
         firstName: user.firstName,
-        lastName: user.lastName
+        lastName: user.lastName,
+        emailVerified: user.emailVerified
       },
       tokens: {
         accessToken,
@@ -185,33 +445,269 @@ router.post('/refresh', async (req: Request, res: Response) => {
   try {
     const { refreshToken } = refreshSchema.parse(req.body);
 
-    if (!process.env.JWT_REFRESH_SECRET) {
-      throw new Error('JWT refresh secret not configured');
+    // Rotate: the presented token is consumed and a new pair is issued
+    const tokens = await rotateRefreshToken(refreshToken, getSessionContext(req));
+
+    res.json({
+      message: 'Tokens refreshed',
+      tokens
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// Shared handler for GET and POST /api/auth/verify-email
+const handleVerifyEmail = async (req: Request, res: Response, token: unknown) => {
+  try {
+    const validatedData = verifyEmailSchema.parse({ token });
+
+    const { user, alreadyVerified } = await confirmEmailVerification(validatedData.token);
+
+    if (!alreadyVerified) {
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'EMAIL_VERIFIED',
+          entityType: 'USER',
+          entityId: user.id,
+          newValues: { emailVerified: true },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
     }
 
-    // Verify refresh token
-    const decoded = jwt.verify(refreshToken, process.env.JWT_REFRESH_SECRET) as any;
-    
-    // Find user
+    res.json({
+      message: alreadyVerified ? 'Email already verified' : 'Email verified successfully',
+      emailVerified: true
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+};
+
+// GET /api/auth/verify-email?token=...
+router.get('/verify-email', async (req: Request, res: Response) => {
+  await handleVerifyEmail(req, res, req.query.token);
+});
+
+// POST /api/auth/verify-email
+router.post('/verify-email', async (req: Request, res: Response) => {
+  await handleVerifyEmail(req, res, req.body.token);
+});
+
+// POST /api/auth/resend-verification
+router.post('/resend-verification', validateTurnstile, async (req: Request, res: Response) => {
+  try {
+    const validatedData = resendVerificationSchema.parse(req.body);
+
     const user = await prisma.user.findUnique({
-      where: { id: decoded.id },
-      select: { id: true, email: true, role: true }
+      where: { email: validatedData.email }
     });
 
-    if (!user) {
-      throw new AppError('Invalid refresh token', 401);
+    // Respond identically whether or not the account exists
+    if (user && !user.emailVerified) {
+      await resendEmailVerification(user);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: user.id,
+          action: 'EMAIL_VERIFICATION_SENT',
+          entityType: 'USER',
+          entityId: user.id,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+    }
+
+    res.json({
+      message: 'If an unverified account exists for this email, a new verification link has been sent.'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// Send a reset link, or the activation link for accounts without a password yet
+const sendPasswordHelp = async (email: string, ipAddress?: string, userAgent?: string) => {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    include: { promoter: true }
+  });
+
+  if (!user) {
+    return;
+  }
+
+  if (!isAccountClaimed(user)) {
+    if (canClaimAccount(user)) {
+      await issueAccountClaim(user);
     }
+    return;
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'PASSWORD_RESET_REQUESTED',
+      entityType: 'USER',
+      entityId: user.id,
+      ipAddress,
+      userAgent
+    }
+  });
 
-    // Generate new tokens
-    const tokens = generateTokens(user.id, user.email, user.role);
+  await requestPasswordReset(user);
+};
+
+// POST /api/auth/forgot-password
+router.post('/forgot-password', validateTurnstile, async (req: Request, res: Response) => {
+  try {
+    const validatedData = forgotPasswordSchema.parse(req.body);
 
+    // Respond identically, and before any account lookup or email, so neither the body
+    // nor the response time reveals whether the account exists
     res.json({
-      message: 'Tokens refreshed',
-      tokens
+      message: 'If an account exists for this email, a password reset link has been sent.'
     });
+
+    sendPasswordHelp(validatedData.email, req.ip, req.get('User-Agent'))
+      .catch(error => console.error('Failed to send password reset email:', error));
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      throw new AppError('Invalid refresh token', 401);
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/auth/reset-password
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const validatedData = resetPasswordSchema.parse(req.body);
+
+    const user = await resetPassword(validatedData.token, validatedData.password);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'PASSWORD_RESET_COMPLETED',
+        entityType: 'USER',
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Password reset successful. Please log in with your new password.'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/auth/claim?token=...
+router.get('/claim', async (req: Request, res: Response) => {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+  if (!token) {
+    throw new AppError('Activation token is required', 400);
+  }
+
+  const user = await findUserByClaimToken(token);
+
+  res.json({
+    account: {
+      email: user.email,
+      firstName: user.firstName,
+      role: user.role
+    }
+  });
+});
+
+// POST /api/auth/claim
+router.post('/claim', async (req: Request, res: Response) => {
+  try {
+    const validatedData = claimAccountSchema.parse(req.body);
+
+    const user = await claimAccount(validatedData.token, validatedData.password);
+
+    // Claiming signs the user straight in
+    const { accessToken, refreshToken } = await createSession(user, getSessionContext(req));
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'ACCOUNT_CLAIMED',
+        entityType: 'USER',
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Account activated successfully',
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        firstName: user.firstName,
+        lastName: user.lastName
+      },
+      tokens: {
+        accessToken,
+        refreshToken
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/auth/claim/resend
+router.post('/claim/resend', validateTurnstile, async (req: Request, res: Response) => {
+  try {
+    const validatedData = resendClaimSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { email: validatedData.email },
+      include: { promoter: true }
+    });
+
+    if (user && canClaimAccount(user)) {
+      try {
+        await issueAccountClaim(user);
+      } catch (emailError) {
+        console.error('Failed to send account activation email:', emailError);
+      }
+    }
+
+    // Respond identically whether or not the account exists
+    res.json({
+      message: 'If an inactive account exists for this email, a new activation link has been sent.'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
     }
     throw error;
   }
@@ -220,6 +716,20 @@ router.post('/refresh', async (req: Request, res: Response) => {
 // POST /api/auth/logout
 router.post('/logout', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    // Logging out of an impersonation ends it without touching the user's sessions
+    if (req.user!.impersonationId) {
+      await endImpersonation(req.user!.impersonationId, req.user!.impersonatorId!, 'LOGOUT', getSessionContext(req));
+
+      return res.json({
+        message: 'Impersonation ended'
+      });
+    }
+
+    // Revoke the session this access token belongs to
+    if (req.user!.sessionId) {
+      await revokeSession(req.user!.sessionId, 'LOGOUT');
+    }
+
     // Create audit log
     await prisma.auditLog.create({
       data: {
@@ -240,6 +750,239 @@ router.post('/logout', authenticate, async (req: AuthenticatedRequest, res: Resp
   }
 });
 
+// GET /api/auth/sessions
+router.get('/sessions', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const sessions = await listActiveSessions(req.user!.id);
+
+  res.json({
+    sessions: sessions.map(session => ({
+      ...session,
+      current: session.id === req.user!.sessionId
+    }))
+  });
+});
+
+// DELETE /api/auth/sessions/:id
+router.delete('/sessions/:id', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const session = await prisma.session.findFirst({
+    where: { id: req.params.id, userId: req.user!.id }
+  });
+
+  if (!session) {
+    throw new AppError('Session not found', 404);
+  }
+
+  await revokeSession(session.id, 'USER_REVOKED');
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: 'SESSION_REVOKED',
+      entityType: 'SESSION',
+      entityId: session.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: 'Session revoked successfully'
+  });
+});
+
+// DELETE /api/auth/sessions?keepCurrent=true
+router.delete('/sessions', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const keepCurrent = req.query.keepCurrent === 'true' && !!req.user!.sessionId;
+
+  // Either sign out other devices only, or everywhere including this one
+  if (keepCurrent) {
+    await revokeOtherSessions(req.user!.id, req.user!.sessionId!, 'USER_REVOKED_OTHERS');
+  } else {
+    await revokeAllSessions(req.user!.id, 'USER_SIGNED_OUT_EVERYWHERE');
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId: req.user!.id,
+      action: keepCurrent ? 'SESSIONS_REVOKED_OTHERS' : 'SESSIONS_REVOKED_ALL',
+      entityType: 'USER',
+      entityId: req.user!.id,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    }
+  });
+
+  res.json({
+    message: keepCurrent ? 'Signed out of all other devices' : 'Signed out of all devices'
+  });
+});
+
+// GET /api/auth/2fa
+router.get('/2fa', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id },
+    select: { twoFactorEnabled: true, twoFactorEnabledAt: true, twoFactorRecoveryCodes: true, role: true }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  res.json({
+    twoFactor: {
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes.length,
+      required: await isTwoFactorRequiredForRole(user.role)
+    }
+  });
+});
+
+// POST /api/auth/2fa/setup
+router.post('/2fa/setup', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const user = await prisma.user.findUnique({
+    where: { id: req.user!.id }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const { secret, provisioningUri } = await beginTwoFactorSetup(user);
+
+  res.json({
+    message: 'Scan the QR code with your authenticator app, then confirm with a code',
+    secret,
+    provisioningUri
+  });
+});
+
+// POST /api/auth/2fa/confirm
+router.post('/2fa/confirm', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    const recoveryCodes = await confirmTwoFactorSetup(user, validatedData.code);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'TWO_FACTOR_ENABLED',
+        entityType: 'USER',
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      recoveryCodes
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/auth/2fa/recovery-codes
+router.post('/2fa/recovery-codes', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = twoFactorCodeSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    if (!await verifyTwoFactor(user, { code: validatedData.code })) {
+      throw new AppError('Invalid authentication code', 400);
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'TWO_FACTOR_RECOVERY_CODES_REGENERATED',
+        entityType: 'USER',
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Recovery codes regenerated. Previous codes no longer work.',
+      recoveryCodes
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/auth/2fa/disable
+router.post('/2fa/disable', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = disableTwoFactorSchema.parse(req.body);
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.id }
+    });
+
+    if (!user || !user.twoFactorEnabled) {
+      throw new AppError('Two-factor authentication is not enabled', 400);
+    }
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      throw new AppError('Two-factor authentication is mandatory for your account', 403);
+    }
+
+    const isPasswordValid = !!user.password && await bcrypt.compare(validatedData.password, user.password);
+    if (!isPasswordValid || !await verifyTwoFactor(user, validatedData)) {
+      throw new AppError('Invalid password or authentication code', 400);
+    }
+
+    await disableTwoFactor(user.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'TWO_FACTOR_DISABLED',
+        entityType: 'USER',
+        entityId: user.id,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
 // GET /api/auth/me
 router.get('/me', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -256,7 +999,13 @@ router.get('/me', authenticate, async (req: AuthenticatedRequest, res: Response)
     }
 
     res.json({
-      user
+      // Never expose credentials, one-time token hashes or 2FA secrets
+      user: toSafeUser(user),
+      // Staff permissions, so the admin UI can hide what the user can't use
+      permissions: await getUserPermissions(user.id, user.role),
+      impersonation: req.user!.impersonatorId
+        ? { id: req.user!.impersonationId, impersonatorId: req.user!.impersonatorId }
+        : null
     });
   } catch (error) {
     throw error;
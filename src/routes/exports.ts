@@ -0,0 +1,22 @@
+import { Router, Request, Response } from 'express';
+import { AppError } from '@/middleware/errorHandler';
+import { downloadDataExport } from '@/services/dataExportService';
+
+// Personal data export downloads. The signed, time-limited token in the link is
+// the credential, so the link works from an email without logging in.
+const router = Router();
+
+// GET /api/exports/:id/download?token=...
+router.get('/:id/download', async (req: Request, res: Response) => {
+  if (typeof req.query.token !== 'string' || !req.query.token) {
+    throw new AppError('Download token is required', 400);
+  }
+
+  const dataExport = await downloadDataExport(req.params.id, req.query.token);
+
+  res.setHeader('Content-Disposition', `attachment; filename="red-mugsy-data-export-${dataExport.id}.json"`);
+  res.setHeader('Cache-Control', 'no-store');
+  res.json(dataExport.data);
+});
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,143 @@
+import { Router, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import { z } from 'zod';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { authenticate, AuthenticatedRequest, denyImpersonation, requireTier } from '@/middleware/auth';
+import { getSessionContext } from '@/services/sessionService';
+import { getCurrentClue, getPlayableEnrollment, listBonusStages, submitAnswer } from '@/services/clueService';
+import { getEnrollmentTier } from '@/services/contentAccessService';
+import { getParticipantEnrollment } from '@/services/huntService';
+import { listAnnouncements } from '@/services/announcementService';
+import { getHintUsage, listClueHints, unlockHint } from '@/services/hintService';
+
+// Playing a hunt: the participant's current clue, bonus stages, hints, answering and announcements
+const router = Router();
+
+router.use(authenticate);
+
+// Stops answers being brute-forced; counted per account so a shared IP isn't penalized
+const answerLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 10,
+  keyGenerator: (req) => `answer:${(req as AuthenticatedRequest).user?.id}`,
+  message: { error: 'Too many answers, please wait a minute before trying again.' },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Validation schemas
+const answerSchema = z.object({
+  answer: z.string().trim().min(1, 'Answer is required').max(200),
+  clueId: z.string().optional(),
+  huntId: z.string().optional()
+});
+
+const getParticipant = async (userId: string) => {
+  const participant = await prisma.participant.findUnique({
+    where: { userId }
+  });
+
+  if (!participant) {
+    throw new AppError('Participant profile not found', 404);
+  }
+
+  return participant;
+};
+
+// GET /api/hunt/current-clue
+// `huntId` picks the hunt for participants in more than one; defaults to the latest they joined
+router.get('/current-clue', async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getParticipant(req.user!.id);
+  const huntId = typeof req.query.huntId === 'string' ? req.query.huntId : undefined;
+
+  const enrollment = await getPlayableEnrollment(participant, huntId);
+  const { hunt } = enrollment;
+  const current = await getCurrentClue(participant.id, hunt, getEnrollmentTier(enrollment));
+
+  res.json({
+    hunt: { id: hunt.id, name: hunt.name, slug: hunt.slug, endsAt: hunt.endsAt },
+    ...current,
+    hintUsage: await getHintUsage(participant.id, hunt.id)
+  });
+});
+
+// GET /api/hunt/bonus-stages
+// Stages above the participant's tier are listed without their text
+router.get('/bonus-stages', requireTier('BONUS_STAGE'), async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getParticipant(req.user!.id);
+  const huntId = typeof req.query.huntId === 'string' ? req.query.huntId : undefined;
+
+  const enrollment = await getPlayableEnrollment(participant, huntId);
+  const bonusStages = await listBonusStages(participant.id, enrollment.hunt, getEnrollmentTier(enrollment));
+
+  res.json({ bonusStages });
+});
+
+// GET /api/hunt/clues/:clueId/hints
+// Hint text is only included once unlocked; `balance` is the hint credits left for the hunt.
+// HINT access is checked against the clue's own hunt, not the participant's latest one.
+router.get('/clues/:clueId/hints', async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getParticipant(req.user!.id);
+
+  const hints = await listClueHints(participant, req.params.clueId);
+
+  res.json(hints);
+});
+
+// POST /api/hunt/hints/:hintId/unlock
+// Spends the hint's credit cost and adds its penalty to the participant's score
+router.post('/hints/:hintId/unlock', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getParticipant(req.user!.id);
+
+  const result = await unlockHint(participant, req.params.hintId, getSessionContext(req));
+
+  res.status(201).json({
+    message: 'Hint unlocked',
+    ...result
+  });
+});
+
+// GET /api/hunt/announcements
+// Available before the hunt starts and to registrations that aren't active yet
+router.get('/announcements', async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getParticipant(req.user!.id);
+  const huntId = typeof req.query.huntId === 'string' ? req.query.huntId : undefined;
+
+  const enrollment = await getParticipantEnrollment(participant.id, huntId);
+  const announcements = await listAnnouncements(enrollment.hunt, getEnrollmentTier(enrollment));
+
+  res.json({ announcements });
+});
+
+// POST /api/hunt/answer
+// `clueId` names a bonus stage, or confirms which clue in the main sequence is being answered
+router.post('/answer', denyImpersonation, answerLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = answerSchema.parse(req.body);
+
+    const participant = await getParticipant(req.user!.id);
+    const enrollment = await getPlayableEnrollment(participant, validatedData.huntId);
+
+    const result = await submitAnswer(
+      participant,
+      enrollment.hunt,
+      getEnrollmentTier(enrollment),
+      validatedData.answer,
+      validatedData.clueId,
+      getSessionContext(req)
+    );
+
+    res.json({
+      message: result.correct ? 'Correct!' : 'Not quite, try again',
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { authenticate, AuthenticatedRequest, denyImpersonation } from '@/middleware/auth';
+import { getSessionContext } from '@/services/sessionService';
+import { describeHunt, enrollInHunt, getPublishedHunt } from '@/services/huntService';
+import { getWaitlistPosition } from '@/services/waitlistService';
+
+// Published hunts, and signing up for another hunt with an existing account
+const router = Router();
+
+// Validation schemas
+const enrollSchema = z.object({
+  tier: z.enum(['FREE', 'PREMIUM', 'VIP'], { required_error: 'Tier selection is required' })
+});
+
+// GET /api/hunts
+router.get('/', async (req: Request, res: Response) => {
+  const hunts = await prisma.hunt.findMany({
+    where: {
+      isPublished: true,
+      endsAt: { gt: new Date() }
+    },
+    orderBy: { startsAt: 'asc' }
+  });
+
+  res.json({ hunts: hunts.map(describeHunt) });
+});
+
+// GET /api/hunts/:slug
+router.get('/:slug', async (req: Request, res: Response) => {
+  const hunt = await getPublishedHunt(req.params.slug);
+
+  res.json({ hunt: describeHunt(hunt) });
+});
+
+// POST /api/hunts/:slug/enroll
+// Paid tiers are activated by checkout with this hunt's `huntId`
+router.post('/:slug/enroll', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = enrollSchema.parse(req.body);
+
+    const participant = await prisma.participant.findUnique({
+      where: { userId: req.user!.id }
+    });
+
+    if (!participant) {
+      throw new AppError('Participant profile not found', 404);
+    }
+
+    const enrollment = await enrollInHunt(participant, req.params.slug, validatedData.tier, getSessionContext(req));
+
+    if (enrollment.status === 'WAITLISTED') {
+      return res.status(201).json({
+        message: 'The hunt is full. You have been added to the waitlist.',
+        enrollment,
+        waitlistPosition: await getWaitlistPosition(enrollment),
+        needsPayment: false
+      });
+    }
+
+    res.status(201).json({
+      message: 'Registered for the hunt',
+      enrollment,
+      needsPayment: enrollment.tier !== 'FREE'
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+export default router;
\ No newline at end of file
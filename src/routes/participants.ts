@@ -3,8 +3,26 @@ import { z } from 'zod';
 import { Prisma } from '@prisma/client';
 import prisma from '@/config/database';
 import { AppError } from '@/middleware/errorHandler';
-import { authenticate, AuthenticatedRequest } from '@/middleware/auth';
+import { authenticate, AuthenticatedRequest, denyImpersonation, optionalApiKey } from '@/middleware/auth';
 import { validateTurnstile } from '@/middleware/validateTurnstile';
+import { issueAccountClaim } from '@/services/accountClaimService';
+import { API_KEY_SCOPES } from '@/config/permissions';
+import { getRegistrationForm, getSiteSettings } from '@/services/configService';
+import { getFieldsForTier, parseRegistrationAnswers } from '@/services/registrationFormService';
+import {
+  getWaitlistPosition,
+  hasCapacity,
+  lockCapacity
+} from '@/services/waitlistService';
+import { describeDataExport, requestDataExport } from '@/services/dataExportService';
+import { cancelAccountDeletion, scheduleAccountDeletion } from '@/services/accountDeletionService';
+import { getSessionContext } from '@/services/sessionService';
+import { assessRegistrationRisk } from '@/services/riskService';
+import { getTeamDetails } from '@/services/teamService';
+import { createEnrollment, getParticipantEnrollment, resolveRegistrationHunt } from '@/services/huntService';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/services/notificationPreferenceService';
+import { findInviter, generateParticipantInviteCode, getInviteStats, grantInviteRewards } from '@/services/inviteService';
+import { issueTicket } from '@/services/ticketService';
 
 const router = Router();
 
@@ -16,13 +34,20 @@ const participantRegistrationSchema = z.object({
   phone: z.string().optional(),
   country: z.string().min(1, 'Country is required'),
   tier: z.enum(['FREE', 'PREMIUM', 'VIP'], { required_error: 'Tier selection is required' }),
+  hunt: z.string().optional(), // Hunt slug; defaults to the hunt currently taking registrations
   walletAddress: z.string().optional(),
   discordUsername: z.string().optional(),
   telegramUsername: z.string().optional(),
-  referralCode: z.string().optional(),
-  turnstileToken: z.string().min(1, 'Bot verification required'),
+  referralCode: z.string().optional(), // Promoter referral code
+  inviteCode: z.string().optional(), // Another participant's invite code
+  turnstileToken: z.string().optional(), // Checked by validateTurnstile; not sent by API key clients
   acceptTerms: z.boolean().refine(val => val === true, 'You must accept the terms and conditions'),
-  subscribeMailing: z.boolean().optional()
+  subscribeMailing: z.boolean().optional(),
+  customFields: z.record(z.unknown()).optional() // Answers to the admin-defined registration form
+});
+
+const registrationFormQuerySchema = z.object({
+  tier: z.enum(['FREE', 'PREMIUM', 'VIP']).optional()
 });
 
 const updateProfileSchema = z.object({
@@ -35,10 +60,47 @@ const updateProfileSchema = z.object({
   telegramUsername: z.string().optional()
 });
 
-// POST /api/participants/register
-router.post('/register', validateTurnstile, async (req: Request, res: Response) => {
+const updateNotificationPreferencesSchema = z.object({
+  marketing: z.boolean().optional(),
+  huntAnnouncements: z.boolean().optional(),
+  paymentReceipts: z.boolean().optional(),
+  promoterDigests: z.boolean().optional()
+});
+
+// GET /api/participants/registration-form?tier=VIP
+// Custom questions for the frontend to render; only the tier's fields when a tier is given
+router.get('/registration-form', async (req: Request, res: Response) => {
+  try {
+    const { tier } = registrationFormQuerySchema.parse(req.query);
+    const form = await getRegistrationForm();
+
+    res.json({
+      form: {
+        version: form.version,
+        fields: getFieldsForTier(form, tier)
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/participants/register (browser with Turnstile, or partner with an API key)
+router.post('/register', optionalApiKey(API_KEY_SCOPES.PARTICIPANTS_REGISTER), validateTurnstile, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validatedData = participantRegistrationSchema.parse(req.body);
+
+    const [settings, registrationForm] = await Promise.all([getSiteSettings(), getRegistrationForm()]);
+    if (!settings.registrationOpen) {
+      throw new AppError('Registration is currently closed', 403);
+    }
+
+    const hunt = await resolveRegistrationHunt(validatedData.hunt);
+
+    const customFields = parseRegistrationAnswers(registrationForm, validatedData.tier, validatedData.customFields);
     
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({
@@ -64,13 +126,28 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
       }
     }
 
+    // Attribute the registration to the participant who invited them
+    const inviter = validatedData.inviteCode ? await findInviter(validatedData.inviteCode) : null;
+
+    // Risky registrations wait for admin review instead of being auto-approved
+    const risk = await assessRegistrationRisk({
+      email: validatedData.email,
+      ipAddress: req.ip,
+      walletAddress: validatedData.walletAddress,
+      turnstileToken: validatedData.turnstileToken,
+      skipIpCheck: !!req.apiKey
+    });
+
     // Create user and participant in a transaction
     const result = await prisma.$transaction(async (tx) => {
+      // Registrations beyond overall, per-tier or hunt capacity join the waitlist
+      await lockCapacity(tx);
+      const isWaitlisted = !await hasCapacity(validatedData.tier, hunt, tx);
+
       // Create user account
       const user = await tx.user.create({
         data: {
           email: validatedData.email,
-          password: 'TEMP_PASSWORD', // Will be set after payment confirmation
           firstName: validatedData.firstName,
           lastName: validatedData.lastName,
           phone: validatedData.phone,
@@ -84,20 +161,39 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
         data: {
           userId: user.id,
           tier: validatedData.tier,
-          status: validatedData.tier === 'FREE' ? 'APPROVED' : 'PENDING', // Free tier auto-approved
+          status: isWaitlisted
+            ? 'WAITLISTED'
+            : validatedData.tier === 'FREE' && !risk.requiresReview ? 'APPROVED' : 'PENDING', // Free tier auto-approved
+          waitlistedAt: isWaitlisted ? new Date() : null,
           walletAddress: validatedData.walletAddress,
           discordUsername: validatedData.discordUsername,
           telegramUsername: validatedData.telegramUsername,
-          referralCode: validatedData.referralCode,
           referredBy: validatedData.referralCode,
+          inviteCode: await generateParticipantInviteCode(tx),
+          invitedById: inviter?.id,
           registrationData: {
             acceptTerms: validatedData.acceptTerms,
             subscribeMailing: validatedData.subscribeMailing,
-            registeredAt: new Date().toISOString()
-          },
+            registeredAt: new Date().toISOString(),
+            formVersion: registrationForm.version,
+            customFields
+          } as Prisma.InputJsonObject,
           turnstileToken: validatedData.turnstileToken,
           ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
+          userAgent: req.get('User-Agent'),
+          riskScore: risk.score,
+          riskFlags: risk.flags,
+          flaggedForReview: risk.requiresReview
+        }
+      });
+
+      const enrollment = await createEnrollment(tx, hunt, participant.id, participant.tier, participant.status);
+
+      // Marketing email is opt-in via the registration checkbox
+      await tx.notificationPreference.create({
+        data: {
+          userId: user.id,
+          marketing: validatedData.subscribeMailing === true
         }
       });
 
@@ -114,6 +210,7 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
         await tx.referral.create({
           data: {
             promoterId: referredByPromoter.id,
+            huntId: hunt.id,
             participantEmail: validatedData.email,
             referralCode: validatedData.referralCode!,
             tier: validatedData.tier,
@@ -123,26 +220,63 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
         });
       }
 
+      if (inviter) {
+        await grantInviteRewards(tx, participant, 'REGISTRATION');
+      }
+
       // Create audit log
       await tx.auditLog.create({
         data: {
           userId: user.id,
+          apiKeyId: req.apiKey?.id,
           action: 'PARTICIPANT_REGISTER',
           entityType: 'PARTICIPANT',
           entityId: participant.id,
           newValues: {
+            huntId: hunt.id,
             tier: validatedData.tier,
             email: validatedData.email,
-            referralCode: validatedData.referralCode
+            referralCode: validatedData.referralCode,
+            invitedById: inviter?.id,
+            waitlisted: isWaitlisted,
+            riskScore: risk.score,
+            riskFlags: risk.flags
           },
           ipAddress: req.ip,
           userAgent: req.get('User-Agent')
         }
       });
 
-      return { user, participant };
+      return { user, participant, enrollment };
     });
 
+    // Send the set-password link; claiming it also verifies the email
+    try {
+      await issueAccountClaim(result.user);
+    } catch (emailError) {
+      console.error('Failed to send account activation email:', emailError);
+    }
+
+    const waitlistPosition = await getWaitlistPosition(result.enrollment);
+
+    if (waitlistPosition !== null) {
+      return res.status(201).json({
+        message: 'Registration is at capacity. You have been added to the waitlist.',
+        participant: {
+          id: result.participant.id,
+          email: result.user.email,
+          firstName: result.user.firstName,
+          lastName: result.user.lastName,
+          tier: result.participant.tier,
+          status: result.participant.status,
+          hunt: { id: hunt.id, name: hunt.name, slug: hunt.slug },
+          waitlistPosition,
+          needsPayment: false
+        },
+        nextSteps: ['Check your email to set your password', 'We will email you as soon as a spot opens up']
+      });
+    }
+
     res.status(201).json({
       message: 'Registration successful',
       participant: {
@@ -152,11 +286,14 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
         lastName: result.user.lastName,
         tier: result.participant.tier,
         status: result.participant.status,
+        hunt: { id: hunt.id, name: hunt.name, slug: hunt.slug },
         needsPayment: result.participant.tier !== 'FREE'
       },
-      nextSteps: result.participant.tier === 'FREE' 
-        ? ['Complete your profile', 'Join our Discord community']
-        : ['Complete payment to activate your account', 'Check your email for payment instructions']
+      nextSteps: result.participant.tier !== 'FREE'
+        ? ['Check your email to set your password', 'Complete payment to activate your account']
+        : result.participant.flaggedForReview
+          ? ['Check your email to set your password', 'Your registration is being reviewed by our team']
+          : ['Check your email to set your password', 'Complete your profile', 'Join our Discord community']
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -181,12 +318,21 @@ router.get('/profile', authenticate, async (req: AuthenticatedRequest, res: Resp
             phone: true,
             country: true,
             emailVerified: true,
+            deletionScheduledFor: true,
             createdAt: true
           }
         },
         payments: {
           orderBy: { createdAt: 'desc' },
           take: 10
+        },
+        enrollments: {
+          include: {
+            hunt: {
+              select: { id: true, name: true, slug: true, startsAt: true, endsAt: true }
+            }
+          },
+          orderBy: { createdAt: 'desc' }
         }
       }
     });
@@ -199,6 +345,8 @@ router.get('/profile', authenticate, async (req: AuthenticatedRequest, res: Resp
       participant: {
         ...participant,
         registrationData: participant.registrationData,
+        waitlistPosition: await getWaitlistPosition(participant.enrollments[0]), // Latest hunt
+        team: participant.teamId ? await getTeamDetails(participant.teamId, participant) : null,
         totalPaid: await prisma.payment.aggregate({
           where: { 
             participantId: participant.id,
@@ -214,7 +362,7 @@ router.get('/profile', authenticate, async (req: AuthenticatedRequest, res: Resp
 });
 
 // PUT /api/participants/profile
-router.put('/profile', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+router.put('/profile', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validatedData = updateProfileSchema.parse(req.body);
     
@@ -230,11 +378,20 @@ router.put('/profile', authenticate, async (req: AuthenticatedRequest, res: Resp
         }
       });
 
+      const existingParticipant = await tx.participant.findUniqueOrThrow({
+        where: { userId: req.user!.id }
+      });
+
+      // A different wallet has to be proven again via Sign-In with Ethereum
+      const walletChanged = validatedData.walletAddress !== undefined
+        && validatedData.walletAddress.toLowerCase() !== existingParticipant.walletAddress?.toLowerCase();
+
       // Update participant info
       const participant = await tx.participant.update({
         where: { userId: req.user!.id },
         data: {
           walletAddress: validatedData.walletAddress,
+          ...(walletChanged && { walletVerifiedAt: null }),
           discordUsername: validatedData.discordUsername,
           telegramUsername: validatedData.telegramUsername
         },
@@ -269,11 +426,60 @@ router.put('/profile', authenticate, async (req: AuthenticatedRequest, res: Resp
   }
 });
 
+// GET /api/participants/notification-preferences
+router.get('/notification-preferences', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const preferences = await getNotificationPreferences(req.user!.id);
+
+  res.json({ preferences });
+});
+
+// PUT /api/participants/notification-preferences
+// Account, security and registration emails are always sent and can't be turned off
+router.put('/notification-preferences', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = updateNotificationPreferencesSchema.parse(req.body);
+
+    const preferences = await prisma.$transaction(async (tx) => {
+      const updated = await updateNotificationPreferences(req.user!.id, validatedData, tx);
+
+      await tx.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: 'NOTIFICATION_PREFERENCES_UPDATE',
+          entityType: 'USER',
+          entityId: req.user!.id,
+          newValues: validatedData,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        }
+      });
+
+      return updated;
+    });
+
+    res.json({
+      message: 'Notification preferences updated successfully',
+      preferences
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
 // GET /api/participants/stats
 router.get('/stats', authenticate, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const participant = await prisma.participant.findUnique({
-      where: { userId: req.user!.id }
+      where: { userId: req.user!.id },
+      include: {
+        enrollments: {
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
     });
 
     if (!participant) {
@@ -284,6 +490,7 @@ router.get('/stats', authenticate, async (req: AuthenticatedRequest, res: Respon
     const stats = {
       tier: participant.tier,
       status: participant.status,
+      waitlistPosition: await getWaitlistPosition(participant.enrollments[0]),
       joinDate: participant.createdAt,
       totalPayments: await prisma.payment.count({
         where: { 
@@ -297,7 +504,8 @@ router.get('/stats', authenticate, async (req: AuthenticatedRequest, res: Respon
           status: 'COMPLETED'
         },
         _sum: { amount: true }
-      })
+      }),
+      invites: await getInviteStats(participant)
     };
 
     res.json({ stats });
@@ -306,34 +514,81 @@ router.get('/stats', authenticate, async (req: AuthenticatedRequest, res: Respon
   }
 });
 
-// DELETE /api/participants/account
-router.delete('/account', authenticate, async (req: AuthenticatedRequest, res: Response) => {
-  try {
-    await prisma.$transaction(async (tx) => {
-      // Create audit log before deletion
-      await tx.auditLog.create({
-        data: {
-          userId: req.user!.id,
-          action: 'PARTICIPANT_ACCOUNT_DELETE',
-          entityType: 'PARTICIPANT',
-          entityId: req.user!.id,
-          ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
-        }
-      });
+// GET /api/participants/ticket?huntId=...&format=png
+// Signed event ticket for check-in at in-person hunt kickoffs; defaults to the latest hunt
+router.get('/ticket', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await prisma.participant.findUnique({
+    where: { userId: req.user!.id }
+  });
 
-      // Delete user (cascades to participant and other related records)
-      await tx.user.delete({
-        where: { id: req.user!.id }
-      });
-    });
+  if (!participant) {
+    throw new AppError('Participant profile not found', 404);
+  }
 
-    res.json({
-      message: 'Account deleted successfully'
-    });
-  } catch (error) {
-    throw error;
+  const enrollment = await getParticipantEnrollment(participant.id, req.query.huntId as string | undefined);
+  const { ticket, qrCode } = await issueTicket(enrollment);
+
+  if (req.query.format === 'png') {
+    res.setHeader('Content-Type', 'image/png');
+    res.setHeader('Content-Disposition', 'attachment; filename="red-mugsy-ticket.png"');
+    return res.send(qrCode);
   }
+
+  res.json({
+    ticket: {
+      participantId: participant.id,
+      huntId: enrollment.huntId,
+      tier: enrollment.tier,
+      payload: ticket,
+      qrCode: `data:image/png;base64,${qrCode.toString('base64')}`
+    }
+  });
+});
+
+// GET /api/participants/export
+router.get('/export', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const dataExport = await requestDataExport(req.user!.id, req.user!.id);
+
+  // Large accounts are exported in the background and emailed when ready
+  res.status(dataExport.status === 'PENDING' ? 202 : 200).json({
+    message: dataExport.status === 'PENDING'
+      ? 'Your export is being prepared. We will email you a download link when it is ready.'
+      : 'Your export is ready',
+    export: describeDataExport(dataExport)
+  });
+});
+
+// GET /api/participants/export/:id
+router.get('/export/:id', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const dataExport = await prisma.dataExport.findFirst({
+    where: { id: req.params.id, userId: req.user!.id }
+  });
+
+  if (!dataExport) {
+    throw new AppError('Export not found', 404);
+  }
+
+  res.json({ export: describeDataExport(dataExport) });
+});
+
+// DELETE /api/participants/account
+// Schedules deletion; personal data is anonymized once the grace period ends
+router.delete('/account', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const user = await scheduleAccountDeletion(req.user!.id, getSessionContext(req));
+
+  res.status(202).json({
+    message: 'Account scheduled for deletion. You can cancel until the date below.',
+    deletionScheduledFor: user.deletionScheduledFor
+  });
+});
+
+// POST /api/participants/account/cancel-deletion
+router.post('/account/cancel-deletion', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  await cancelAccountDeletion(req.user!.id, getSessionContext(req));
+
+  res.json({
+    message: 'Account deletion cancelled'
+  });
 });
 
 export default router;
\ No newline at end of file
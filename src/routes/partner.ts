@@ -0,0 +1,34 @@
+import { Router, Response } from 'express';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { authenticateApiKey, AuthenticatedRequest } from '@/middleware/auth';
+import { API_KEY_SCOPES } from '@/config/permissions';
+import { getPromoterStats } from '@/services/promoterStatsService';
+
+// Server-to-server routes for partner sites and internal tools (X-API-Key header).
+// Participant registration is POST /api/participants/register with a key instead of Turnstile.
+const router = Router();
+
+// GET /api/partner/me
+router.get('/me', authenticateApiKey(), async (req: AuthenticatedRequest, res: Response) => {
+  res.json({
+    apiKey: req.apiKey
+  });
+});
+
+// GET /api/partner/referrals/:referralCode/stats
+router.get('/referrals/:referralCode/stats', authenticateApiKey(API_KEY_SCOPES.REFERRALS_READ), async (req: AuthenticatedRequest, res: Response) => {
+  const promoter = await prisma.promoter.findUnique({
+    where: { referralCode: req.params.referralCode }
+  });
+
+  if (!promoter) {
+    throw new AppError('Referral code not found', 404);
+  }
+
+  const stats = await getPromoterStats(promoter);
+
+  res.json({ stats });
+});
+
+export default router;
\ No newline at end of file
@@ -3,7 +3,13 @@ import { z } from 'zod';
 import Stripe from 'stripe';
 import prisma from '@/config/database';
 import { AppError } from '@/middleware/errorHandler';
-import { authenticate, AuthenticatedRequest } from '@/middleware/auth';
+import { authenticate, AuthenticatedRequest, denyImpersonation } from '@/middleware/auth';
+import { isEmailVerificationRequired } from '@/services/emailVerificationService';
+import { getParticipantEnrollment } from '@/services/huntService';
+import { getHintSettings } from '@/services/configService';
+import { getApplicableTierDiscount } from '@/services/inviteService';
+import { quoteTierUpgrade } from '@/services/tierUpgradeService';
+import { assertTierCapacity } from '@/services/waitlistService';
 
 const router = Router();
 
@@ -16,18 +22,25 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 const createPaymentSessionSchema = z.object({
   tier: z.enum(['PREMIUM', 'VIP']),
   participantId: z.string().cuid(),
+  huntId: z.string().cuid().optional(), // Defaults to the participant's latest hunt
   successUrl: z.string().url(),
   cancelUrl: z.string().url()
 });
 
-// Tier pricing
-const TIER_PRICES = {
-  PREMIUM: 99,
-  VIP: 299
-} as const;
+const createHintPackSessionSchema = z.object({
+  packId: z.string().min(1, 'Hint pack is required'),
+  huntId: z.string().cuid().optional(), // Defaults to the participant's latest hunt
+  successUrl: z.string().url(),
+  cancelUrl: z.string().url()
+});
+
+const upgradeQuoteSchema = z.object({
+  tier: z.enum(['PREMIUM', 'VIP']),
+  huntId: z.string().cuid().optional()
+});
 
 // POST /api/payments/create-session
-router.post('/create-session', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+router.post('/create-session', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validatedData = createPaymentSessionSchema.parse(req.body);
     
@@ -46,20 +59,32 @@ router.post('/create-session', authenticate, async (req: AuthenticatedRequest, r
       throw new AppError('Unauthorized access to participant record', 403);
     }
 
-    // Check if participant already paid for this tier
-    const existingPayment = await prisma.payment.findFirst({
-      where: {
-        participantId: participant.id,
-        tier: validatedData.tier,
-        status: 'COMPLETED'
-      }
-    });
+    // Waitlisted participants pay once a place opens up
+    if (participant.status === 'WAITLISTED') {
+      throw new AppError('You are on the waitlist. We will email you when a spot opens up.', 409);
+    }
 
-    if (existingPayment) {
-      throw new AppError('Payment already completed for this tier', 400);
+    // Admins can require a verified email before checkout
+    if (await isEmailVerificationRequired(participant.user)) {
+      throw new AppError('Please verify your email address before completing payment', 403);
     }
 
-    const amount = TIER_PRICES[validatedData.tier];
+    const enrollment = await getParticipantEnrollment(participant.id, validatedData.huntId);
+    const hunt = enrollment.hunt;
+
+    if (enrollment.status === 'WAITLISTED') {
+      throw new AppError(`You are on the waitlist for ${hunt.name}. We will email you when a spot opens up.`, 409);
+    }
+
+    // Charge only the difference from what was already paid for this hunt; refuses downgrades
+    const quote = await quoteTierUpgrade(participant, validatedData.tier, hunt);
+
+    // The webhook checks again before applying the tier, as places can fill during checkout
+    await assertTierCapacity(participant, validatedData.tier);
+
+    // Tier discounts earned by inviting friends; only redeemed once the payment completes
+    const inviteDiscount = await getApplicableTierDiscount(participant.id, quote.amountDue);
+    const amount = quote.amountDue - inviteDiscount.amount;
     
     // Create Stripe checkout session
     const session = await stripe.checkout.sessions.create({
@@ -69,11 +94,15 @@ router.post('/create-session', authenticate, async (req: AuthenticatedRequest, r
           price_data: {
             currency: 'usd',
             product_data: {
-              name: `Red Mugsy Treasure Hunt - ${validatedData.tier} Tier`,
-              description: `Registration for ${validatedData.tier.toLowerCase()} tier access`,
+              name: quote.isUpgrade
+                ? `${hunt.name} - Upgrade from ${quote.paidTier} to ${validatedData.tier}`
+                : `${hunt.name} - ${validatedData.tier} Tier`,
+              description: quote.isUpgrade
+                ? `Price difference for ${validatedData.tier.toLowerCase()} tier access`
+                : `Registration for ${validatedData.tier.toLowerCase()} tier access`,
               images: ['https://your-domain.com/treasure-hunt-logo.png']
             },
-            unit_amount: amount * 100, // Convert to cents
+            unit_amount: Math.round(amount * 100), // Convert to cents
           },
           quantity: 1,
         },
@@ -86,7 +115,10 @@ router.post('/create-session', authenticate, async (req: AuthenticatedRequest, r
         participantId: participant.id,
         userId: participant.userId,
         tier: validatedData.tier,
-        referralCode: participant.referredBy || ''
+        huntId: hunt.id,
+        upgradedFromTier: quote.isUpgrade ? quote.paidTier : '',
+        referralCode: participant.referredBy || '',
+        inviteRewardIds: inviteDiscount.rewards.map(reward => reward.id).join(',')
       },
       automatic_tax: { enabled: true }
     });
@@ -96,13 +128,16 @@ router.post('/create-session', authenticate, async (req: AuthenticatedRequest, r
       data: {
         userId: participant.userId,
         participantId: participant.id,
-        stripePaymentIntentId: 'pending', // Will be updated by webhook
+        huntId: hunt.id,
+        stripePaymentIntentId: `pending_${session.id}`, // Will be updated by webhook; unique per session
         stripeSessionId: session.id,
         amount: amount,
         currency: 'usd',
         tier: validatedData.tier,
+        upgradedFromTier: quote.isUpgrade ? quote.paidTier : null,
         status: 'PENDING',
-        referralCode: participant.referredBy
+        referralCode: participant.referredBy,
+        inviteDiscount: inviteDiscount.amount > 0 ? inviteDiscount.amount : null
       }
     });
 
@@ -114,8 +149,11 @@ router.post('/create-session', authenticate, async (req: AuthenticatedRequest, r
         entityType: 'PAYMENT',
         entityId: payment.id,
         newValues: {
+          huntId: hunt.id,
           tier: validatedData.tier,
           amount,
+          inviteDiscount: inviteDiscount.amount,
+          upgradedFromTier: quote.isUpgrade ? quote.paidTier : null,
           sessionId: session.id
         },
         ipAddress: req.ip,
@@ -129,7 +167,168 @@ router.post('/create-session', authenticate, async (req: AuthenticatedRequest, r
       sessionUrl: session.url,
       paymentId: payment.id,
       amount,
-      tier: validatedData.tier
+      inviteDiscount: inviteDiscount.amount,
+      huntId: hunt.id,
+      tier: validatedData.tier,
+      upgradedFromTier: quote.isUpgrade ? quote.paidTier : null
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/payments/hint-packs
+router.get('/hint-packs', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  const { hintPacks } = await getHintSettings();
+
+  res.json({ hintPacks });
+});
+
+// POST /api/payments/hint-pack
+// Credits are added for the hunt once the payment completes; the tier is unchanged
+router.post('/hint-pack', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = createHintPackSessionSchema.parse(req.body);
+
+    const participant = await prisma.participant.findUnique({
+      where: { userId: req.user!.id },
+      include: { user: true }
+    });
+
+    if (!participant) {
+      throw new AppError('Participant not found', 404);
+    }
+
+    const { hintPacks } = await getHintSettings();
+    const pack = hintPacks.find(hintPack => hintPack.id === validatedData.packId);
+
+    if (!pack) {
+      throw new AppError('Hint pack not found', 404);
+    }
+
+    const enrollment = await getParticipantEnrollment(participant.id, validatedData.huntId);
+    const hunt = enrollment.hunt;
+
+    if (enrollment.status === 'WAITLISTED') {
+      throw new AppError(`You are on the waitlist for ${hunt.name}. We will email you when a spot opens up.`, 409);
+    }
+
+    // Hints are only usable by participants who can play
+    if (enrollment.status !== 'ACTIVE') {
+      throw new AppError(`Your registration for ${hunt.name} must be active to buy hints`, 403);
+    }
+
+    if (new Date() >= hunt.endsAt) {
+      throw new AppError(`${hunt.name} has ended`, 403);
+    }
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      line_items: [
+        {
+          price_data: {
+            currency: 'usd',
+            product_data: {
+              name: `${hunt.name} - ${pack.name}`,
+              description: `${pack.credits} hint credits for ${hunt.name}`
+            },
+            unit_amount: Math.round(pack.price * 100), // Convert to cents
+          },
+          quantity: 1,
+        },
+      ],
+      mode: 'payment',
+      success_url: validatedData.successUrl,
+      cancel_url: validatedData.cancelUrl,
+      customer_email: participant.user.email,
+      metadata: {
+        participantId: participant.id,
+        userId: participant.userId,
+        huntId: hunt.id,
+        hintPackId: pack.id,
+        hintCredits: String(pack.credits)
+      },
+      automatic_tax: { enabled: true }
+    });
+
+    const payment = await prisma.payment.create({
+      data: {
+        userId: participant.userId,
+        participantId: participant.id,
+        huntId: hunt.id,
+        stripePaymentIntentId: `pending_${session.id}`, // Will be updated by webhook; unique per session
+        stripeSessionId: session.id,
+        amount: pack.price,
+        currency: 'usd',
+        tier: enrollment.tier, // The tier held when buying; hint packs don't change it
+        status: 'PENDING',
+        hintCredits: pack.credits
+      }
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'HINT_PACK_SESSION_CREATED',
+        entityType: 'PAYMENT',
+        entityId: payment.id,
+        newValues: {
+          huntId: hunt.id,
+          packId: pack.id,
+          credits: pack.credits,
+          amount: pack.price,
+          sessionId: session.id
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent')
+      }
+    });
+
+    res.json({
+      message: 'Payment session created successfully',
+      sessionId: session.id,
+      sessionUrl: session.url,
+      paymentId: payment.id,
+      amount: pack.price,
+      huntId: hunt.id,
+      hintCredits: pack.credits
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/payments/upgrade-quote?tier=VIP&huntId=...
+router.get('/upgrade-quote', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = upgradeQuoteSchema.parse(req.query);
+
+    const participant = await prisma.participant.findUnique({
+      where: { userId: req.user!.id }
+    });
+
+    if (!participant) {
+      throw new AppError('Participant not found', 404);
+    }
+
+    const enrollment = await getParticipantEnrollment(participant.id, validatedData.huntId);
+    const quote = await quoteTierUpgrade(participant, validatedData.tier, enrollment.hunt);
+    await assertTierCapacity(participant, validatedData.tier);
+    const inviteDiscount = await getApplicableTierDiscount(participant.id, quote.amountDue);
+
+    res.json({
+      quote: {
+        ...quote,
+        huntId: enrollment.huntId,
+        inviteDiscount: inviteDiscount.amount,
+        amountDue: quote.amountDue - inviteDiscount.amount
+      }
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -3,8 +3,11 @@ import { z } from 'zod';
 import { Prisma } from '@prisma/client';
 import prisma from '@/config/database';
 import { AppError } from '@/middleware/errorHandler';
-import { authenticate, AuthenticatedRequest } from '@/middleware/auth';
+import { authenticate, AuthenticatedRequest, denyImpersonation } from '@/middleware/auth';
 import { validateTurnstile } from '@/middleware/validateTurnstile';
+import { getPromoterStats } from '@/services/promoterStatsService';
+import { getSiteSettings } from '@/services/configService';
+import { assessRegistrationRisk } from '@/services/riskService';
 
 const router = Router();
 
@@ -78,6 +81,11 @@ const updatePromoterSchema = z.object({
 router.post('/register', validateTurnstile, async (req: Request, res: Response) => {
   try {
     const validatedData = promoterRegistrationSchema.parse(req.body);
+
+    const settings = await getSiteSettings();
+    if (!settings.promoterApplicationsOpen) {
+      throw new AppError('Promoter applications are currently closed', 403);
+    }
     
     // Check if email already exists
     const existingUser = await prisma.user.findUnique({
@@ -88,6 +96,13 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
       throw new AppError('Email already registered. Please login instead.', 409);
     }
 
+    // Flagged applications are highlighted in the admin review queue
+    const risk = await assessRegistrationRisk({
+      email: validatedData.email,
+      ipAddress: req.ip,
+      turnstileToken: validatedData.turnstileToken
+    });
+
     // Generate unique referral code
     const referralCode = await generateReferralCode();
 
@@ -97,7 +112,6 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
       const user = await tx.user.create({
         data: {
           email: validatedData.email,
-          password: 'TEMP_PASSWORD', // Will be set after approval
           firstName: validatedData.firstName,
           lastName: validatedData.lastName,
           phone: validatedData.phone,
@@ -128,7 +142,10 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
           },
           turnstileToken: validatedData.turnstileToken,
           ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
+          userAgent: req.get('User-Agent'),
+          riskScore: risk.score,
+          riskFlags: risk.flags,
+          flaggedForReview: risk.requiresReview
         }
       });
 
@@ -142,7 +159,9 @@ router.post('/register', validateTurnstile, async (req: Request, res: Response)
             type: validatedData.type,
             email: validatedData.email,
             referralCode,
-            status: 'PENDING'
+            status: 'PENDING',
+            riskScore: risk.score,
+            riskFlags: risk.flags
           },
           ipAddress: req.ip,
           userAgent: req.get('User-Agent')
@@ -239,7 +258,7 @@ router.get('/profile', authenticate, async (req: AuthenticatedRequest, res: Resp
 });
 
 // PUT /api/promoters/profile
-router.put('/profile', authenticate, async (req: AuthenticatedRequest, res: Response) => {
+router.put('/profile', authenticate, denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const validatedData = updatePromoterSchema.parse(req.body);
     
@@ -308,50 +327,7 @@ router.get('/stats', authenticate, async (req: AuthenticatedRequest, res: Respon
       throw new AppError('Promoter not found', 404);
     }
 
-    // Get detailed stats
-    const stats = {
-      status: promoter.status,
-      referralCode: promoter.referralCode,
-      totalReferrals: promoter.totalReferrals,
-      totalRevenue: promoter.totalRevenue,
-      commissionRate: promoter.commissionRate,
-      joinDate: promoter.createdAt,
-      approvedDate: promoter.approvedAt,
-      
-      // Recent performance
-      conversions: await prisma.referral.count({
-        where: { 
-          promoterId: promoter.id,
-          isConverted: true
-        }
-      }),
-      
-      pendingReferrals: await prisma.referral.count({
-        where: { 
-          promoterId: promoter.id,
-          isConverted: false
-        }
-      }),
-      
-      thisMonthReferrals: await prisma.referral.count({
-        where: {
-          promoterId: promoter.id,
-          createdAt: {
-            gte: new Date(new Date().getFullYear(), new Date().getMonth(), 1)
-          }
-        }
-      }),
-      
-      tierBreakdown: await prisma.referral.groupBy({
-        by: ['tier'],
-        where: {
-          promoterId: promoter.id,
-          isConverted: true
-        },
-        _count: true,
-        _sum: { commission: true }
-      })
-    };
+    const stats = await getPromoterStats(promoter);
 
     res.json({ stats });
   } catch (error) {
@@ -0,0 +1,187 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { authenticate, AuthenticatedRequest, denyImpersonation } from '@/middleware/auth';
+import { getSessionContext } from '@/services/sessionService';
+import {
+  createTeam,
+  getTeamDetails,
+  joinTeam,
+  leaveTeam,
+  previewTeamInvite,
+  removeTeamMember,
+  rotateInviteCode,
+  transferCaptaincy,
+  updateTeam
+} from '@/services/teamService';
+
+// Team play. Every route acts for the signed-in participant; captains manage their own team.
+const router = Router();
+
+router.use(authenticate);
+
+// Validation schemas
+const teamNameSchema = z.object({
+  name: z.string()
+    .trim()
+    .min(2, 'Team name must be at least 2 characters')
+    .max(50, 'Team name must be at most 50 characters')
+});
+
+const joinTeamSchema = z.object({
+  inviteCode: z.string().min(1, 'Invite code is required')
+});
+
+const transferCaptaincySchema = z.object({
+  participantId: z.string().cuid()
+});
+
+const getCurrentParticipant = async (req: AuthenticatedRequest) => {
+  const participant = await prisma.participant.findUnique({
+    where: { userId: req.user!.id }
+  });
+
+  if (!participant) {
+    throw new AppError('Participant profile not found', 404);
+  }
+
+  return participant;
+};
+
+// POST /api/teams
+router.post('/', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = teamNameSchema.parse(req.body);
+    const participant = await getCurrentParticipant(req);
+
+    const team = await createTeam(participant, validatedData.name, getSessionContext(req));
+
+    res.status(201).json({
+      message: 'Team created successfully',
+      team: await getTeamDetails(team.id, participant)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// GET /api/teams/mine
+router.get('/mine', async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getCurrentParticipant(req);
+
+  if (!participant.teamId) {
+    throw new AppError('You are not in a team', 404);
+  }
+
+  res.json({ team: await getTeamDetails(participant.teamId, participant) });
+});
+
+// PUT /api/teams/mine
+router.put('/mine', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = teamNameSchema.parse(req.body);
+    const participant = await getCurrentParticipant(req);
+
+    const team = await updateTeam(participant, validatedData.name, getSessionContext(req));
+
+    res.json({
+      message: 'Team updated successfully',
+      team: await getTeamDetails(team.id, participant)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/teams/mine/invite-code
+// Replaces the invite code; links already shared stop working
+router.post('/mine/invite-code', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getCurrentParticipant(req);
+
+  const team = await rotateInviteCode(participant, getSessionContext(req));
+
+  res.json({
+    message: 'Invite link replaced',
+    team: await getTeamDetails(team.id, participant)
+  });
+});
+
+// PUT /api/teams/mine/captain
+router.put('/mine/captain', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = transferCaptaincySchema.parse(req.body);
+    const participant = await getCurrentParticipant(req);
+
+    await transferCaptaincy(participant, validatedData.participantId, getSessionContext(req));
+
+    res.json({
+      message: 'Captaincy transferred successfully',
+      team: await getTeamDetails(participant.teamId!, participant)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// DELETE /api/teams/mine/members/:participantId
+router.delete('/mine/members/:participantId', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getCurrentParticipant(req);
+
+  await removeTeamMember(participant, req.params.participantId, getSessionContext(req));
+
+  res.json({
+    message: 'Member removed from the team',
+    team: await getTeamDetails(participant.teamId!, participant)
+  });
+});
+
+// GET /api/teams/invite/:inviteCode
+router.get('/invite/:inviteCode', async (req: AuthenticatedRequest, res: Response) => {
+  const team = await previewTeamInvite(req.params.inviteCode);
+
+  res.json({ team });
+});
+
+// POST /api/teams/join
+router.post('/join', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const validatedData = joinTeamSchema.parse(req.body);
+    const participant = await getCurrentParticipant(req);
+
+    const team = await joinTeam(participant, validatedData.inviteCode.trim(), getSessionContext(req));
+
+    res.json({
+      message: `You joined ${team.name}`,
+      team: await getTeamDetails(team.id, participant)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      throw new AppError(error.errors[0].message, 400);
+    }
+    throw error;
+  }
+});
+
+// POST /api/teams/leave
+// A captain must transfer captaincy first, unless they're the last member (the team is then disbanded)
+router.post('/leave', denyImpersonation, async (req: AuthenticatedRequest, res: Response) => {
+  const participant = await getCurrentParticipant(req);
+
+  await leaveTeam(participant, getSessionContext(req));
+
+  res.json({
+    message: 'You left the team'
+  });
+});
+
+export default router;
\ No newline at end of file
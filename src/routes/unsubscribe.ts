@@ -0,0 +1,37 @@
+import { Router, Request, Response } from 'express';
+import { AppError } from '@/middleware/errorHandler';
+import { describeUnsubscribeLink, unsubscribeWithToken } from '@/services/notificationPreferenceService';
+import { getSessionContext } from '@/services/sessionService';
+
+// Unsubscribe links from email footers and List-Unsubscribe headers. The signed
+// token in the link is the credential, so no sign-in is needed.
+const router = Router();
+
+const getToken = (req: Request): string => {
+  if (typeof req.query.token !== 'string' || !req.query.token) {
+    throw new AppError('Unsubscribe token is required', 400);
+  }
+
+  return req.query.token;
+};
+
+// GET /api/unsubscribe?token=...
+// What the link unsubscribes from, for the confirmation page
+router.get('/', async (req: Request, res: Response) => {
+  const link = await describeUnsubscribeLink(getToken(req));
+
+  res.json(link);
+});
+
+// POST /api/unsubscribe?token=...
+// Also the RFC 8058 one-click endpoint mail clients call with `List-Unsubscribe=One-Click`
+router.post('/', async (req: Request, res: Response) => {
+  const category = await unsubscribeWithToken(getToken(req), getSessionContext(req));
+
+  res.json({
+    message: 'You have been unsubscribed',
+    category
+  });
+});
+
+export default router;
\ No newline at end of file
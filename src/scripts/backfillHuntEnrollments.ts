@@ -0,0 +1,61 @@
+import dotenv from 'dotenv';
+import prisma from '@/config/database';
+
+// Load environment variables
+dotenv.config();
+
+// Move data from before hunts existed into one hunt: every participant without an
+// enrollment is enrolled with their current tier and status, and payments and
+// referrals without a hunt are assigned to it. Safe to run more than once.
+// Usage: npm run hunts:backfill -- <hunt-slug>
+async function main() {
+  const slug = process.argv[2];
+
+  if (!slug) {
+    console.error('❌ Usage: npm run hunts:backfill -- <hunt-slug>');
+    process.exit(1);
+  }
+
+  console.log(`🗂️  Backfilling hunt ${slug}...`);
+
+  try {
+    const hunt = await prisma.hunt.findUniqueOrThrow({
+      where: { slug }
+    });
+
+    const participants = await prisma.participant.findMany({
+      where: { enrollments: { none: {} } },
+      select: { id: true, tier: true, status: true, createdAt: true }
+    });
+
+    const { count: enrolled } = await prisma.huntEnrollment.createMany({
+      data: participants.map(participant => ({
+        huntId: hunt.id,
+        participantId: participant.id,
+        tier: participant.tier,
+        status: participant.status,
+        createdAt: participant.createdAt
+      })),
+      skipDuplicates: true
+    });
+
+    const { count: payments } = await prisma.payment.updateMany({
+      where: { huntId: null },
+      data: { huntId: hunt.id }
+    });
+
+    const { count: referrals } = await prisma.referral.updateMany({
+      where: { huntId: null },
+      data: { huntId: hunt.id }
+    });
+
+    console.log(`✅ Enrolled ${enrolled} participant(s); assigned ${payments} payment(s) and ${referrals} referral(s)`);
+  } catch (error) {
+    console.error('❌ Error backfilling hunt:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
\ No newline at end of file
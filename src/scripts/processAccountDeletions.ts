@@ -0,0 +1,24 @@
+import dotenv from 'dotenv';
+import prisma from '@/config/database';
+import { processDueAccountDeletions } from '@/services/accountDeletionService';
+
+// Load environment variables
+dotenv.config();
+
+// Anonymize accounts whose deletion grace period has ended. Run on a schedule (e.g. daily).
+async function main() {
+  console.log('🗑️  Processing scheduled account deletions...');
+
+  try {
+    const processed = await processDueAccountDeletions();
+
+    console.log(`✅ Anonymized ${processed} account(s)`);
+  } catch (error) {
+    console.error('❌ Error processing account deletions:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
\ No newline at end of file
@@ -1,6 +1,8 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
 import dotenv from 'dotenv';
+import { BUILT_IN_STAFF_ROLES, SUPER_ADMIN_ROLE } from '@/config/permissions';
+import { TIER_PRICES } from '@/services/tierUpgradeService';
 
 // Load environment variables
 dotenv.config();
@@ -39,6 +41,35 @@ async function main() {
       console.log(`ℹ️  Admin user already exists: ${adminEmail}`);
     }
 
+    // Create built-in staff roles (kept in sync with src/config/permissions.ts)
+    for (const staffRole of BUILT_IN_STAFF_ROLES) {
+      await prisma.staffRole.upsert({
+        where: { name: staffRole.name },
+        update: {
+          description: staffRole.description,
+          permissions: staffRole.permissions,
+          isSystem: true
+        },
+        create: { ...staffRole, isSystem: true }
+      });
+      console.log(`✅ Synced staff role: ${staffRole.name}`);
+    }
+
+    // Admins without any staff role keep full access as super admins
+    const unassignedAdmins = await prisma.user.findMany({
+      where: { role: 'ADMIN', staffRoles: { none: {} } }
+    });
+
+    for (const admin of unassignedAdmins) {
+      await prisma.user.update({
+        where: { id: admin.id },
+        data: {
+          staffRoles: { connect: { name: SUPER_ADMIN_ROLE } }
+        }
+      });
+      console.log(`✅ Assigned ${SUPER_ADMIN_ROLE} to ${admin.email}`);
+    }
+
     // Create system configuration entries
     const configs = [
       {
@@ -46,8 +77,41 @@ async function main() {
         value: {
           siteName: 'Red Mugsy Treasure Hunt',
           maxParticipants: 10000,
+          tierCapacity: {},
+          teamSizeLimits: {
+            FREE: 2,
+            PREMIUM: 4,
+            VIP: 6
+          },
           registrationOpen: true,
-          promoterApplicationsOpen: true
+          promoterApplicationsOpen: true,
+          requireEmailVerification: false
+        }
+      },
+      {
+        key: 'security_settings',
+        value: {
+          requireAdminTwoFactor: false,
+          registrationRiskThreshold: 50,
+          maxRegistrationsPerIp: 3,
+          blockedEmailDomains: []
+        }
+      },
+      {
+        key: 'invite_rewards',
+        value: {
+          enabled: true,
+          grantOn: 'REGISTRATION',
+          maxRewardedInvites: 25,
+          inviterRewards: [{ type: 'HINT_CREDITS', amount: 1 }],
+          inviteeRewards: []
+        }
+      },
+      {
+        key: 'registration_form',
+        value: {
+          version: 0,
+          fields: []
         }
       },
       {
@@ -92,6 +156,28 @@ async function main() {
       }
     }
 
+    // A first hunt so registration works out of the box
+    if (await prisma.hunt.count() === 0) {
+      const now = new Date();
+      const seasonEnd = new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000);
+
+      const hunt = await prisma.hunt.create({
+        data: {
+          name: 'Red Mugsy Treasure Hunt - Season 1',
+          slug: 'season-1',
+          startsAt: now,
+          endsAt: seasonEnd,
+          registrationOpensAt: now,
+          registrationClosesAt: seasonEnd,
+          tierPrices: TIER_PRICES,
+          isPublished: true
+        }
+      });
+      console.log(`✅ Created hunt: ${hunt.slug}`);
+    } else {
+      console.log('ℹ️  Hunts already exist');
+    }
+
     console.log('🎉 Database seeding completed!');
     
   } catch (error) {
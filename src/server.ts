@@ -15,6 +15,12 @@ import participantRoutes from '@/routes/participants';
 import promoterRoutes from '@/routes/promoters';
 import adminRoutes from '@/routes/admin';
 import paymentRoutes from '@/routes/payments';
+import partnerRoutes from '@/routes/partner';
+import exportRoutes from '@/routes/exports';
+import teamRoutes from '@/routes/teams';
+import huntRoutes from '@/routes/hunts';
+import gameplayRoutes from '@/routes/gameplay';
+import unsubscribeRoutes from '@/routes/unsubscribe';
 import healthRoutes from '@/routes/health';
 import stripeWebhook from '@/webhooks/stripe';
 
@@ -54,9 +60,16 @@ app.use(cors({
   ],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'x-requested-with']
+  allowedHeaders: ['Content-Type', 'Authorization', 'x-requested-with', 'x-api-key']
 }));
 
+// Routes that authenticate keyed requests themselves (authenticateApiKey/optionalApiKey),
+// where the per-key limit, or the invalid key limit, replaces the IP limit below
+const isApiKeyRequest = (req: express.Request) => !!req.get('X-API-Key') && (
+  req.path.startsWith('/api/partner/') ||
+  (req.method === 'POST' && req.path === '/api/participants/register')
+);
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -64,6 +77,7 @@ const limiter = rateLimit({
   message: 'Too many requests from this IP, please try again later.',
   standardHeaders: true,
   legacyHeaders: false,
+  skip: isApiKeyRequest,
 });
 app.use(limiter);
 
@@ -87,6 +101,12 @@ app.use('/api/participants', participantRoutes);
 app.use('/api/promoters', promoterRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/partner', partnerRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/hunts', huntRoutes);
+app.use('/api/hunt', gameplayRoutes);
+app.use('/api/unsubscribe', unsubscribeRoutes);
 
 // Webhook routes (no body parsing, raw buffer needed)
 app.use('/webhooks', express.raw({ type: 'application/json' }));
@@ -103,7 +123,13 @@ app.get('/', (req, res) => {
       participants: '/api/participants',
       promoters: '/api/promoters', 
       admin: '/api/admin',
-      payments: '/api/payments'
+      payments: '/api/payments',
+      partner: '/api/partner',
+      exports: '/api/exports',
+      teams: '/api/teams',
+      hunts: '/api/hunts',
+      gameplay: '/api/hunt',
+      unsubscribe: '/api/unsubscribe'
     }
   });
 });
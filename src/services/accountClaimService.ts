@@ -0,0 +1,94 @@
+import { Promoter, User } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { sendAccountClaimEmail } from '@/services/emailService';
+import { generateSecureToken, hashToken } from '@/utils/tokens';
+import { buildFrontendUrl } from '@/utils/urls';
+
+const CLAIM_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Accounts registered before claim links existed hold this literal instead of null
+const LEGACY_PLACEHOLDER_PASSWORD = 'TEMP_PASSWORD';
+
+type ClaimableUser = Pick<User, 'id' | 'email' | 'firstName' | 'password'>;
+
+// An account is unclaimed until its owner has chosen a password
+export const isAccountClaimed = (user: Pick<User, 'password'>): boolean => {
+  return !!user.password && user.password !== LEGACY_PLACEHOLDER_PASSWORD;
+};
+
+// Promoters can only claim once their application has been approved
+export const canClaimAccount = (
+  user: Pick<User, 'password'> & { promoter?: Pick<Promoter, 'status'> | null }
+): boolean => {
+  return !isAccountClaimed(user) && (!user.promoter || user.promoter.status === 'APPROVED');
+};
+
+// Create a one-time claim link. Only the hash is stored, so a new link
+// replaces any outstanding one.
+export const createAccountClaimLink = async (user: ClaimableUser): Promise<string> => {
+  if (isAccountClaimed(user)) {
+    throw new AppError('Account has already been claimed', 400);
+  }
+
+  const token = generateSecureToken();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      claimToken: hashToken(token),
+      claimExpires: new Date(Date.now() + CLAIM_TOKEN_TTL_MS)
+    }
+  });
+
+  return buildFrontendUrl('/claim-account', { token });
+};
+
+// Create a claim link and email it to the account owner. No-op for claimed accounts.
+export const issueAccountClaim = async (user: ClaimableUser): Promise<void> => {
+  if (isAccountClaimed(user)) {
+    return;
+  }
+
+  const claimUrl = await createAccountClaimLink(user);
+  await sendAccountClaimEmail(user.email, user.firstName || 'there', claimUrl);
+};
+
+// Look up the unclaimed account a claim token belongs to
+export const findUserByClaimToken = async (token: string) => {
+  const user = await prisma.user.findFirst({
+    where: {
+      claimToken: hashToken(token),
+      claimExpires: { gt: new Date() },
+      OR: [
+        { password: null },
+        { password: LEGACY_PLACEHOLDER_PASSWORD }
+      ]
+    }
+  });
+
+  if (!user) {
+    throw new AppError('Invalid or expired account activation link', 400);
+  }
+
+  return user;
+};
+
+// Consume a claim token and set the user's password. Receiving the link
+// proves ownership of the inbox, so the email is marked verified too.
+export const claimAccount = async (token: string, password: string) => {
+  const user = await findUserByClaimToken(token);
+  const hashedPassword = await bcrypt.hash(password, 12);
+
+  return prisma.user.update({
+    where: { id: user.id },
+    data: {
+      password: hashedPassword,
+      claimToken: null,
+      claimExpires: null,
+      emailVerified: true,
+      emailVerifyToken: null
+    }
+  });
+};
\ No newline at end of file
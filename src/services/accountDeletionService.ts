@@ -0,0 +1,285 @@
+import { Prisma, User } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { sendAccountDeletionScheduledEmail } from '@/services/emailService';
+import { promoteFromWaitlist } from '@/services/waitlistService';
+import { SessionContext } from '@/services/sessionService';
+import { detachFromTeam } from '@/services/teamService';
+import { syncEnrollmentStatus } from '@/services/huntService';
+import { buildFrontendUrl } from '@/utils/urls';
+
+// Days a user has to change their mind before their PII is removed
+const GRACE_PERIOD_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14');
+
+const REDACTED = '[redacted]';
+
+// Unique, undeliverable address that keeps the tombstone's email constraint satisfied
+const tombstoneEmail = (userId: string): string => `deleted-${userId}@deleted.invalid`;
+
+export const isAccountAnonymized = (user: Pick<User, 'anonymizedAt'>): boolean => !!user.anonymizedAt;
+
+// Replace any of `values` found in audit JSON (e.g. the email recorded at registration)
+const scrubJson = (value: Prisma.JsonValue, values: Set<string>): Prisma.JsonValue => {
+  if (typeof value === 'string') {
+    return values.has(value.toLowerCase()) ? REDACTED : value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => scrubJson(item, values));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, scrubJson(item ?? null, values)])
+    );
+  }
+
+  return value;
+};
+
+const toJsonInput = (value: Prisma.JsonValue | null) => {
+  return value === null ? Prisma.DbNull : value as Prisma.InputJsonValue;
+};
+
+// Start the grace period. The account keeps working until it ends, so the user
+// can sign in and cancel.
+export const scheduleAccountDeletion = async (userId: string, context: SessionContext): Promise<User> => {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+
+  if (user.deletionScheduledFor) {
+    return user;
+  }
+
+  const now = new Date();
+  const scheduledFor = new Date(now.getTime() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const scheduled = await tx.user.update({
+      where: { id: userId },
+      data: { deletionRequestedAt: now, deletionScheduledFor: scheduledFor }
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'ACCOUNT_DELETION_SCHEDULED',
+        entityType: 'USER',
+        entityId: userId,
+        newValues: { deletionScheduledFor: scheduledFor.toISOString() },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+
+    return scheduled;
+  });
+
+  try {
+    await sendAccountDeletionScheduledEmail(
+      user.email,
+      user.firstName || 'there',
+      scheduledFor,
+      buildFrontendUrl('/account')
+    );
+  } catch (emailError) {
+    console.error('Failed to send account deletion email:', emailError);
+  }
+
+  return updated;
+};
+
+export const cancelAccountDeletion = async (userId: string, context: SessionContext): Promise<void> => {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+
+  if (!user.deletionScheduledFor) {
+    throw new AppError('Account is not scheduled for deletion', 400);
+  }
+
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: { deletionRequestedAt: null, deletionScheduledFor: null }
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'ACCOUNT_DELETION_CANCELLED',
+        entityType: 'USER',
+        entityId: userId,
+        oldValues: { deletionScheduledFor: user.deletionScheduledFor.toISOString() },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    })
+  ]);
+};
+
+// Strip a user's personal data, keeping the rows (payments, referrals, audit log)
+// accountants need. The user record stays behind as a tombstone they stay linked to.
+// Returns whether a participant place was freed.
+export const anonymizeUser = async (userId: string): Promise<boolean> => {
+  const user = await prisma.user.findUniqueOrThrow({
+    where: { id: userId },
+    include: { participant: true, promoter: true }
+  });
+
+  if (isAccountAnonymized(user)) {
+    return false;
+  }
+
+  const now = new Date();
+  const anonymousEmail = tombstoneEmail(user.id);
+
+  const piiValues = new Set(
+    [user.email, user.firstName, user.lastName, user.phone, user.participant?.walletAddress]
+      .filter((value): value is string => !!value)
+      .map(value => value.toLowerCase())
+  );
+
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        email: anonymousEmail,
+        password: null,
+        firstName: null,
+        lastName: null,
+        phone: null,
+        emailVerified: false,
+        emailVerifyToken: null,
+        emailVerifySentAt: null,
+        resetToken: null,
+        resetExpires: null,
+        claimToken: null,
+        claimExpires: null,
+        sessionsRevokedAt: now,
+        failedLoginAttempts: 0,
+        lastFailedLoginAt: null,
+        lockedUntil: null,
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+        twoFactorRecoveryCodes: [],
+        deletionScheduledFor: null,
+        anonymizedAt: now,
+        staffRoles: { set: [] }
+      }
+    });
+
+    // Sessions and data exports hold IPs and copies of the data being removed
+    await tx.session.deleteMany({ where: { userId: user.id } });
+    await tx.dataExport.deleteMany({ where: { userId: user.id } });
+
+    if (user.participant) {
+      await detachFromTeam(tx, user.participant);
+
+      await tx.participant.update({
+        where: { id: user.participant.id },
+        data: {
+          status: 'WITHDRAWN',
+          waitlistedAt: null,
+          walletAddress: null,
+          walletVerifiedAt: null,
+          discordUsername: null,
+          telegramUsername: null,
+          registrationData: Prisma.DbNull,
+          turnstileToken: null,
+          ipAddress: null,
+          userAgent: null
+        }
+      });
+
+      // Frees their places in upcoming hunts
+      await syncEnrollmentStatus(tx, user.participant.id, 'WITHDRAWN');
+    }
+
+    if (user.promoter) {
+      await tx.promoter.update({
+        where: { id: user.promoter.id },
+        data: {
+          status: 'WITHDRAWN',
+          companyName: null,
+          website: null,
+          socialMediaLinks: Prisma.DbNull,
+          followersCount: null,
+          engagementRate: null,
+          niche: null,
+          applicationData: Prisma.DbNull,
+          turnstileToken: null,
+          ipAddress: null,
+          userAgent: null
+        }
+      });
+    }
+
+    // Referrals are matched to participants by email; keep them matching the tombstone
+    await tx.referral.updateMany({
+      where: { participantEmail: { equals: user.email, mode: 'insensitive' } },
+      data: { participantEmail: anonymousEmail }
+    });
+
+    const entityIds = [user.id, user.participant?.id, user.promoter?.id]
+      .filter((id): id is string => !!id);
+
+    const auditLogs = await tx.auditLog.findMany({
+      where: { OR: [{ userId: user.id }, { entityId: { in: entityIds } }] },
+      select: { id: true, userId: true, oldValues: true, newValues: true }
+    });
+
+    for (const auditLog of auditLogs) {
+      await tx.auditLog.update({
+        where: { id: auditLog.id },
+        data: {
+          oldValues: toJsonInput(scrubJson(auditLog.oldValues, piiValues)),
+          newValues: toJsonInput(scrubJson(auditLog.newValues, piiValues)),
+          // Only the user's own requests carry their IP; admins' entries keep theirs
+          ...(auditLog.userId === user.id && { ipAddress: null, userAgent: null })
+        }
+      });
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: user.id,
+        action: 'ACCOUNT_ANONYMIZED',
+        entityType: 'USER',
+        entityId: user.id,
+        newValues: { deletionRequestedAt: user.deletionRequestedAt?.toISOString() ?? null }
+      }
+    });
+  }, { timeout: 30_000 }); // Long-lived accounts can have many audit rows to scrub
+
+  const status = user.participant?.status;
+  return !!status && status !== 'WAITLISTED' && status !== 'REJECTED';
+};
+
+// Anonymize every account whose grace period has ended. Returns how many were processed.
+export const processDueAccountDeletions = async (): Promise<number> => {
+  const due = await prisma.user.findMany({
+    where: {
+      deletionScheduledFor: { lte: new Date() },
+      anonymizedAt: null
+    },
+    select: { id: true }
+  });
+
+  let processed = 0;
+  let placesFreed = false;
+
+  for (const { id } of due) {
+    try {
+      placesFreed = await anonymizeUser(id) || placesFreed;
+      processed += 1;
+    } catch (error) {
+      console.error(`Failed to anonymize user ${id}:`, error);
+    }
+  }
+
+  // Withdrawn participants' places go to the next people on the waitlist
+  if (placesFreed) {
+    await promoteFromWaitlist();
+  }
+
+  return processed;
+};
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { Announcement, Hunt, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import { evaluateContentAccess, getContentAccessRule } from '@/services/contentAccessService';
+
+// An announcement as participants see it
+export const describeAnnouncement = (announcement: Announcement, visibleAt: Date) => ({
+  id: announcement.id,
+  huntId: announcement.huntId,
+  title: announcement.title,
+  body: announcement.body,
+  publishedAt: visibleAt
+});
+
+// Announcements for a hunt (and site-wide ones) that a participant on `tier` can see now,
+// newest first. Tiers with a release delay see each one that much after it was published.
+export const listAnnouncements = async (hunt: Pick<Hunt, 'id'>, tier: TierType) => {
+  const rule = await getContentAccessRule('ANNOUNCEMENT');
+  const now = new Date();
+
+  const announcements = await prisma.announcement.findMany({
+    where: {
+      OR: [{ huntId: hunt.id }, { huntId: null }],
+      publishedAt: { lte: now }
+    },
+    orderBy: { publishedAt: 'desc' },
+    take: 100
+  });
+
+  return announcements
+    .map(announcement => ({
+      announcement,
+      access: evaluateContentAccess(rule, announcement, announcement.publishedAt, tier, now)
+    }))
+    .filter(({ access }) => access.available)
+    .map(({ announcement, access }) => describeAnnouncement(announcement, access.availableAt));
+};
\ No newline at end of file
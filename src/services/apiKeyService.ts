@@ -0,0 +1,84 @@
+import { ApiKey } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { generateSecureToken, hashToken } from '@/utils/tokens';
+
+// Keys look like "rmk_<48 hex chars>"; the prefix makes leaked keys easy to grep for
+const API_KEY_PREFIX = 'rmk_';
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+// Avoid a write on every request: last-used is only refreshed once a minute
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: string[];
+  rateLimitPerMinute?: number;
+  expiresAt?: Date;
+}
+
+// Create a key and return its plain value, which is only ever shown once
+export const createApiKey = async (input: CreateApiKeyInput, createdById: string) => {
+  const key = `${API_KEY_PREFIX}${generateSecureToken(24)}`;
+
+  const apiKey = await prisma.apiKey.create({
+    data: {
+      name: input.name,
+      scopes: input.scopes,
+      rateLimitPerMinute: input.rateLimitPerMinute,
+      expiresAt: input.expiresAt,
+      prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashToken(key),
+      createdById
+    }
+  });
+
+  return { apiKey, key };
+};
+
+// Look up a key by its plain value; revoked and expired keys are treated as unknown
+export const findActiveApiKey = async (key: string): Promise<ApiKey | null> => {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashToken(key) }
+  });
+
+  if (!apiKey || apiKey.revokedAt || (apiKey.expiresAt && apiKey.expiresAt <= new Date())) {
+    return null;
+  }
+
+  return apiKey;
+};
+
+export const recordApiKeyUse = async (apiKey: Pick<ApiKey, 'id' | 'lastUsedAt'>, ipAddress?: string): Promise<void> => {
+  if (apiKey.lastUsedAt && Date.now() - apiKey.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS) {
+    return;
+  }
+
+  await prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { lastUsedAt: new Date(), lastUsedIp: ipAddress }
+  });
+};
+
+export const revokeApiKey = async (apiKeyId: string): Promise<ApiKey> => {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { id: apiKeyId }
+  });
+
+  if (!apiKey) {
+    throw new AppError('API key not found', 404);
+  }
+
+  if (apiKey.revokedAt) {
+    throw new AppError('API key is already revoked', 400);
+  }
+
+  return prisma.apiKey.update({
+    where: { id: apiKey.id },
+    data: { revokedAt: new Date() }
+  });
+};
\ No newline at end of file
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { Clue } from '@prisma/client';
+import prisma from '@/config/database';
+import { getCurrentClue, isCorrectAnswer, normalizeAnswer, submitAnswer } from '@/services/clueService';
+import { hoursFromNow, makeClue, makeClueProgress, makeHunt, makeParticipant, runTransactionsInline, sessionContext } from '@/test/fixtures';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    $transaction: jest.fn(),
+    clue: { findFirst: jest.fn(), findMany: jest.fn() },
+    clueProgress: { findMany: jest.fn(), upsert: jest.fn(), updateMany: jest.fn() },
+    auditLog: { create: jest.fn() }
+  }
+}));
+
+jest.mock('@/services/configService', () => {
+  const actual = jest.requireActual('@/services/configService');
+
+  return {
+    ...actual,
+    getContentAccessPolicy: jest.fn().mockResolvedValue(actual.DEFAULT_CONTENT_ACCESS_POLICY)
+  };
+});
+
+const mockPrisma = jest.mocked(prisma);
+
+const SECRET = 'test-answer-secret';
+
+// Hashed the way clues store their answers
+const withAnswers = (answers: string[]): Pick<Clue, 'answerSalt' | 'answerHashes'> => ({
+  answerSalt: 'salt',
+  answerHashes: answers.map(answer => crypto.createHmac('sha256', SECRET).update(`salt:${normalizeAnswer(answer)}`).digest('hex'))
+});
+
+const hunt = makeHunt();
+const clue = makeClue(withAnswers(["St. Paul's Cathedral"]));
+const participant = makeParticipant();
+
+describe('clueService', () => {
+  const originalSecret = process.env.CLUE_ANSWER_SECRET;
+
+  beforeAll(() => {
+    process.env.CLUE_ANSWER_SECRET = SECRET;
+  });
+
+  afterAll(() => {
+    process.env.CLUE_ANSWER_SECRET = originalSecret;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runTransactionsInline(prisma);
+    mockPrisma.clue.findMany.mockResolvedValue([clue]);
+    mockPrisma.clueProgress.findMany.mockResolvedValue([]);
+    mockPrisma.clueProgress.upsert.mockResolvedValue(makeClueProgress({ attempts: 2 }));
+  });
+
+  describe('isCorrectAnswer', () => {
+    it('ignores case, accents, spacing and punctuation', () => {
+      expect(isCorrectAnswer(clue, 'st pauls cathedral')).toBe(true);
+      expect(isCorrectAnswer(clue, 'ST. PAUL’S  CATHÉDRAL')).toBe(true);
+      expect(isCorrectAnswer(clue, 'westminster abbey')).toBe(false);
+    });
+
+    it('never accepts an answer with nothing left to compare', () => {
+      expect(isCorrectAnswer(clue, ' ?! ')).toBe(false);
+    });
+  });
+
+  describe('getCurrentClue', () => {
+    it('leaves clues above the tier out of the sequence', async () => {
+      mockPrisma.clue.findMany.mockResolvedValue([
+        makeClue({ id: 'clue-vip', minimumTier: 'VIP' }),
+        makeClue({ id: 'clue-2', position: 2, title: 'The bridge' })
+      ]);
+
+      await expect(getCurrentClue(participant.id, hunt, 'PREMIUM')).resolves.toMatchObject({
+        clue: { id: 'clue-2', title: 'The bridge' },
+        totalClues: 1
+      });
+    });
+
+    it('announces a clue not yet released without recording that it was reached', async () => {
+      const releasesAt = hoursFromNow(2);
+      mockPrisma.clue.findMany.mockResolvedValue([makeClue({ releasesAt })]);
+
+      await expect(getCurrentClue(participant.id, hunt, 'FREE')).resolves.toMatchObject({ clue: null, lockedUntil: releasesAt });
+      expect(mockPrisma.clueProgress.upsert).not.toHaveBeenCalled();
+    });
+
+    it('is complete once every clue in the sequence is solved', async () => {
+      mockPrisma.clueProgress.findMany.mockResolvedValue([makeClueProgress({ solvedAt: new Date() })]);
+
+      await expect(getCurrentClue(participant.id, hunt, 'FREE')).resolves.toMatchObject({ clue: null, completed: true, solvedClues: 1 });
+    });
+  });
+
+  describe('submitAnswer', () => {
+    it('records the solve and its audit on the first correct answer', async () => {
+      mockPrisma.clueProgress.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await submitAnswer(participant, hunt, 'FREE', 'st pauls cathedral', undefined, sessionContext);
+
+      expect(result).toMatchObject({ correct: true, attempts: 2, solvedAt: expect.any(Date) });
+      // Only sets solvedAt if nobody has yet
+      expect(mockPrisma.clueProgress.updateMany).toHaveBeenCalledWith({
+        where: { id: 'progress-1', solvedAt: null },
+        data: { solvedAt: result.solvedAt }
+      });
+      expect(mockPrisma.auditLog.create).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ action: 'CLUE_SOLVED', entityId: 'clue-1' })
+      }));
+    });
+
+    it('does not audit a second solve when a concurrent answer got there first', async () => {
+      mockPrisma.clueProgress.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await submitAnswer(participant, hunt, 'FREE', 'st pauls cathedral', undefined, sessionContext);
+
+      expect(result.correct).toBe(true);
+      expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('only counts the attempt for a wrong answer', async () => {
+      const result = await submitAnswer(participant, hunt, 'FREE', 'westminster abbey', undefined, sessionContext);
+
+      expect(result).toMatchObject({ correct: false, solvedAt: null });
+      expect(result).not.toHaveProperty('next');
+      expect(mockPrisma.clueProgress.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.auditLog.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses an answer for a clue the participant has moved past', async () => {
+      mockPrisma.clue.findFirst.mockResolvedValue(null);
+
+      await expect(submitAnswer(participant, hunt, 'FREE', 'anything', 'clue-0', sessionContext)).rejects.toMatchObject({
+        message: 'That clue is not your current clue',
+        statusCode: 409
+      });
+      expect(mockPrisma.clueProgress.upsert).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,494 @@
+import crypto from 'crypto';
+import { Clue, ClueProgress, Hunt, Participant, Prisma, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { ContentType } from '@/services/configService';
+import { ContentAccess, evaluateContentAccess, getContentAccessRule } from '@/services/contentAccessService';
+import { getParticipantEnrollment, lockHunt } from '@/services/huntService';
+import { SessionContext } from '@/services/sessionService';
+import { generateSecureToken } from '@/utils/tokens';
+
+export interface ClueInput {
+  title: string;
+  body: string;
+  answers: string[];
+  isBonus?: boolean;
+  minimumTier?: TierType | null;
+  releasesAt?: Date | null;
+}
+
+const getAnswerSecret = (): string => {
+  const secret = process.env.CLUE_ANSWER_SECRET;
+
+  if (!secret) {
+    throw new Error('CLUE_ANSWER_SECRET is not configured');
+  }
+
+  return secret;
+};
+
+// Answers match regardless of case, accents, spacing and punctuation, so
+// "St. Paul's Cathedral" and "st pauls cathedral" are the same answer
+export const normalizeAnswer = (answer: string): string => {
+  return answer
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]/gu, '');
+};
+
+// Keyed with a server secret so a database dump alone can't be brute-forced for answers
+const hashAnswer = (salt: string, answer: string): string => {
+  return crypto
+    .createHmac('sha256', getAnswerSecret())
+    .update(`${salt}:${normalizeAnswer(answer)}`)
+    .digest('hex');
+};
+
+const hashAnswers = (answers: string[]): Pick<Clue, 'answerSalt' | 'answerHashes'> => {
+  const answerSalt = generateSecureToken(16);
+  const normalized = [...new Set(answers.map(normalizeAnswer))];
+
+  if (normalized.some(answer => !answer)) {
+    throw new AppError('Answers must contain at least one letter or number', 400);
+  }
+
+  return {
+    answerSalt,
+    answerHashes: normalized.map(answer => hashAnswer(answerSalt, answer))
+  };
+};
+
+export const isCorrectAnswer = (clue: Pick<Clue, 'answerSalt' | 'answerHashes'>, answer: string): boolean => {
+  if (!normalizeAnswer(answer)) {
+    return false;
+  }
+
+  const guess = Buffer.from(hashAnswer(clue.answerSalt, answer), 'hex');
+
+  return clue.answerHashes.some(hash => crypto.timingSafeEqual(Buffer.from(hash, 'hex'), guess));
+};
+
+// A clue as participants see it
+export const describeClue = (clue: Clue) => ({
+  id: clue.id,
+  position: clue.position,
+  title: clue.title,
+  body: clue.body
+});
+
+// A clue as admins see it; answers are only ever stored hashed
+export const describeClueForAdmin = (clue: Clue & { _count?: { progress: number } }) => ({
+  ...describeClue(clue),
+  huntId: clue.huntId,
+  isBonus: clue.isBonus,
+  minimumTier: clue.minimumTier,
+  releasesAt: clue.releasesAt,
+  answerCount: clue.answerHashes.length,
+  ...(clue._count && { participantsReached: clue._count.progress }),
+  createdAt: clue.createdAt,
+  updatedAt: clue.updatedAt
+});
+
+const getHuntClue = async (huntId: string, clueId: string, client: Prisma.TransactionClient = prisma): Promise<Clue> => {
+  const clue = await client.clue.findFirst({
+    where: { id: clueId, huntId }
+  });
+
+  if (!clue) {
+    throw new AppError('Clue not found', 404);
+  }
+
+  return clue;
+};
+
+// Move every clue at or after `fromPosition` by `delta`. Done via negative positions
+// because Postgres checks the unique (huntId, position) index row by row.
+const shiftPositions = async (
+  tx: Prisma.TransactionClient,
+  huntId: string,
+  fromPosition: number,
+  delta: number
+): Promise<void> => {
+  await tx.$executeRaw`UPDATE clues SET position = -(position + ${delta}) WHERE "huntId" = ${huntId} AND position >= ${fromPosition}`;
+  await tx.$executeRaw`UPDATE clues SET position = -position WHERE "huntId" = ${huntId} AND position < 0`;
+};
+
+// Add a clue at `position`, or after the last one when no position is given
+export const createClue = async (hunt: Hunt, input: ClueInput & { position?: number }): Promise<Clue> => {
+  const answers = hashAnswers(input.answers);
+
+  return prisma.$transaction(async (tx) => {
+    await lockHunt(tx, hunt.id);
+
+    const count = await tx.clue.count({ where: { huntId: hunt.id } });
+    const position = Math.min(input.position ?? count + 1, count + 1);
+
+    if (position <= count) {
+      await shiftPositions(tx, hunt.id, position, 1);
+    }
+
+    return tx.clue.create({
+      data: {
+        huntId: hunt.id,
+        position,
+        title: input.title,
+        body: input.body,
+        isBonus: input.isBonus,
+        minimumTier: input.minimumTier,
+        releasesAt: input.releasesAt,
+        ...answers
+      }
+    });
+  });
+};
+
+// Replacing the answers re-salts them; previous guesses aren't re-checked
+export const updateClue = async (huntId: string, clueId: string, changes: Partial<ClueInput>): Promise<Clue> => {
+  await getHuntClue(huntId, clueId);
+
+  const { answers, ...fields } = changes;
+
+  return prisma.clue.update({
+    where: { id: clueId },
+    data: {
+      ...fields,
+      ...(answers && hashAnswers(answers))
+    }
+  });
+};
+
+// Later clues move up to close the gap. Participants on the deleted clue go on to the next.
+export const deleteClue = async (huntId: string, clueId: string): Promise<Clue> => {
+  return prisma.$transaction(async (tx) => {
+    await lockHunt(tx, huntId);
+
+    const clue = await getHuntClue(huntId, clueId, tx);
+
+    await tx.clue.delete({ where: { id: clue.id } });
+    await shiftPositions(tx, huntId, clue.position + 1, -1);
+
+    return clue;
+  });
+};
+
+// Put a hunt's clues in the given order. Every clue in the hunt must be listed once.
+export const reorderClues = async (huntId: string, clueIds: string[]): Promise<Clue[]> => {
+  return prisma.$transaction(async (tx) => {
+    await lockHunt(tx, huntId);
+
+    const clues = await tx.clue.findMany({
+      where: { huntId },
+      select: { id: true }
+    });
+
+    const listed = new Set(clueIds);
+
+    if (listed.size !== clueIds.length || clues.length !== clueIds.length || clues.some(clue => !listed.has(clue.id))) {
+      throw new AppError('Clue order must list every clue in the hunt exactly once', 400);
+    }
+
+    await tx.$executeRaw`UPDATE clues SET position = -position WHERE "huntId" = ${huntId}`;
+
+    for (const [index, id] of clueIds.entries()) {
+      await tx.clue.update({
+        where: { id },
+        data: { position: index + 1 }
+      });
+    }
+
+    return tx.clue.findMany({
+      where: { huntId },
+      orderBy: { position: 'asc' }
+    });
+  });
+};
+
+// The participant's enrollment, if they may play the hunt right now: active, like
+// ticket holders, and the hunt under way
+export const getPlayableEnrollment = async (participant: Pick<Participant, 'id'>, huntId?: string) => {
+  const enrollment = await getParticipantEnrollment(participant.id, huntId);
+  const { hunt } = enrollment;
+
+  if (enrollment.status !== 'ACTIVE') {
+    throw new AppError(`Your registration for ${hunt.name} must be active to play`, 403);
+  }
+
+  const now = new Date();
+
+  if (now < hunt.startsAt) {
+    throw new AppError(`${hunt.name} starts at ${hunt.startsAt.toISOString()}`, 403);
+  }
+
+  if (now >= hunt.endsAt) {
+    throw new AppError(`${hunt.name} has ended`, 403);
+  }
+
+  return enrollment;
+};
+
+const getClueContentType = (clue: Pick<Clue, 'isBonus'>): ContentType => {
+  return clue.isBonus ? 'BONUS_STAGE' : 'CLUE';
+};
+
+// When a clue is released; tiers with a release delay see it that much later
+const getClueReleaseTime = (clue: Pick<Clue, 'releasesAt'>, hunt: Pick<Hunt, 'startsAt'>): Date => {
+  return clue.releasesAt ?? hunt.startsAt;
+};
+
+const getClueAccess = async (clue: Clue, hunt: Hunt, tier: TierType): Promise<ContentAccess> => {
+  const rule = await getContentAccessRule(getClueContentType(clue));
+
+  return evaluateContentAccess(rule, clue, getClueReleaseTime(clue, hunt), tier);
+};
+
+// When the participant got to a clue (null if they haven't, or it isn't available to their
+// tier), and whether they've solved it. Bonus stages open for everyone with access at once.
+export const getClueState = async (clue: Clue, hunt: Hunt, participantId: string, tier: TierType) => {
+  const progress = await prisma.clueProgress.findUnique({
+    where: { clueId_participantId: { clueId: clue.id, participantId } }
+  });
+
+  let openedAt = progress?.unlockedAt ?? null;
+
+  if (clue.isBonus) {
+    const access = await getClueAccess(clue, hunt, tier);
+    openedAt = access.available ? access.availableAt : null;
+  }
+
+  return { openedAt, solved: !!progress?.solvedAt };
+};
+
+// The hunt's main sequence as `tier` plays it (clues above the tier are left out), the
+// first clue in it the participant hasn't solved, and how far along they are
+const getSequenceState = async (hunt: Hunt, participantId: string, tier: TierType) => {
+  const rule = await getContentAccessRule('CLUE');
+
+  const clues = await prisma.clue.findMany({
+    where: { huntId: hunt.id, isBonus: false },
+    orderBy: { position: 'asc' }
+  });
+
+  const sequence = clues
+    .map(clue => ({ clue, access: evaluateContentAccess(rule, clue, getClueReleaseTime(clue, hunt), tier) }))
+    .filter(({ access }) => access.hasTier);
+
+  const solved = await prisma.clueProgress.findMany({
+    where: {
+      participantId,
+      clueId: { in: sequence.map(({ clue }) => clue.id) },
+      solvedAt: { not: null }
+    },
+    select: { clueId: true }
+  });
+
+  const solvedIds = new Set(solved.map(progress => progress.clueId));
+
+  return {
+    current: sequence.find(({ clue }) => !solvedIds.has(clue.id)) ?? null,
+    solvedClues: solvedIds.size,
+    totalClues: sequence.length
+  };
+};
+
+// Where the participant is in the hunt. Reaching a clue for the first time records when it unlocked;
+// a clue not yet released to their tier is only announced by `lockedUntil`.
+export const getCurrentClue = async (participantId: string, hunt: Hunt, tier: TierType) => {
+  const { current, solvedClues, totalClues } = await getSequenceState(hunt, participantId, tier);
+  const released = !!current && current.access.available;
+  let progress: ClueProgress | null = null;
+
+  if (current && released) {
+    progress = await prisma.clueProgress.upsert({
+      where: { clueId_participantId: { clueId: current.clue.id, participantId } },
+      update: {},
+      create: { clueId: current.clue.id, participantId }
+    });
+  }
+
+  return {
+    clue: current && released ? describeClue(current.clue) : null,
+    lockedUntil: current && !released ? current.access.availableAt : null,
+    unlockedAt: progress?.unlockedAt ?? null,
+    attempts: progress?.attempts ?? 0,
+    completed: !current,
+    solvedClues,
+    totalClues
+  };
+};
+
+// Bonus stages in the hunt, including ones above the participant's tier so they know what an
+// upgrade unlocks. Clue text is only included once a stage is available to them.
+export const listBonusStages = async (participantId: string, hunt: Hunt, tier: TierType) => {
+  const rule = await getContentAccessRule('BONUS_STAGE');
+
+  const clues = await prisma.clue.findMany({
+    where: { huntId: hunt.id, isBonus: true },
+    include: {
+      progress: { where: { participantId } }
+    },
+    orderBy: { position: 'asc' }
+  });
+
+  return clues.map(({ progress: [progress], ...clue }) => {
+    const access = evaluateContentAccess(rule, clue, getClueReleaseTime(clue, hunt), tier);
+
+    return {
+      id: clue.id,
+      title: clue.title,
+      body: access.available ? clue.body : null,
+      requiredTier: access.requiredTier,
+      availableAt: access.hasTier ? access.availableAt : null,
+      available: access.available,
+      attempts: progress?.attempts ?? 0,
+      solvedAt: progress?.solvedAt ?? null
+    };
+  });
+};
+
+// The clue a guess is for: the bonus stage named by `clueId`, or the participant's
+// current clue. Naming the current clue guards against answering one they've already
+// moved past in another tab.
+const getAnswerableClue = async (
+  hunt: Hunt,
+  participantId: string,
+  tier: TierType,
+  clueId?: string
+): Promise<Clue> => {
+  if (clueId) {
+    const named = await prisma.clue.findFirst({
+      where: { id: clueId, huntId: hunt.id, isBonus: true }
+    });
+
+    if (named) {
+      const access = await getClueAccess(named, hunt, tier);
+
+      if (!access.hasTier) {
+        throw new AppError(`This bonus stage requires the ${access.requiredTier} tier or higher`, 403);
+      }
+
+      if (!access.available) {
+        throw new AppError(`This bonus stage opens at ${access.availableAt.toISOString()}`, 403);
+      }
+
+      const progress = await prisma.clueProgress.findUnique({
+        where: { clueId_participantId: { clueId: named.id, participantId } }
+      });
+
+      if (progress?.solvedAt) {
+        throw new AppError('You have already solved this bonus stage', 409);
+      }
+
+      return named;
+    }
+  }
+
+  const { current } = await getSequenceState(hunt, participantId, tier);
+
+  if (!current) {
+    throw new AppError(`You have already solved every clue in ${hunt.name}`, 409);
+  }
+
+  if (clueId && clueId !== current.clue.id) {
+    throw new AppError('That clue is not your current clue', 409);
+  }
+
+  if (!current.access.available) {
+    throw new AppError(`Your next clue opens at ${current.access.availableAt.toISOString()}`, 403);
+  }
+
+  return current.clue;
+};
+
+// Check a guess at the participant's current clue or at a bonus stage
+export const submitAnswer = async (
+  participant: Pick<Participant, 'id' | 'userId'>,
+  hunt: Hunt,
+  tier: TierType,
+  answer: string,
+  clueId: string | undefined,
+  context: SessionContext
+) => {
+  const clue = await getAnswerableClue(hunt, participant.id, tier, clueId);
+  const correct = isCorrectAnswer(clue, answer);
+  const now = new Date();
+
+  const progress = await prisma.$transaction(async (tx) => {
+    const updated = await tx.clueProgress.upsert({
+      where: { clueId_participantId: { clueId: clue.id, participantId: participant.id } },
+      update: {
+        attempts: { increment: 1 },
+        lastAttemptAt: now
+      },
+      create: {
+        clueId: clue.id,
+        participantId: participant.id,
+        attempts: 1,
+        lastAttemptAt: now
+      }
+    });
+
+    if (!correct) {
+      return updated;
+    }
+
+    // Only the first correct answer counts; a concurrent one finds the clue already solved
+    const { count } = await tx.clueProgress.updateMany({
+      where: { id: updated.id, solvedAt: null },
+      data: { solvedAt: now }
+    });
+
+    if (count === 0) {
+      return updated;
+    }
+
+    await tx.auditLog.create({
+      data: {
+        userId: participant.userId,
+        action: 'CLUE_SOLVED',
+        entityType: 'CLUE',
+        entityId: clue.id,
+        newValues: { huntId: hunt.id, position: clue.position, isBonus: clue.isBonus, attempts: updated.attempts },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+
+    return { ...updated, solvedAt: now };
+  });
+
+  return {
+    correct,
+    clue: describeClue(clue),
+    attempts: progress.attempts,
+    solvedAt: progress.solvedAt,
+    ...(correct && !clue.isBonus && { next: await getCurrentClue(participant.id, hunt, tier) })
+  };
+};
+
+// What a participant would see at `clue`, when each tier gets it, and whether `answer` would be accepted
+export const previewClue = async (hunt: Hunt, clueId: string, answer?: string) => {
+  const clue = await getHuntClue(hunt.id, clueId);
+  const rule = await getContentAccessRule(getClueContentType(clue));
+  const totalClues = await prisma.clue.count({ where: { huntId: hunt.id, isBonus: clue.isBonus } });
+
+  const access = Object.fromEntries(
+    Object.values(TierType).map(tier => {
+      const { hasTier, availableAt } = evaluateContentAccess(rule, clue, getClueReleaseTime(clue, hunt), tier);
+
+      return [tier, hasTier ? { availableAt } : null];
+    })
+  );
+
+  return {
+    clue: describeClue(clue),
+    totalClues,
+    access,
+    ...(answer !== undefined && {
+      answer: {
+        normalized: normalizeAnswer(answer),
+        correct: isCorrectAnswer(clue, answer)
+      }
+    })
+  };
+};
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { InviteRewardType, Prisma, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+
+// Shape of the `site_settings` SystemConfig entry
+export interface SiteSettings {
+  siteName: string;
+  maxParticipants: number;
+  // Optional per-tier limits on top of maxParticipants; missing or null means unlimited
+  tierCapacity: Partial<Record<TierType, number | null>>;
+  // Largest team a captain of each tier can lead, captain included
+  teamSizeLimits: Record<TierType, number>;
+  registrationOpen: boolean;
+  promoterApplicationsOpen: boolean;
+  requireEmailVerification: boolean;
+}
+
+export const DEFAULT_SITE_SETTINGS: SiteSettings = {
+  siteName: 'Red Mugsy Treasure Hunt',
+  maxParticipants: 10000,
+  tierCapacity: {},
+  teamSizeLimits: {
+    FREE: 2,
+    PREMIUM: 4,
+    VIP: 6
+  },
+  registrationOpen: true,
+  promoterApplicationsOpen: true,
+  requireEmailVerification: false
+};
+
+// Shape of the `security_settings` SystemConfig entry
+export interface SecuritySettings {
+  requireAdminTwoFactor: boolean;
+  // Registrations scoring at least this much are held for review
+  registrationRiskThreshold: number;
+  // Registrations from one IP within 24 hours before further ones are flagged
+  maxRegistrationsPerIp: number;
+  // Treated as disposable on top of the built-in list
+  blockedEmailDomains: string[];
+}
+
+export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
+  requireAdminTwoFactor: false,
+  registrationRiskThreshold: 50,
+  maxRegistrationsPerIp: 3,
+  blockedEmailDomains: []
+};
+
+export interface InviteRewardGrant {
+  type: InviteRewardType;
+  amount: number;
+}
+
+// Shape of the `invite_rewards` SystemConfig entry
+export interface InviteRewardSettings {
+  enabled: boolean;
+  // When an invite earns its rewards: as soon as the friend registers, or once they first pay
+  grantOn: 'REGISTRATION' | 'FIRST_PAYMENT';
+  // Invites beyond this many earn the inviter nothing more
+  maxRewardedInvites: number;
+  inviterRewards: InviteRewardGrant[];
+  inviteeRewards: InviteRewardGrant[]; // Welcome reward for the invited friend
+}
+
+export const DEFAULT_INVITE_REWARD_SETTINGS: InviteRewardSettings = {
+  enabled: true,
+  grantOn: 'REGISTRATION',
+  maxRewardedInvites: 25,
+  inviterRewards: [{ type: 'HINT_CREDITS', amount: 1 }],
+  inviteeRewards: []
+};
+
+// A bundle of hint credits sold through checkout
+export interface HintPack {
+  id: string;
+  name: string;
+  credits: number;
+  price: number; // Dollars
+}
+
+// Shape of the `hint_settings` SystemConfig entry
+export interface HintSettings {
+  // Hint credits each tier gets free in every hunt
+  freeCreditsPerHunt: Record<TierType, number>;
+  hintPacks: HintPack[];
+}
+
+export const DEFAULT_HINT_SETTINGS: HintSettings = {
+  freeCreditsPerHunt: {
+    FREE: 0,
+    PREMIUM: 1,
+    VIP: 3
+  },
+  hintPacks: [
+    { id: 'hints-3', name: '3 Hint Credits', credits: 3, price: 4.99 },
+    { id: 'hints-10', name: '10 Hint Credits', credits: 10, price: 12.99 }
+  ]
+};
+
+export const CONTENT_TYPES = ['CLUE', 'HINT', 'BONUS_STAGE', 'ANNOUNCEMENT'] as const;
+
+export type ContentType = typeof CONTENT_TYPES[number];
+
+export interface ContentAccessRule {
+  minimumTier: TierType; // Items can declare their own instead
+  // Minutes after an item's release before each tier sees it, e.g. {FREE: 30, PREMIUM: 15, VIP: 0}
+  releaseDelayMinutes: Record<TierType, number>;
+}
+
+// Shape of the `content_access` SystemConfig entry
+export type ContentAccessPolicy = Record<ContentType, ContentAccessRule>;
+
+const NO_RELEASE_DELAY: Record<TierType, number> = { FREE: 0, PREMIUM: 0, VIP: 0 };
+
+export const DEFAULT_CONTENT_ACCESS_POLICY: ContentAccessPolicy = {
+  CLUE: { minimumTier: 'FREE', releaseDelayMinutes: NO_RELEASE_DELAY },
+  HINT: { minimumTier: 'FREE', releaseDelayMinutes: NO_RELEASE_DELAY },
+  BONUS_STAGE: { minimumTier: 'PREMIUM', releaseDelayMinutes: NO_RELEASE_DELAY },
+  ANNOUNCEMENT: { minimumTier: 'FREE', releaseDelayMinutes: NO_RELEASE_DELAY }
+};
+
+export const REGISTRATION_FIELD_TYPES = [
+  'text',
+  'textarea',
+  'email',
+  'url',
+  'number',
+  'date',
+  'select',
+  'multiselect',
+  'checkbox'
+] as const;
+
+export type RegistrationFieldType = typeof REGISTRATION_FIELD_TYPES[number];
+
+// A season-specific question asked at registration
+export interface RegistrationField {
+  key: string;
+  label: string;
+  type: RegistrationFieldType;
+  required: boolean;
+  options?: string[]; // select and multiselect only
+  tiers?: TierType[]; // Tiers the field is shown to; missing means every tier
+  helpText?: string;
+  placeholder?: string;
+  maxLength?: number; // text fields
+  min?: number; // number fields
+  max?: number;
+}
+
+// Shape of the `registration_form` SystemConfig entry
+export interface RegistrationForm {
+  version: number; // Bumped on every change and stored with each registration's answers
+  fields: RegistrationField[];
+}
+
+export const DEFAULT_REGISTRATION_FORM: RegistrationForm = {
+  version: 0,
+  fields: []
+};
+
+// Read a config entry, falling back to defaults for any missing keys
+export const getConfig = async <T extends object>(key: string, defaults: T): Promise<T> => {
+  const config = await prisma.systemConfig.findUnique({
+    where: { key }
+  });
+
+  if (!config || typeof config.value !== 'object' || Array.isArray(config.value)) {
+    return defaults;
+  }
+
+  return { ...defaults, ...(config.value as Partial<T>) };
+};
+
+export const setConfig = async <T extends object>(key: string, value: T): Promise<T> => {
+  const config = await prisma.systemConfig.upsert({
+    where: { key },
+    update: { value: value as Prisma.InputJsonValue },
+    create: { key, value: value as Prisma.InputJsonValue }
+  });
+
+  return config.value as T;
+};
+
+export const getSiteSettings = (): Promise<SiteSettings> => {
+  return getConfig('site_settings', DEFAULT_SITE_SETTINGS);
+};
+
+export const getSecuritySettings = (): Promise<SecuritySettings> => {
+  return getConfig('security_settings', DEFAULT_SECURITY_SETTINGS);
+};
+
+export const getInviteRewardSettings = (): Promise<InviteRewardSettings> => {
+  return getConfig('invite_rewards', DEFAULT_INVITE_REWARD_SETTINGS);
+};
+
+export const getContentAccessPolicy = (): Promise<ContentAccessPolicy> => {
+  return getConfig('content_access', DEFAULT_CONTENT_ACCESS_POLICY);
+};
+
+export const getHintSettings = (): Promise<HintSettings> => {
+  return getConfig('hint_settings', DEFAULT_HINT_SETTINGS);
+};
+
+export const getRegistrationForm = (): Promise<RegistrationForm> => {
+  return getConfig('registration_form', DEFAULT_REGISTRATION_FORM);
+};
\ No newline at end of file
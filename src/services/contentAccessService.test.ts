@@ -0,0 +1,52 @@
+import { evaluateContentAccess, getEnrollmentTier } from '@/services/contentAccessService';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {}
+}));
+
+const releasedAt = new Date('2026-06-01T12:00:00Z');
+
+const rule = {
+  minimumTier: 'FREE' as const,
+  releaseDelayMinutes: { FREE: 60, PREMIUM: 15, VIP: 0 }
+};
+
+describe('contentAccessService', () => {
+  describe('evaluateContentAccess', () => {
+    it('releases content to each tier after its delay', () => {
+      const now = new Date('2026-06-01T12:30:00Z');
+
+      expect(evaluateContentAccess(rule, {}, releasedAt, 'VIP', now)).toMatchObject({ hasTier: true, available: true });
+      expect(evaluateContentAccess(rule, {}, releasedAt, 'PREMIUM', now)).toMatchObject({
+        available: true,
+        availableAt: new Date('2026-06-01T12:15:00Z')
+      });
+      expect(evaluateContentAccess(rule, {}, releasedAt, 'FREE', now)).toMatchObject({
+        hasTier: true,
+        available: false,
+        availableAt: new Date('2026-06-01T13:00:00Z')
+      });
+    });
+
+    it("lets an item's own minimum tier override the rule", () => {
+      const access = evaluateContentAccess(rule, { minimumTier: 'VIP' }, releasedAt, 'PREMIUM', new Date('2026-06-02T00:00:00Z'));
+
+      expect(access).toMatchObject({ requiredTier: 'VIP', hasTier: false, available: false });
+    });
+
+    it('never makes content available to tiers below the minimum', () => {
+      const access = evaluateContentAccess({ ...rule, minimumTier: 'PREMIUM' }, {}, releasedAt, 'FREE', new Date('2027-01-01T00:00:00Z'));
+
+      expect(access).toMatchObject({ requiredTier: 'PREMIUM', hasTier: false, available: false });
+    });
+  });
+
+  describe('getEnrollmentTier', () => {
+    it('applies the tier only once the enrollment is active', () => {
+      expect(getEnrollmentTier({ tier: 'VIP', status: 'ACTIVE' })).toBe('VIP');
+      expect(getEnrollmentTier({ tier: 'VIP', status: 'PENDING' })).toBe('FREE');
+      expect(getEnrollmentTier({ tier: 'PREMIUM', status: 'SUSPENDED' })).toBe('FREE');
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { HuntEnrollment, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import {
+  CONTENT_TYPES,
+  ContentAccessRule,
+  ContentType,
+  getContentAccessPolicy
+} from '@/services/configService';
+import { isHigherTier } from '@/services/tierUpgradeService';
+
+// Anything that can require a tier of its own instead of its content type's minimum
+export interface GatedContent {
+  minimumTier?: TierType | null;
+}
+
+export interface ContentAccess {
+  requiredTier: TierType;
+  hasTier: boolean;
+  availableAt: Date; // When this tier gets to see it
+  available: boolean;
+}
+
+export const isContentType = (value: string): value is ContentType => {
+  return (CONTENT_TYPES as readonly string[]).includes(value);
+};
+
+export const getContentAccessRule = async (type: ContentType): Promise<ContentAccessRule> => {
+  const policy = await getContentAccessPolicy();
+
+  return policy[type];
+};
+
+// Whether a participant on `tier` can see an item released at `releasedAt`, and from when
+export const evaluateContentAccess = (
+  rule: ContentAccessRule,
+  item: GatedContent,
+  releasedAt: Date,
+  tier: TierType,
+  now: Date = new Date()
+): ContentAccess => {
+  const requiredTier = item.minimumTier ?? rule.minimumTier;
+  const hasTier = !isHigherTier(requiredTier, tier);
+  const delayMinutes = rule.releaseDelayMinutes[tier] ?? 0;
+  const availableAt = new Date(releasedAt.getTime() + delayMinutes * 60 * 1000);
+
+  return {
+    requiredTier,
+    hasTier,
+    availableAt,
+    available: hasTier && availableAt <= now
+  };
+};
+
+// Tier benefits only apply once a registration is active (paid, for paid tiers).
+// Until then the participant sees what FREE participants see.
+export const getEnrollmentTier = (enrollment: Pick<HuntEnrollment, 'tier' | 'status'>): TierType => {
+  return enrollment.status === 'ACTIVE' ? enrollment.tier : 'FREE';
+};
+
+// The tier a user's content access is based on, in one hunt or their latest
+export const getEntitledTier = async (userId: string, huntId?: string): Promise<TierType> => {
+  const enrollment = await prisma.huntEnrollment.findFirst({
+    where: { participant: { userId }, ...(huntId && { huntId }) },
+    select: { tier: true, status: true },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  return enrollment ? getEnrollmentTier(enrollment) : 'FREE';
+};
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { DataExport, Prisma } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { sendDataExportReadyEmail } from '@/services/emailService';
+import { signPurposeToken, verifyPurposeToken } from '@/utils/tokens';
+import { buildFrontendUrl } from '@/utils/urls';
+import { toSafeUser } from '@/utils/users';
+
+// Exports stay downloadable for 24 hours
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+const DOWNLOAD_TOKEN_EXPIRES_IN = '24h';
+
+// Accounts with more payment/referral/audit rows than this are exported in the background
+const SYNC_EXPORT_MAX_ROWS = 500;
+
+// One export per hour per user; a newer request returns the existing one
+const REQUEST_COOLDOWN_MS = 60 * 60 * 1000;
+
+// Everything we hold about a user, in a machine-readable form
+const buildUserArchive = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: {
+      participant: true,
+      promoter: true,
+      notificationPreference: true
+    }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  const [payments, referralsMade, referralsReceived, auditLogs] = await Promise.all([
+    prisma.payment.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' }
+    }),
+    user.promoter
+      ? prisma.referral.findMany({
+        where: { promoterId: user.promoter.id },
+        orderBy: { createdAt: 'asc' }
+      })
+      : Promise.resolve([]),
+    prisma.referral.findMany({
+      where: { participantEmail: user.email },
+      select: { id: true, referralCode: true, tier: true, isConverted: true, convertedAt: true, createdAt: true }
+    }),
+    prisma.auditLog.findMany({
+      where: { userId },
+      select: {
+        id: true,
+        action: true,
+        entityType: true,
+        entityId: true,
+        oldValues: true,
+        newValues: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+  ]);
+
+  const { participant, promoter, ...account } = toSafeUser(user);
+
+  return {
+    format: 'red-mugsy-data-export',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    user: account,
+    participant: participant ?? null,
+    registrationData: participant?.registrationData ?? promoter?.applicationData ?? null,
+    promoter: promoter ?? null,
+    payments,
+    referrals: {
+      made: referralsMade,
+      received: referralsReceived
+    },
+    auditLogs
+  };
+};
+
+const countExportRows = async (userId: string): Promise<number> => {
+  const [payments, auditLogs] = await Promise.all([
+    prisma.payment.count({ where: { userId } }),
+    prisma.auditLog.count({ where: { userId } })
+  ]);
+
+  return payments + auditLogs;
+};
+
+// Drop archives whose download window has passed
+const purgeExpiredExports = async (): Promise<void> => {
+  await prisma.dataExport.updateMany({
+    where: { expiresAt: { lt: new Date() }, data: { not: Prisma.DbNull } },
+    data: { data: Prisma.DbNull }
+  });
+};
+
+export const buildDownloadUrl = (dataExport: Pick<DataExport, 'id'>): string => {
+  const token = signPurposeToken({ id: dataExport.id }, 'data-export', DOWNLOAD_TOKEN_EXPIRES_IN);
+  return buildFrontendUrl('/data-export', { id: dataExport.id, token });
+};
+
+// Build the archive for a pending export and, if asked, email the user its link
+export const processDataExport = async (exportId: string, notifyUser: boolean): Promise<DataExport> => {
+  const pending = await prisma.dataExport.findUniqueOrThrow({
+    where: { id: exportId },
+    include: { user: { select: { email: true, firstName: true } } }
+  });
+
+  let dataExport: DataExport;
+  try {
+    const archive = await buildUserArchive(pending.userId);
+
+    dataExport = await prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'READY',
+        data: archive as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+        expiresAt: new Date(Date.now() + EXPORT_TTL_MS)
+      }
+    });
+  } catch (error) {
+    console.error('Data export failed:', error);
+
+    return prisma.dataExport.update({
+      where: { id: exportId },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    });
+  }
+
+  if (notifyUser) {
+    try {
+      await sendDataExportReadyEmail(
+        pending.user.email,
+        pending.user.firstName || 'there',
+        buildDownloadUrl(dataExport),
+        dataExport.expiresAt!
+      );
+    } catch (emailError) {
+      console.error('Failed to send data export email:', emailError);
+    }
+  }
+
+  return dataExport;
+};
+
+// Start an export of `userId`'s data. Small accounts are exported immediately;
+// large ones are queued and the user is emailed when their archive is ready.
+export const requestDataExport = async (userId: string, requestedById: string): Promise<DataExport> => {
+  await purgeExpiredExports();
+
+  const isSelfService = userId === requestedById;
+
+  if (isSelfService) {
+    const recent = await prisma.dataExport.findFirst({
+      where: {
+        userId,
+        requestedById: userId,
+        status: { in: ['PENDING', 'READY'] },
+        createdAt: { gt: new Date(Date.now() - REQUEST_COOLDOWN_MS) }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    if (recent) {
+      return recent;
+    }
+  }
+
+  const dataExport = await prisma.dataExport.create({
+    data: { userId, requestedById }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: requestedById,
+      action: 'DATA_EXPORT_REQUESTED',
+      entityType: 'USER',
+      entityId: userId,
+      newValues: { exportId: dataExport.id }
+    }
+  });
+
+  if (await countExportRows(userId) <= SYNC_EXPORT_MAX_ROWS) {
+    return processDataExport(dataExport.id, false);
+  }
+
+  setImmediate(() => {
+    processDataExport(dataExport.id, isSelfService)
+      .catch(error => console.error('Background data export failed:', error));
+  });
+
+  return dataExport;
+};
+
+// Validate a download link and return the archive
+export const downloadDataExport = async (exportId: string, token: string) => {
+  try {
+    const { id } = verifyPurposeToken<{ id: string }>(token, 'data-export');
+    if (id !== exportId) {
+      throw new jwt.JsonWebTokenError('Export mismatch');
+    }
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new AppError('Download link is invalid or has expired', 401);
+    }
+    throw error;
+  }
+
+  const dataExport = await prisma.dataExport.findUnique({
+    where: { id: exportId }
+  });
+
+  if (!dataExport || dataExport.status !== 'READY' || !dataExport.data
+    || !dataExport.expiresAt || dataExport.expiresAt <= new Date()) {
+    throw new AppError('This export is no longer available. Please request a new one.', 410);
+  }
+
+  await prisma.dataExport.update({
+    where: { id: exportId },
+    data: { downloadedAt: new Date() }
+  });
+
+  return dataExport;
+};
+
+// Public view of an export, with its download link once ready
+export const describeDataExport = (dataExport: DataExport) => ({
+  id: dataExport.id,
+  status: dataExport.status,
+  createdAt: dataExport.createdAt,
+  completedAt: dataExport.completedAt,
+  expiresAt: dataExport.expiresAt,
+  downloadUrl: dataExport.status === 'READY' && dataExport.expiresAt && dataExport.expiresAt > new Date()
+    ? buildDownloadUrl(dataExport)
+    : null
+});
\ No newline at end of file
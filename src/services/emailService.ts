@@ -1,13 +1,31 @@
 import nodemailer from 'nodemailer';
 import { AppError } from '@/middleware/errorHandler';
+import { buildUnsubscribeLinks, isSubscribed, NotificationCategory } from '@/services/notificationPreferenceService';
+import { buildFrontendUrl } from '@/utils/urls';
 
 // Email templates
 export interface EmailTemplate {
   subject: string;
   html: string;
   text?: string;
+  category?: NotificationCategory; // Leave unset for transactional email, which ignores preferences
 }
 
+type EmailAttachment = {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+  cid?: string; // Lets the HTML embed the attachment as <img src="cid:...">
+};
+
+// How each category is described in the unsubscribe footer
+const CATEGORY_DESCRIPTIONS: Record<NotificationCategory, string> = {
+  MARKETING: 'news and offers',
+  HUNT_ANNOUNCEMENTS: 'hunt announcements',
+  PAYMENT_RECEIPTS: 'payment receipts',
+  PROMOTER_DIGESTS: 'promoter digests'
+};
+
 // Create email transporter
 const createTransporter = () => {
   if (!process.env.SMTP_HOST || !process.env.SMTP_USER || !process.env.SMTP_PASS) {
@@ -25,15 +43,11 @@ const createTransporter = () => {
   });
 };
 
-// Base email sending function
-export const sendEmail = async (
+const deliverEmail = async (
   to: string | string[],
   template: EmailTemplate,
-  attachments?: Array<{
-    filename: string;
-    content: string | Buffer;
-    contentType?: string;
-  }>
+  attachments?: EmailAttachment[],
+  headers?: Record<string, string>
 ): Promise<void> => {
   try {
     const transporter = createTransporter();
@@ -44,7 +58,8 @@ export const sendEmail = async (
       subject: template.subject,
       html: template.html,
       text: template.text,
-      attachments
+      attachments,
+      headers
     };
 
     const result = await transporter.sendMail(mailOptions);
@@ -55,6 +70,63 @@ export const sendEmail = async (
   }
 };
 
+const addUnsubscribeFooter = (
+  template: EmailTemplate,
+  category: NotificationCategory,
+  pageUrl: string
+): EmailTemplate => {
+  const description = CATEGORY_DESCRIPTIONS[category];
+
+  return {
+    ...template,
+    html: `${template.html}
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; text-align: center; padding: 15px; font-size: 12px; color: #777;">
+        You're receiving this because you're subscribed to ${description}.
+        <a href="${pageUrl}" style="color: #777;">Unsubscribe</a> or
+        <a href="${buildFrontendUrl('/settings/notifications')}" style="color: #777;">manage email preferences</a>.
+      </div>
+    `,
+    text: template.text && `${template.text}
+You're receiving this because you're subscribed to ${description}.
+Unsubscribe: ${pageUrl}
+    `
+  };
+};
+
+// Base email sending function. Email with a category is only sent to recipients
+// who haven't opted out of it, and carries a one-click unsubscribe link.
+export const sendEmail = async (
+  to: string | string[],
+  template: EmailTemplate,
+  attachments?: EmailAttachment[]
+): Promise<void> => {
+  const category = template.category;
+
+  if (!category) {
+    return deliverEmail(to, template, attachments);
+  }
+
+  // Each recipient gets their own unsubscribe link
+  for (const recipient of Array.isArray(to) ? to : [to]) {
+    if (!await isSubscribed(recipient, category)) {
+      console.log(`Skipped ${category} email: recipient has unsubscribed`);
+      continue;
+    }
+
+    const links = await buildUnsubscribeLinks(recipient, category);
+
+    if (!links) {
+      await deliverEmail(recipient, template, attachments);
+      continue;
+    }
+
+    await deliverEmail(recipient, addUnsubscribeFooter(template, category, links.pageUrl), attachments, {
+      'List-Unsubscribe': `<${links.oneClickUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    });
+  }
+};
+
 // Welcome email for participants
 export const sendParticipantWelcomeEmail = async (
   email: string,
@@ -141,6 +213,427 @@ Questions? Contact us at support@redmugsy.com
   await sendEmail(email, template);
 };
 
+// Email address verification
+export const sendEmailVerificationEmail = async (
+  email: string,
+  firstName: string,
+  verifyUrl: string
+): Promise<void> => {
+  const template: EmailTemplate = {
+    subject: '✉️ Verify your email - Red Mugsy Treasure Hunt',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #ff1a4b, #00F0FF); padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">✉️ Verify Your Email</h1>
+        </div>
+
+        <div style="padding: 30px; background-color: #f8f9fa;">
+          <h2 style="color: #333;">Hello ${firstName}!</h2>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            Please confirm this is your email address so we can keep you updated about the hunt.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${verifyUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Verify Email
+            </a>
+          </div>
+
+          <p style="color: #777; font-size: 14px;">
+            This link expires in 24 hours. If you didn't create an account, you can safely ignore this email.
+          </p>
+        </div>
+
+        <div style="background: #333; color: white; text-align: center; padding: 15px; font-size: 12px;">
+          © 2025 Red Mugsy Treasure Hunt. All rights reserved.
+        </div>
+      </div>
+    `,
+    text: `
+Verify your email - Red Mugsy Treasure Hunt
+
+Hello ${firstName}!
+
+Please confirm this is your email address by opening the link below:
+
+${verifyUrl}
+
+This link expires in 24 hours. If you didn't create an account, you can safely ignore this email.
+
+© 2025 Red Mugsy Treasure Hunt. All rights reserved.
+    `
+  };
+
+  await sendEmail(email, template);
+};
+
+// Password reset link
+export const sendPasswordResetEmail = async (
+  email: string,
+  firstName: string,
+  resetUrl: string
+): Promise<void> => {
+  const template: EmailTemplate = {
+    subject: '🔑 Reset your password - Red Mugsy Treasure Hunt',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #ff1a4b, #00F0FF); padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">🔑 Password Reset</h1>
+        </div>
+
+        <div style="padding: 30px; background-color: #f8f9fa;">
+          <h2 style="color: #333;">Hello ${firstName},</h2>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            We received a request to reset the password for your account. Click the button below to choose a new one.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Reset Password
+            </a>
+          </div>
+
+          <p style="color: #777; font-size: 14px;">
+            This link expires in 1 hour and can only be used once. If you didn't request a reset, you can safely ignore this email - your password will not change.
+          </p>
+        </div>
+
+        <div style="background: #333; color: white; text-align: center; padding: 15px; font-size: 12px;">
+          © 2025 Red Mugsy Treasure Hunt. All rights reserved.
+        </div>
+      </div>
+    `,
+    text: `
+Reset your password - Red Mugsy Treasure Hunt
+
+Hello ${firstName},
+
+We received a request to reset the password for your account. Open the link below to choose a new one:
+
+${resetUrl}
+
+This link expires in 1 hour and can only be used once. If you didn't request a reset, you can safely ignore this email.
+
+© 2025 Red Mugsy Treasure Hunt. All rights reserved.
+    `
+  };
+
+  await sendEmail(email, template);
+};
+
+// Account claim (set-password) link for accounts created without a password
+export const sendAccountClaimEmail = async (
+  email: string,
+  firstName: string,
+  claimUrl: string
+): Promise<void> => {
+  const template: EmailTemplate = {
+    subject: '🔐 Activate your Red Mugsy Treasure Hunt account',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #ff1a4b, #00F0FF); padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">🔐 Activate Your Account</h1>
+        </div>
+
+        <div style="padding: 30px; background-color: #f8f9fa;">
+          <h2 style="color: #333;">Hello ${firstName}!</h2>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            Your Red Mugsy Treasure Hunt account is ready. Choose a password to sign in and manage your hunt.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${claimUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Set My Password
+            </a>
+          </div>
+
+          <p style="color: #777; font-size: 14px;">
+            This link can only be used once and expires in 7 days. If you didn't sign up, you can safely ignore this email.
+          </p>
+        </div>
+
+        <div style="background: #333; color: white; text-align: center; padding: 15px; font-size: 12px;">
+          © 2025 Red Mugsy Treasure Hunt. All rights reserved.
+        </div>
+      </div>
+    `,
+    text: `
+Activate your Red Mugsy Treasure Hunt account
+
+Hello ${firstName}!
+
+Your account is ready. Choose a password to sign in and manage your hunt:
+
+${claimUrl}
+
+This link can only be used once and expires in 7 days. If you didn't sign up, you can safely ignore this email.
+
+© 2025 Red Mugsy Treasure Hunt. All rights reserved.
+    `
+  };
+
+  await sendEmail(email, template);
+};
+
+// Account temporarily locked after repeated failed logins
+export const sendAccountLockedEmail = async (
+  email: string,
+  firstName: string,
+  lockedUntil: Date,
+  resetUrl: string
+): Promise<void> => {
+  const template: EmailTemplate = {
+    subject: '⚠️ Your account has been temporarily locked',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: #dc3545; padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">⚠️ Account Locked</h1>
+        </div>
+
+        <div style="padding: 30px; background-color: #f8f9fa;">
+          <h2 style="color: #333;">Hello ${firstName},</h2>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            We detected several failed sign-in attempts on your account, so we've temporarily locked it to keep it safe.
+          </p>
+
+          <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; border-left: 4px solid #dc3545;">
+            <p><strong>Locked until:</strong> ${lockedUntil.toUTCString()}</p>
+          </div>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            If this was you, simply wait and try again. If it wasn't, we recommend resetting your password now.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${resetUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Reset Password
+            </a>
+          </div>
+
+          <p style="color: #777; font-size: 14px; margin-top: 30px;">
+            Questions? Contact us at support@redmugsy.com
+          </p>
+        </div>
+
+        <div style="background: #333; color: white; text-align: center; padding: 15px; font-size: 12px;">
+          © 2025 Red Mugsy Treasure Hunt. All rights reserved.
+        </div>
+      </div>
+    `,
+    text: `
+Your account has been temporarily locked
+
+Hello ${firstName},
+
+We detected several failed sign-in attempts on your account, so we've temporarily locked it to keep it safe.
+
+Locked until: ${lockedUntil.toUTCString()}
+
+If this was you, simply wait and try again. If it wasn't, we recommend resetting your password now:
+
+${resetUrl}
+
+Questions? Contact us at support@redmugsy.com
+
+© 2025 Red Mugsy Treasure Hunt. All rights reserved.
+    `
+  };
+
+  await sendEmail(email, template);
+};
+
+// A waitlisted participant has been given a place
+export const sendWaitlistPromotionEmail = async (
+  email: string,
+  firstName: string,
+  tier: string,
+  dashboardUrl: string
+): Promise<void> => {
+  const needsPayment = tier !== 'FREE';
+
+  const template: EmailTemplate = {
+    subject: '🎉 A spot opened up - Red Mugsy Treasure Hunt',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #ff1a4b, #00F0FF); padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">🎉 You're Off the Waitlist!</h1>
+        </div>
+
+        <div style="padding: 30px; background-color: #f8f9fa;">
+          <h2 style="color: #333;">Hello ${firstName}!</h2>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            Great news: a spot opened up and your <strong>${tier}</strong> registration for the Red Mugsy Treasure Hunt is no longer on the waitlist.
+          </p>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            ${needsPayment
+              ? 'Complete your payment to secure your place before it goes to the next person in line.'
+              : 'Your place is confirmed. Complete your profile to get ready for the hunt.'}
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${dashboardUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              ${needsPayment ? 'Complete Payment' : 'Go to Dashboard'}
+            </a>
+          </div>
+
+          <p style="color: #777; font-size: 14px; margin-top: 30px;">
+            Questions? Contact us at support@redmugsy.com
+          </p>
+        </div>
+
+        <div style="background: #333; color: white; text-align: center; padding: 15px; font-size: 12px;">
+          © 2025 Red Mugsy Treasure Hunt. All rights reserved.
+        </div>
+      </div>
+    `,
+    text: `
+A spot opened up - Red Mugsy Treasure Hunt
+
+Hello ${firstName}!
+
+Great news: a spot opened up and your ${tier} registration for the Red Mugsy Treasure Hunt is no longer on the waitlist.
+
+${needsPayment
+  ? 'Complete your payment to secure your place before it goes to the next person in line.'
+  : 'Your place is confirmed. Complete your profile to get ready for the hunt.'}
+
+${dashboardUrl}
+
+Questions? Contact us at support@redmugsy.com
+
+© 2025 Red Mugsy Treasure Hunt. All rights reserved.
+    `
+  };
+
+  await sendEmail(email, template);
+};
+
+// Personal data export is ready to download
+export const sendDataExportReadyEmail = async (
+  email: string,
+  firstName: string,
+  downloadUrl: string,
+  expiresAt: Date
+): Promise<void> => {
+  const template: EmailTemplate = {
+    subject: '📦 Your data export is ready - Red Mugsy Treasure Hunt',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #ff1a4b, #00F0FF); padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">📦 Your Data Export</h1>
+        </div>
+
+        <div style="padding: 30px; background-color: #f8f9fa;">
+          <h2 style="color: #333;">Hello ${firstName}!</h2>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            The copy of your personal data you requested is ready. It includes your account, registration details, payments, referrals and account activity.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${downloadUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Download My Data
+            </a>
+          </div>
+
+          <p style="color: #777; font-size: 14px;">
+            This link expires on ${expiresAt.toUTCString()}. If you didn't request this export, please contact support@redmugsy.com.
+          </p>
+        </div>
+
+        <div style="background: #333; color: white; text-align: center; padding: 15px; font-size: 12px;">
+          © 2025 Red Mugsy Treasure Hunt. All rights reserved.
+        </div>
+      </div>
+    `,
+    text: `
+Your data export is ready - Red Mugsy Treasure Hunt
+
+Hello ${firstName}!
+
+The copy of your personal data you requested is ready. It includes your account, registration details, payments, referrals and account activity.
+
+Download it here:
+
+${downloadUrl}
+
+This link expires on ${expiresAt.toUTCString()}. If you didn't request this export, please contact support@redmugsy.com.
+
+© 2025 Red Mugsy Treasure Hunt. All rights reserved.
+    `
+  };
+
+  await sendEmail(email, template);
+};
+
+// Account deletion scheduled, with a way to change their mind
+export const sendAccountDeletionScheduledEmail = async (
+  email: string,
+  firstName: string,
+  scheduledFor: Date,
+  cancelUrl: string
+): Promise<void> => {
+  const template: EmailTemplate = {
+    subject: '🗑️ Your account is scheduled for deletion - Red Mugsy Treasure Hunt',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <div style="background: linear-gradient(135deg, #ff1a4b, #00F0FF); padding: 20px; text-align: center;">
+          <h1 style="color: white; margin: 0;">🗑️ Account Deletion Scheduled</h1>
+        </div>
+
+        <div style="padding: 30px; background-color: #f8f9fa;">
+          <h2 style="color: #333;">Hello ${firstName}!</h2>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            We received a request to delete your account. Your personal information will be permanently removed on <strong>${scheduledFor.toUTCString()}</strong>.
+          </p>
+
+          <p style="font-size: 16px; line-height: 1.6; color: #555;">
+            Changed your mind? Sign in and cancel the deletion before then.
+          </p>
+
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${cancelUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Keep My Account
+            </a>
+          </div>
+
+          <p style="color: #777; font-size: 14px;">
+            Payment records are kept for accounting, without your personal details. If you didn't request this, please contact support@redmugsy.com.
+          </p>
+        </div>
+
+        <div style="background: #333; color: white; text-align: center; padding: 15px; font-size: 12px;">
+          © 2025 Red Mugsy Treasure Hunt. All rights reserved.
+        </div>
+      </div>
+    `,
+    text: `
+Your account is scheduled for deletion - Red Mugsy Treasure Hunt
+
+Hello ${firstName}!
+
+We received a request to delete your account. Your personal information will be permanently removed on ${scheduledFor.toUTCString()}.
+
+Changed your mind? Sign in and cancel the deletion before then:
+
+${cancelUrl}
+
+Payment records are kept for accounting, without your personal details. If you didn't request this, please contact support@redmugsy.com.
+
+© 2025 Red Mugsy Treasure Hunt. All rights reserved.
+    `
+  };
+
+  await sendEmail(email, template);
+};
+
 // Promoter application submitted notification
 export const sendPromoterApplicationEmail = async (
   email: string,
@@ -202,7 +695,7 @@ export const sendPromoterApprovalEmail = async (
   email: string,
   firstName: string,
   referralCode: string,
-  tempPassword: string,
+  claimUrl: string,
   commissionRate: number
 ): Promise<void> => {
   const template: EmailTemplate = {
@@ -229,17 +722,16 @@ export const sendPromoterApprovalEmail = async (
           </div>
           
           <div style="background: #fff3cd; border: 1px solid #ffeaa7; padding: 20px; border-radius: 6px; margin: 20px 0;">
-            <h3 style="margin-top: 0; color: #856404;">Login Credentials</h3>
+            <h3 style="margin-top: 0; color: #856404;">Activate Your Account</h3>
             <p><strong>Email:</strong> ${email}</p>
-            <p><strong>Temporary Password:</strong> <code style="background: #fff; padding: 4px 8px; border-radius: 3px; font-family: monospace;">${tempPassword}</code></p>
             <p style="font-size: 14px; color: #856404; margin-top: 10px;">
-              ⚠️ Please change your password after first login for security.
+              ⚠️ Set your password using the button below. The link can only be used once and expires in 7 days.
             </p>
           </div>
           
           <div style="text-align: center; margin: 30px 0;">
-            <a href="https://treasure-hunt.redmugsy.com/promoter-signin" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
-              Access Promoter Dashboard
+            <a href="${claimUrl}" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
+              Set Password &amp; Access Dashboard
             </a>
           </div>
           
@@ -323,10 +815,14 @@ export const sendPaymentConfirmationEmail = async (
   firstName: string,
   tier: string,
   amount: number,
-  transactionId: string
+  transactionId: string,
+  ticketQrCode?: Buffer // Event ticket, attached and shown inline when the participant is active
 ): Promise<void> => {
   const template: EmailTemplate = {
     subject: `💰 Payment Confirmed - ${tier} Tier Activated!`,
+    // This is the only delivery of the ticket, so with one attached it's sent even to
+    // participants who unsubscribed from receipts
+    ...(!ticketQrCode && { category: 'PAYMENT_RECEIPTS' as const }),
     html: `
       <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
         <div style="background: linear-gradient(135deg, #28a745, #20c997); padding: 20px; text-align: center;">
@@ -347,6 +843,13 @@ export const sendPaymentConfirmationEmail = async (
             <p><strong>Transaction ID:</strong> ${transactionId}</p>
             <p><strong>Status:</strong> ✅ Confirmed</p>
           </div>
+          ${ticketQrCode ? `
+          <div style="background: white; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+            <h3 style="margin-top: 0; color: #333;">🎟️ Your Event Ticket</h3>
+            <img src="cid:event-ticket" alt="Event ticket QR code" style="width: 200px; height: 200px;" />
+            <p style="color: #777; font-size: 14px;">Show this QR code at check-in for in-person hunt kickoffs. It's also attached to this email.</p>
+          </div>
+          ` : ''}
           
           <div style="text-align: center; margin: 30px 0;">
             <a href="https://treasure-hunt.redmugsy.com" style="background: #ff1a4b; color: white; padding: 15px 30px; text-decoration: none; border-radius: 6px; display: inline-block; font-weight: bold;">
@@ -374,7 +877,11 @@ export const sendPaymentConfirmationEmail = async (
     `
   };
 
-  await sendEmail(email, template);
+  await sendEmail(
+    email,
+    template,
+    ticketQrCode && [{ filename: 'red-mugsy-ticket.png', content: ticketQrCode, contentType: 'image/png', cid: 'event-ticket' }]
+  );
 };
 
 // Admin notification emails
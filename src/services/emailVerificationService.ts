@@ -0,0 +1,96 @@
+import { User } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { getSiteSettings } from '@/services/configService';
+import { sendEmailVerificationEmail } from '@/services/emailService';
+import { hashToken, signPurposeToken, verifyPurposeToken } from '@/utils/tokens';
+import { buildFrontendUrl } from '@/utils/urls';
+
+const VERIFY_TOKEN_EXPIRES_IN = '24h';
+const RESEND_COOLDOWN_MS = 60 * 1000; // 1 minute between verification emails
+
+type VerifiableUser = Pick<User, 'id' | 'email' | 'firstName' | 'emailVerified' | 'emailVerifySentAt'>;
+
+// Issue a fresh verification token and email it. Only the hash of the latest
+// token is stored, so issuing a new one invalidates any earlier links.
+export const issueEmailVerification = async (user: VerifiableUser): Promise<void> => {
+  if (user.emailVerified) {
+    return;
+  }
+
+  const token = signPurposeToken({ id: user.id, email: user.email }, 'email-verify', VERIFY_TOKEN_EXPIRES_IN);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      emailVerifyToken: hashToken(token),
+      emailVerifySentAt: new Date()
+    }
+  });
+
+  await sendEmailVerificationEmail(
+    user.email,
+    user.firstName || 'there',
+    buildFrontendUrl('/verify-email', { token })
+  );
+};
+
+// Same as issueEmailVerification, but refuses to send again within the cooldown
+export const resendEmailVerification = async (user: VerifiableUser): Promise<void> => {
+  if (user.emailVerifySentAt && Date.now() - user.emailVerifySentAt.getTime() < RESEND_COOLDOWN_MS) {
+    throw new AppError('Verification email was sent recently. Please wait a minute before trying again.', 429);
+  }
+
+  await issueEmailVerification(user);
+};
+
+// Validate a verification token and mark the user's email as verified
+export const confirmEmailVerification = async (token: string) => {
+  let decoded: { id: string; email: string };
+
+  try {
+    decoded = verifyPurposeToken<{ id: string; email: string }>(token, 'email-verify');
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new AppError('Invalid or expired verification link', 400);
+    }
+    throw error;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.id }
+  });
+
+  if (!user || user.email !== decoded.email) {
+    throw new AppError('Invalid or expired verification link', 400);
+  }
+
+  if (user.emailVerified) {
+    return { user, alreadyVerified: true };
+  }
+
+  if (user.emailVerifyToken !== hashToken(token)) {
+    throw new AppError('Invalid or expired verification link', 400);
+  }
+
+  const updatedUser = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      emailVerified: true,
+      emailVerifyToken: null
+    }
+  });
+
+  return { user: updatedUser, alreadyVerified: false };
+};
+
+// Whether the admin-controlled email verification requirement blocks this user
+export const isEmailVerificationRequired = async (user: Pick<User, 'emailVerified'>): Promise<boolean> => {
+  if (user.emailVerified) {
+    return false;
+  }
+
+  const settings = await getSiteSettings();
+  return settings.requireEmailVerification;
+};
\ No newline at end of file
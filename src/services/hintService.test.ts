@@ -0,0 +1,212 @@
+import { Hint, HintUnlock, RegistrationStatus, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import { listClueHints, unlockHint } from '@/services/hintService';
+import { getAvailableRewardTotal, redeemHintCredits } from '@/services/inviteService';
+import {
+  hoursFromNow,
+  makeClue,
+  makeClueProgress,
+  makeEnrollment,
+  makeHint,
+  makeHintUnlock,
+  makeHunt,
+  makeParticipant,
+  runTransactionsInline,
+  sessionContext
+} from '@/test/fixtures';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+    clue: { findUnique: jest.fn() },
+    hint: { findUnique: jest.fn(), count: jest.fn() },
+    huntEnrollment: { findFirst: jest.fn() },
+    clueProgress: { findUnique: jest.fn() },
+    hintUnlock: { aggregate: jest.fn(), findUnique: jest.fn(), create: jest.fn() },
+    payment: { aggregate: jest.fn() },
+    auditLog: { create: jest.fn() }
+  }
+}));
+
+jest.mock('@/services/configService', () => {
+  const actual = jest.requireActual('@/services/configService');
+
+  return {
+    ...actual,
+    getHintSettings: jest.fn().mockResolvedValue(actual.DEFAULT_HINT_SETTINGS),
+    getContentAccessPolicy: jest.fn().mockResolvedValue(actual.DEFAULT_CONTENT_ACCESS_POLICY)
+  };
+});
+
+jest.mock('@/services/inviteService', () => ({
+  getAvailableRewardTotal: jest.fn(),
+  redeemHintCredits: jest.fn()
+}));
+
+const mockPrisma = jest.mocked(prisma);
+
+// Narrower views of mocks whose Prisma signatures are too generic to stub through
+type Sums<K extends string> = { _sum: Record<K, number | null> };
+const mockUnlockSums = mockPrisma.hintUnlock.aggregate as unknown as jest.Mock<Promise<Sums<'allowanceSpent' | 'purchasedCreditsSpent'>>>;
+const mockPurchasedSums = mockPrisma.payment.aggregate as unknown as jest.Mock<Promise<Sums<'hintCredits'>>>;
+
+const participant = makeParticipant();
+
+// The second hunt, so lookups have to follow the clue rather than the latest enrollment
+const hunt = makeHunt({ id: 'hunt-2', name: 'Autumn Hunt' });
+const clue = makeClue({ huntId: 'hunt-2' });
+
+const givenEnrollment = (tier: TierType, status: RegistrationStatus = 'ACTIVE') => {
+  mockPrisma.huntEnrollment.findFirst.mockResolvedValue(withHunt(makeEnrollment({ huntId: 'hunt-2', tier, status })));
+};
+
+const withHunt = <T extends object>(record: T) => ({ ...record, hunt });
+const withClue = (hint: Hint) => ({ ...hint, clue });
+const withUnlocks = (hint: Hint, unlocks: HintUnlock[] = []) => ({ ...hint, unlocks });
+const withHints = (hints: ReturnType<typeof withUnlocks>[]) => ({ ...clue, hints });
+
+// Hint credits already spent and bought in the hunt, and invite credits on hand
+const givenCredits = ({ allowanceSpent = 0, purchased = 0, purchasedSpent = 0, invite = 0 }) => {
+  mockUnlockSums.mockResolvedValue({ _sum: { allowanceSpent, purchasedCreditsSpent: purchasedSpent } });
+  mockPurchasedSums.mockResolvedValue({ _sum: { hintCredits: purchased } });
+  jest.mocked(getAvailableRewardTotal).mockResolvedValue(invite);
+};
+
+describe('hintService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runTransactionsInline(prisma);
+    mockPrisma.clueProgress.findUnique.mockResolvedValue(makeClueProgress({ unlockedAt: hoursFromNow(-1) }));
+    mockPrisma.hintUnlock.findUnique.mockResolvedValue(null);
+    mockPrisma.hint.count.mockResolvedValue(0);
+    mockPrisma.hintUnlock.create.mockResolvedValue(makeHintUnlock());
+    givenEnrollment('PREMIUM');
+    givenCredits({});
+  });
+
+  describe('listClueHints', () => {
+    it("looks up the enrollment for the clue's own hunt and hides text until unlocked", async () => {
+      mockPrisma.clue.findUnique.mockResolvedValue(withHints([
+        withUnlocks(makeHint({ position: 1 }), [makeHintUnlock()]),
+        withUnlocks(makeHint({ position: 2 })),
+        withUnlocks(makeHint({ position: 3 }))
+      ]));
+
+      const { hints } = await listClueHints(participant, 'clue-1');
+
+      expect(mockPrisma.huntEnrollment.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: { participantId: 'participant-1', huntId: 'hunt-2' }
+      }));
+      // Only the next hint in line can be unlocked
+      expect(hints.map(({ body, canUnlock }) => ({ body, canUnlock }))).toEqual([
+        { body: 'Hint 1', canUnlock: false },
+        { body: null, canUnlock: true },
+        { body: null, canUnlock: false }
+      ]);
+    });
+
+    it('counts the tier allowance left and hint packs bought', async () => {
+      mockPrisma.clue.findUnique.mockResolvedValue(withHints([]));
+      givenEnrollment('VIP');
+      givenCredits({ allowanceSpent: 1, purchased: 5, purchasedSpent: 2, invite: 1 });
+
+      const { balance } = await listClueHints(participant, 'clue-1');
+
+      // VIP gets 3 free credits per hunt
+      expect(balance).toEqual({ freeCredits: 2, inviteCredits: 1, purchasedCredits: 3, total: 6 });
+    });
+
+    it('opens hints a set time after the clue was reached', async () => {
+      const unlockedAt = hoursFromNow(-1);
+      mockPrisma.clueProgress.findUnique.mockResolvedValue(makeClueProgress({ unlockedAt }));
+      mockPrisma.clue.findUnique.mockResolvedValue(withHints([withUnlocks(makeHint({ unlockAfterMinutes: 120 }))]));
+
+      const { hints: [hint] } = await listClueHints(participant, 'clue-1');
+
+      expect(hint.canUnlock).toBe(false);
+      expect(hint.availableAt).toEqual(new Date(unlockedAt.getTime() + 120 * 60 * 1000));
+    });
+
+    it('refuses clues the participant has not reached', async () => {
+      mockPrisma.clue.findUnique.mockResolvedValue(withHints([]));
+      mockPrisma.clueProgress.findUnique.mockResolvedValue(null);
+
+      await expect(listClueHints(participant, 'clue-1')).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('refuses participants whose enrollment is not active', async () => {
+      mockPrisma.clue.findUnique.mockResolvedValue(withHints([]));
+      givenEnrollment('PREMIUM', 'PENDING');
+
+      await expect(listClueHints(participant, 'clue-1')).rejects.toMatchObject({
+        message: 'Your registration for Autumn Hunt must be active to play',
+        statusCode: 403
+      });
+    });
+  });
+
+  describe('unlockHint', () => {
+    it('spends tier credits first, then invite credits, then purchased ones', async () => {
+      mockPrisma.hint.findUnique.mockResolvedValue(withClue(makeHint({ creditCost: 4 })));
+      givenCredits({ purchased: 5, invite: 2 });
+
+      const { spent, balance } = await unlockHint(participant, 'hint-1', sessionContext);
+
+      expect(spent).toEqual({ allowanceSpent: 1, inviteCreditsSpent: 2, purchasedCreditsSpent: 1 });
+      expect(balance).toEqual({ freeCredits: 0, inviteCredits: 0, purchasedCredits: 4, total: 4 });
+      expect(redeemHintCredits).toHaveBeenCalledWith(prisma, 'participant-1', 2);
+      expect(mockPrisma.hintUnlock.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ huntId: 'hunt-2', penaltyPoints: 5, allowanceSpent: 1, inviteCreditsSpent: 2, purchasedCreditsSpent: 1 })
+      });
+    });
+
+    it('leaves invite credits alone when the tier allowance covers the cost', async () => {
+      mockPrisma.hint.findUnique.mockResolvedValue(withClue(makeHint()));
+      givenCredits({ invite: 2 });
+
+      const { spent } = await unlockHint(participant, 'hint-1', sessionContext);
+
+      expect(spent).toEqual({ allowanceSpent: 1, inviteCreditsSpent: 0, purchasedCreditsSpent: 0 });
+      expect(redeemHintCredits).not.toHaveBeenCalled();
+    });
+
+    it('asks for a hint pack once credits run out', async () => {
+      mockPrisma.hint.findUnique.mockResolvedValue(withClue(makeHint({ creditCost: 2 })));
+
+      await expect(unlockHint(participant, 'hint-1', sessionContext)).rejects.toMatchObject({ statusCode: 402 });
+      expect(mockPrisma.hintUnlock.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses hints above the participant tier', async () => {
+      mockPrisma.hint.findUnique.mockResolvedValue(withClue(makeHint({ minimumTier: 'VIP' })));
+
+      await expect(unlockHint(participant, 'hint-1', sessionContext)).rejects.toMatchObject({
+        message: 'This hint requires the VIP tier or higher',
+        statusCode: 403
+      });
+    });
+
+    it('gives the free tier no allowance', async () => {
+      mockPrisma.hint.findUnique.mockResolvedValue(withClue(makeHint()));
+      givenEnrollment('FREE');
+
+      await expect(unlockHint(participant, 'hint-1', sessionContext)).rejects.toMatchObject({ statusCode: 402 });
+    });
+
+    it('refuses hints for a clue already solved', async () => {
+      mockPrisma.hint.findUnique.mockResolvedValue(withClue(makeHint()));
+      mockPrisma.clueProgress.findUnique.mockResolvedValue(makeClueProgress({ solvedAt: new Date() }));
+
+      await expect(unlockHint(participant, 'hint-1', sessionContext)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('unlocks hints in order', async () => {
+      mockPrisma.hint.findUnique.mockResolvedValue(withClue(makeHint({ position: 2 })));
+      mockPrisma.hint.count.mockResolvedValue(1);
+
+      await expect(unlockHint(participant, 'hint-2', sessionContext)).rejects.toThrow('Unlock the earlier hints for this clue first');
+    });
+  });
+});
\ No newline at end of file
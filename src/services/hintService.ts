@@ -0,0 +1,397 @@
+import { Clue, Hint, HintUnlock, HuntEnrollment, Participant, Prisma } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { ContentAccessRule, getHintSettings } from '@/services/configService';
+import { evaluateContentAccess, getContentAccessRule, getEnrollmentTier } from '@/services/contentAccessService';
+import { getClueState, getPlayableEnrollment } from '@/services/clueService';
+import { lockHunt } from '@/services/huntService';
+import { getAvailableRewardTotal, redeemHintCredits } from '@/services/inviteService';
+import { SessionContext } from '@/services/sessionService';
+
+export interface HintInput {
+  body: string;
+  unlockAfterMinutes?: number;
+  creditCost?: number;
+  penaltyPoints?: number;
+  minimumTier?: Hint['minimumTier'];
+}
+
+// Hint credits a participant can spend in one hunt, by where they come from
+export interface HintBalance {
+  freeCredits: number; // Left of the tier's allowance
+  inviteCredits: number; // From invite rewards; usable in any hunt
+  purchasedCredits: number; // From hint packs bought for the hunt
+  total: number;
+}
+
+// A hint as participants see it; the text only once unlocked
+export const describeHint = (hint: Hint, unlock?: HintUnlock | null) => ({
+  id: hint.id,
+  position: hint.position,
+  creditCost: hint.creditCost,
+  penaltyPoints: hint.penaltyPoints,
+  body: unlock ? hint.body : null,
+  unlockedAt: unlock?.unlockedAt ?? null
+});
+
+// Hints open `unlockAfterMinutes` after the participant reached the clue, plus their tier's release delay
+const evaluateHintAccess = (rule: ContentAccessRule, hint: Hint, clueOpenedAt: Date, tier: HuntEnrollment['tier']) => {
+  const releasedAt = new Date(clueOpenedAt.getTime() + hint.unlockAfterMinutes * 60 * 1000);
+
+  return evaluateContentAccess(rule, hint, releasedAt, tier);
+};
+
+export const getHintBalance = async (
+  participantId: string,
+  enrollment: Pick<HuntEnrollment, 'huntId' | 'tier' | 'status'>,
+  client: Prisma.TransactionClient = prisma
+): Promise<HintBalance> => {
+  const settings = await getHintSettings();
+
+  const spent = await client.hintUnlock.aggregate({
+    where: { participantId, huntId: enrollment.huntId },
+    _sum: { allowanceSpent: true, purchasedCreditsSpent: true }
+  });
+
+  const purchased = await client.payment.aggregate({
+    where: { participantId, huntId: enrollment.huntId, status: 'COMPLETED', hintCredits: { not: null } },
+    _sum: { hintCredits: true }
+  });
+
+  const inviteCredits = await getAvailableRewardTotal(participantId, 'HINT_CREDITS', client);
+
+  // Refunds and downgrades can leave more spent than is now available
+  const allowance = settings.freeCreditsPerHunt[getEnrollmentTier(enrollment)] ?? 0;
+  const freeCredits = Math.max(0, allowance - (spent._sum.allowanceSpent ?? 0));
+  const purchasedCredits = Math.max(0, (purchased._sum.hintCredits ?? 0) - (spent._sum.purchasedCreditsSpent ?? 0));
+
+  return {
+    freeCredits,
+    inviteCredits,
+    purchasedCredits,
+    total: freeCredits + inviteCredits + purchasedCredits
+  };
+};
+
+// Hints unlocked in a hunt and the points they cost, e.g. for scoring
+export const getHintUsage = async (participantId: string, huntId: string) => {
+  const { _count, _sum } = await prisma.hintUnlock.aggregate({
+    where: { participantId, huntId },
+    _count: true,
+    _sum: { penaltyPoints: true }
+  });
+
+  return {
+    hintsUnlocked: _count,
+    penaltyPoints: _sum.penaltyPoints ?? 0
+  };
+};
+
+// A clue's hints for a participant who has reached it, with when each can be unlocked
+export const listClueHints = async (participant: Pick<Participant, 'id'>, clueId: string) => {
+  const clue = await prisma.clue.findUnique({
+    where: { id: clueId },
+    include: {
+      hints: {
+        include: { unlocks: { where: { participantId: participant.id } } },
+        orderBy: { position: 'asc' }
+      }
+    }
+  });
+
+  if (!clue) {
+    throw new AppError('Clue not found', 404);
+  }
+
+  const enrollment = await getPlayableEnrollment(participant, clue.huntId);
+  const tier = getEnrollmentTier(enrollment);
+  const { openedAt, solved } = await getClueState(clue, enrollment.hunt, participant.id, tier);
+
+  if (!openedAt) {
+    throw new AppError('You have not reached this clue yet', 403);
+  }
+
+  const rule = await getContentAccessRule('HINT');
+
+  const hints = clue.hints.map(({ unlocks: [unlock], ...hint }, index) => {
+    const access = evaluateHintAccess(rule, hint, openedAt, tier);
+    const earlierUnlocked = clue.hints.slice(0, index).every(earlier => earlier.unlocks.length > 0);
+
+    return {
+      ...describeHint(hint, unlock),
+      requiredTier: access.requiredTier,
+      availableAt: access.hasTier ? access.availableAt : null,
+      canUnlock: !unlock && !solved && access.available && earlierUnlocked
+    };
+  });
+
+  return {
+    clueId: clue.id,
+    hints,
+    balance: await getHintBalance(participant.id, enrollment)
+  };
+};
+
+// Unlock the next hint for a clue the participant is working on. Free credits from the tier
+// are spent first, then invite credits, then purchased ones.
+export const unlockHint = async (
+  participant: Pick<Participant, 'id' | 'userId'>,
+  hintId: string,
+  context: SessionContext
+) => {
+  const hint = await prisma.hint.findUnique({
+    where: { id: hintId },
+    include: { clue: true }
+  });
+
+  if (!hint) {
+    throw new AppError('Hint not found', 404);
+  }
+
+  const enrollment = await getPlayableEnrollment(participant, hint.clue.huntId);
+  const tier = getEnrollmentTier(enrollment);
+  const { openedAt, solved } = await getClueState(hint.clue, enrollment.hunt, participant.id, tier);
+
+  if (!openedAt) {
+    throw new AppError('You have not reached this clue yet', 403);
+  }
+
+  if (solved) {
+    throw new AppError('You have already solved this clue', 409);
+  }
+
+  const access = evaluateHintAccess(await getContentAccessRule('HINT'), hint, openedAt, tier);
+
+  if (!access.hasTier) {
+    throw new AppError(`This hint requires the ${access.requiredTier} tier or higher`, 403);
+  }
+
+  if (!access.available) {
+    throw new AppError(`This hint unlocks at ${access.availableAt.toISOString()}`, 403);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // One unlock at a time per participant, so the same credits can't be spent twice
+    await tx.$executeRaw`SELECT id FROM participants WHERE id = ${participant.id} FOR UPDATE`;
+
+    const existing = await tx.hintUnlock.findUnique({
+      where: { hintId_participantId: { hintId: hint.id, participantId: participant.id } }
+    });
+
+    if (existing) {
+      throw new AppError('You have already unlocked this hint', 409);
+    }
+
+    const earlierLocked = await tx.hint.count({
+      where: {
+        clueId: hint.clueId,
+        position: { lt: hint.position },
+        unlocks: { none: { participantId: participant.id } }
+      }
+    });
+
+    if (earlierLocked > 0) {
+      throw new AppError('Unlock the earlier hints for this clue first', 409);
+    }
+
+    const balance = await getHintBalance(participant.id, enrollment, tx);
+
+    let cost = hint.creditCost;
+    const allowanceSpent = Math.min(cost, balance.freeCredits);
+    cost -= allowanceSpent;
+    const inviteCreditsSpent = Math.min(cost, balance.inviteCredits);
+    cost -= inviteCreditsSpent;
+    const purchasedCreditsSpent = Math.min(cost, balance.purchasedCredits);
+    cost -= purchasedCreditsSpent;
+
+    if (cost > 0) {
+      throw new AppError('Not enough hint credits. Buy a hint pack to unlock more hints.', 402);
+    }
+
+    if (inviteCreditsSpent > 0) {
+      await redeemHintCredits(tx, participant.id, inviteCreditsSpent);
+    }
+
+    const unlock = await tx.hintUnlock.create({
+      data: {
+        hintId: hint.id,
+        participantId: participant.id,
+        huntId: enrollment.huntId,
+        penaltyPoints: hint.penaltyPoints,
+        allowanceSpent,
+        inviteCreditsSpent,
+        purchasedCreditsSpent
+      }
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: participant.userId,
+        action: 'HINT_UNLOCK',
+        entityType: 'HINT',
+        entityId: hint.id,
+        newValues: {
+          huntId: enrollment.huntId,
+          clueId: hint.clueId,
+          penaltyPoints: hint.penaltyPoints,
+          allowanceSpent,
+          inviteCreditsSpent,
+          purchasedCreditsSpent
+        },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+
+    return {
+      hint: describeHint(hint, unlock),
+      penaltyPoints: unlock.penaltyPoints,
+      spent: { allowanceSpent, inviteCreditsSpent, purchasedCreditsSpent },
+      balance: {
+        freeCredits: balance.freeCredits - allowanceSpent,
+        inviteCredits: balance.inviteCredits - inviteCreditsSpent,
+        purchasedCredits: balance.purchasedCredits - purchasedCreditsSpent,
+        total: balance.total - hint.creditCost
+      }
+    };
+  });
+};
+
+// A hint as admins see it, with how often it's been unlocked
+export const describeHintForAdmin = (hint: Hint & { _count?: { unlocks: number } }) => ({
+  id: hint.id,
+  clueId: hint.clueId,
+  position: hint.position,
+  body: hint.body,
+  unlockAfterMinutes: hint.unlockAfterMinutes,
+  creditCost: hint.creditCost,
+  penaltyPoints: hint.penaltyPoints,
+  minimumTier: hint.minimumTier,
+  ...(hint._count && { unlocks: hint._count.unlocks }),
+  createdAt: hint.createdAt,
+  updatedAt: hint.updatedAt
+});
+
+export const getClueHint = async (clueId: string, hintId: string): Promise<Hint> => {
+  const hint = await prisma.hint.findFirst({
+    where: { id: hintId, clueId }
+  });
+
+  if (!hint) {
+    throw new AppError('Hint not found', 404);
+  }
+
+  return hint;
+};
+
+// Hints are added after the clue's last one
+export const createHint = async (clue: Clue, input: HintInput): Promise<Hint> => {
+  return prisma.$transaction(async (tx) => {
+    await lockHunt(tx, clue.huntId);
+
+    const { _max } = await tx.hint.aggregate({
+      where: { clueId: clue.id },
+      _max: { position: true }
+    });
+
+    return tx.hint.create({
+      data: {
+        ...input,
+        clueId: clue.id,
+        position: (_max.position ?? 0) + 1
+      }
+    });
+  });
+};
+
+// Changes apply to later unlocks; penalties already applied stay as they were
+export const updateHint = async (clueId: string, hintId: string, changes: Partial<HintInput>): Promise<Hint> => {
+  const hint = await getClueHint(clueId, hintId);
+
+  return prisma.hint.update({
+    where: { id: hint.id },
+    data: changes
+  });
+};
+
+// Hints participants have unlocked are kept so usage stays accounted for; edit them instead
+export const deleteHint = async (clueId: string, hintId: string): Promise<Hint> => {
+  const hint = await getClueHint(clueId, hintId);
+
+  const unlocks = await prisma.hintUnlock.count({
+    where: { hintId: hint.id }
+  });
+
+  if (unlocks > 0) {
+    throw new AppError('Hint has been unlocked by participants. Edit it instead.', 409);
+  }
+
+  return prisma.hint.delete({
+    where: { id: hint.id }
+  });
+};
+
+// Hint usage across a hunt: totals, where credits came from, hint pack sales and unlocks per hint
+export const getHintUsageReport = async (huntId: string) => {
+  const [totals, participants, byHint, hintPacks, clues] = await Promise.all([
+    prisma.hintUnlock.aggregate({
+      where: { huntId },
+      _count: true,
+      _sum: { penaltyPoints: true, allowanceSpent: true, inviteCreditsSpent: true, purchasedCreditsSpent: true }
+    }),
+    prisma.hintUnlock.groupBy({
+      by: ['participantId'],
+      where: { huntId }
+    }),
+    prisma.hintUnlock.groupBy({
+      by: ['hintId'],
+      where: { huntId },
+      _count: true,
+      _sum: { penaltyPoints: true }
+    }),
+    prisma.payment.aggregate({
+      where: { huntId, status: 'COMPLETED', hintCredits: { not: null } },
+      _count: true,
+      _sum: { amount: true, hintCredits: true }
+    }),
+    prisma.clue.findMany({
+      where: { huntId },
+      include: { hints: { orderBy: { position: 'asc' } } },
+      orderBy: { position: 'asc' }
+    })
+  ]);
+
+  return {
+    totals: {
+      unlocks: totals._count,
+      participants: participants.length,
+      penaltyPoints: totals._sum.penaltyPoints ?? 0,
+      allowanceSpent: totals._sum.allowanceSpent ?? 0,
+      inviteCreditsSpent: totals._sum.inviteCreditsSpent ?? 0,
+      purchasedCreditsSpent: totals._sum.purchasedCreditsSpent ?? 0
+    },
+    hintPacks: {
+      sold: hintPacks._count,
+      credits: hintPacks._sum.hintCredits ?? 0,
+      revenue: Number(hintPacks._sum.amount ?? 0)
+    },
+    clues: clues.map(clue => ({
+      id: clue.id,
+      position: clue.position,
+      title: clue.title,
+      isBonus: clue.isBonus,
+      hints: clue.hints.map(hint => {
+        const usage = byHint.find(entry => entry.hintId === hint.id);
+
+        return {
+          id: hint.id,
+          position: hint.position,
+          creditCost: hint.creditCost,
+          penaltyPoints: hint.penaltyPoints,
+          unlocks: usage?._count ?? 0,
+          penaltyPointsApplied: usage?._sum.penaltyPoints ?? 0
+        };
+      })
+    }))
+  };
+};
\ No newline at end of file
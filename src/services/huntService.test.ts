@@ -0,0 +1,81 @@
+import prisma from '@/config/database';
+import { createEnrollment, syncEnrollmentStatus } from '@/services/huntService';
+import { makeEnrollment, makeHunt } from '@/test/fixtures';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    $executeRaw: jest.fn(),
+    huntEnrollment: { count: jest.fn(), create: jest.fn(), updateMany: jest.fn() }
+  }
+}));
+
+const mockPrisma = jest.mocked(prisma);
+
+const hunt = makeHunt({ maxParticipants: 2 });
+
+describe('huntService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.huntEnrollment.create.mockResolvedValue(makeEnrollment());
+  });
+
+  describe('createEnrollment', () => {
+    it('gives a place while the hunt has room', async () => {
+      mockPrisma.huntEnrollment.count.mockResolvedValue(1);
+
+      await createEnrollment(prisma, hunt, 'participant-1', 'FREE', 'APPROVED');
+
+      expect(mockPrisma.$executeRaw).toHaveBeenCalled();
+      expect(mockPrisma.huntEnrollment.create).toHaveBeenCalledWith({
+        data: { huntId: 'hunt-1', participantId: 'participant-1', tier: 'FREE', status: 'APPROVED' }
+      });
+    });
+
+    it('waitlists instead of refusing once the hunt is full', async () => {
+      mockPrisma.huntEnrollment.count.mockResolvedValue(2);
+
+      await createEnrollment(prisma, hunt, 'participant-1', 'PREMIUM', 'PENDING');
+
+      expect(mockPrisma.huntEnrollment.create).toHaveBeenCalledWith({
+        data: { huntId: 'hunt-1', participantId: 'participant-1', tier: 'PREMIUM', status: 'WAITLISTED' }
+      });
+    });
+
+    it('counts only enrollments that hold a place', async () => {
+      mockPrisma.huntEnrollment.count.mockResolvedValue(0);
+
+      await createEnrollment(prisma, hunt, 'participant-1', 'FREE', 'APPROVED');
+
+      expect(mockPrisma.huntEnrollment.count).toHaveBeenCalledWith({
+        where: { huntId: 'hunt-1', status: { in: ['PENDING', 'APPROVED', 'ACTIVE'] } }
+      });
+    });
+
+    it('does not count hunts without a limit', async () => {
+      await createEnrollment(prisma, makeHunt(), 'participant-1', 'FREE', 'APPROVED');
+
+      expect(mockPrisma.huntEnrollment.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('syncEnrollmentStatus', () => {
+    it('leaves hunt waitlists alone when the participant moves on', async () => {
+      await syncEnrollmentStatus(prisma, 'participant-1', 'ACTIVE');
+
+      expect(mockPrisma.huntEnrollment.updateMany).toHaveBeenCalledWith({
+        where: { participantId: 'participant-1', status: { notIn: ['REJECTED', 'WITHDRAWN', 'WAITLISTED'] } },
+        data: { status: 'ACTIVE' }
+      });
+    });
+
+    it('takes waitlisted enrollments along when the participant leaves', async () => {
+      await syncEnrollmentStatus(prisma, 'participant-1', 'WITHDRAWN');
+
+      expect(mockPrisma.huntEnrollment.updateMany).toHaveBeenCalledWith({
+        where: { participantId: 'participant-1', status: { notIn: ['REJECTED', 'WITHDRAWN'] } },
+        data: { status: 'WITHDRAWN' }
+      });
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,224 @@
+import { Hunt, HuntEnrollment, Participant, Prisma, RegistrationStatus, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { SessionContext } from '@/services/sessionService';
+import { getHuntTierPrices } from '@/services/tierUpgradeService';
+
+// Enrollments that no longer hold a place in their hunt
+const RELEASED_STATUSES: RegistrationStatus[] = ['REJECTED', 'WITHDRAWN'];
+
+// Enrollments counted towards a hunt's `maxParticipants`
+const PLACE_HOLDING_STATUSES: RegistrationStatus[] = ['PENDING', 'APPROVED', 'ACTIVE'];
+
+// Participants who can't sign up for further hunts
+const ENROLLMENT_BLOCKED_STATUSES: RegistrationStatus[] = ['REJECTED', 'WITHDRAWN', 'SUSPENDED'];
+
+type HuntSchedule = Pick<Hunt, 'startsAt' | 'endsAt' | 'registrationOpensAt' | 'registrationClosesAt'>;
+
+// Registration has to open before it closes, and close by the time the hunt ends
+export const assertValidHuntSchedule = (schedule: HuntSchedule): void => {
+  if (schedule.endsAt <= schedule.startsAt) {
+    throw new AppError('Hunt must end after it starts', 400);
+  }
+
+  if (schedule.registrationClosesAt <= schedule.registrationOpensAt) {
+    throw new AppError('Registration must close after it opens', 400);
+  }
+
+  if (schedule.registrationClosesAt > schedule.endsAt) {
+    throw new AppError('Registration must close before the hunt ends', 400);
+  }
+};
+
+export const isHuntRegistrationOpen = (hunt: Hunt, now: Date = new Date()): boolean => {
+  return hunt.isPublished && hunt.registrationOpensAt <= now && now < hunt.registrationClosesAt;
+};
+
+// Public view of a hunt, as listed to participants
+export const describeHunt = (hunt: Hunt) => ({
+  id: hunt.id,
+  name: hunt.name,
+  slug: hunt.slug,
+  description: hunt.description,
+  startsAt: hunt.startsAt,
+  endsAt: hunt.endsAt,
+  registrationOpensAt: hunt.registrationOpensAt,
+  registrationClosesAt: hunt.registrationClosesAt,
+  registrationOpen: isHuntRegistrationOpen(hunt),
+  maxParticipants: hunt.maxParticipants,
+  tierPrices: getHuntTierPrices(hunt)
+});
+
+export const getPublishedHunt = async (slug: string): Promise<Hunt> => {
+  const hunt = await prisma.hunt.findUnique({
+    where: { slug }
+  });
+
+  if (!hunt || !hunt.isPublished) {
+    throw new AppError('Hunt not found', 404);
+  }
+
+  return hunt;
+};
+
+// The hunt registrations go to when none is named: the earliest one taking sign-ups now
+export const getCurrentHunt = async (): Promise<Hunt | null> => {
+  const now = new Date();
+
+  return prisma.hunt.findFirst({
+    where: {
+      isPublished: true,
+      registrationOpensAt: { lte: now },
+      registrationClosesAt: { gt: now }
+    },
+    orderBy: { startsAt: 'asc' }
+  });
+};
+
+// The hunt a registration is for, which must be taking sign-ups
+export const resolveRegistrationHunt = async (slug?: string): Promise<Hunt> => {
+  const hunt = slug ? await getPublishedHunt(slug) : await getCurrentHunt();
+
+  if (!hunt) {
+    throw new AppError('No hunt is open for registration', 403);
+  }
+
+  if (!isHuntRegistrationOpen(hunt)) {
+    throw new AppError(`Registration for ${hunt.name} is closed`, 403);
+  }
+
+  return hunt;
+};
+
+// A participant's enrollment in a hunt, or their most recent one when no hunt is named
+export const getParticipantEnrollment = async (participantId: string, huntId?: string) => {
+  const enrollment = await prisma.huntEnrollment.findFirst({
+    where: { participantId, ...(huntId && { huntId }) },
+    include: { hunt: true },
+    orderBy: { createdAt: 'desc' }
+  });
+
+  if (!enrollment) {
+    throw new AppError(huntId ? 'You are not registered for this hunt' : 'You are not registered for a hunt', 404);
+  }
+
+  return enrollment;
+};
+
+// Serialize changes to a hunt's enrollments or clues. Held until the transaction commits.
+export const lockHunt = async (tx: Prisma.TransactionClient, huntId: string): Promise<void> => {
+  await tx.$executeRaw`SELECT id FROM hunts WHERE id = ${huntId} FOR UPDATE`;
+};
+
+// Places taken in a hunt; waitlisted and released enrollments don't hold one
+export const countHuntPlaces = async (
+  huntId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  return client.huntEnrollment.count({
+    where: { huntId, status: { in: PLACE_HOLDING_STATUSES } }
+  });
+};
+
+// Whether a hunt has a free place. Call inside a transaction; the hunt stays locked until it commits.
+export const hasHuntCapacity = async (
+  tx: Prisma.TransactionClient,
+  hunt: Pick<Hunt, 'id' | 'maxParticipants'>
+): Promise<boolean> => {
+  await lockHunt(tx, hunt.id);
+
+  return hunt.maxParticipants === null || await countHuntPlaces(hunt.id, tx) < hunt.maxParticipants;
+};
+
+// Add a participant to a hunt. Once the hunt is full they join its waitlist instead.
+// Call inside a transaction.
+export const createEnrollment = async (
+  tx: Prisma.TransactionClient,
+  hunt: Hunt,
+  participantId: string,
+  tier: TierType,
+  status: RegistrationStatus
+): Promise<HuntEnrollment> => {
+  // Concurrent sign-ups can't overfill the hunt
+  const isWaitlisted = status === 'WAITLISTED' || !await hasHuntCapacity(tx, hunt);
+
+  return tx.huntEnrollment.create({
+    data: { huntId: hunt.id, participantId, tier, status: isWaitlisted ? 'WAITLISTED' : status }
+  });
+};
+
+// Mirror an account-level status change onto the participant's enrollments that still
+// hold a place, optionally only those currently in one of `onlyFrom`. Enrollments on a
+// hunt's waitlist only follow the participant out (rejection, withdrawal); they move up
+// through `promoteFromWaitlist`.
+export const syncEnrollmentStatus = async (
+  tx: Prisma.TransactionClient,
+  participantId: string,
+  status: RegistrationStatus,
+  onlyFrom?: RegistrationStatus[]
+): Promise<void> => {
+  const skipped: RegistrationStatus[] = RELEASED_STATUSES.includes(status)
+    ? RELEASED_STATUSES
+    : [...RELEASED_STATUSES, 'WAITLISTED'];
+
+  await tx.huntEnrollment.updateMany({
+    where: {
+      participantId,
+      status: onlyFrom ? { in: onlyFrom } : { notIn: skipped }
+    },
+    data: { status }
+  });
+};
+
+// Sign an existing participant up for another hunt
+export const enrollInHunt = async (
+  participant: Pick<Participant, 'id' | 'userId' | 'status' | 'flaggedForReview'>,
+  slug: string,
+  tier: TierType,
+  context: SessionContext
+): Promise<HuntEnrollment> => {
+  if (ENROLLMENT_BLOCKED_STATUSES.includes(participant.status)) {
+    throw new AppError('Your account cannot join new hunts', 403);
+  }
+
+  const hunt = await resolveRegistrationHunt(slug);
+
+  const existing = await prisma.huntEnrollment.findUnique({
+    where: { huntId_participantId: { huntId: hunt.id, participantId: participant.id } }
+  });
+
+  if (existing) {
+    throw new AppError(`You are already registered for ${hunt.name}`, 409);
+  }
+
+  // Same starting status as a new registration; the site-wide and hunt waitlists still apply
+  const status: RegistrationStatus = participant.status === 'WAITLISTED'
+    ? 'WAITLISTED'
+    : tier === 'FREE' && !participant.flaggedForReview ? 'APPROVED' : 'PENDING';
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const enrollment = await createEnrollment(tx, hunt, participant.id, tier, status);
+
+      await tx.auditLog.create({
+        data: {
+          userId: participant.userId,
+          action: 'HUNT_ENROLL',
+          entityType: 'HUNT',
+          entityId: hunt.id,
+          newValues: { participantId: participant.id, tier, status: enrollment.status },
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        }
+      });
+
+      return enrollment;
+    });
+  } catch (error) {
+    // Two enrollment requests for the same hunt at once
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new AppError(`You are already registered for ${hunt.name}`, 409);
+    }
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,149 @@
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { SessionContext } from '@/services/sessionService';
+import { signPurposeToken } from '@/utils/tokens';
+
+// Impersonation tokens are access-only (no refresh) and expire quickly
+const IMPERSONATION_EXPIRES_IN = '15m';
+const IMPERSONATION_TTL_MS = 15 * 60 * 1000;
+
+export interface ImpersonationClaims {
+  id: string; // Target user
+  impersonatorId: string;
+  iid: string; // Impersonation record
+  iat?: number;
+}
+
+// Start viewing the app as `targetUserId`. Admin accounts can't be impersonated,
+// so an impersonation token never reaches admin routes.
+export const startImpersonation = async (
+  adminId: string,
+  targetUserId: string,
+  reason: string,
+  context: SessionContext
+) => {
+  if (adminId === targetUserId) {
+    throw new AppError('You cannot impersonate yourself', 400);
+  }
+
+  const targetUser = await prisma.user.findUnique({
+    where: { id: targetUserId },
+    select: { id: true, email: true, role: true, firstName: true, lastName: true }
+  });
+
+  if (!targetUser) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (targetUser.role === 'ADMIN') {
+    throw new AppError('Admin accounts cannot be impersonated', 403);
+  }
+
+  const impersonation = await prisma.impersonation.create({
+    data: {
+      adminId,
+      targetUserId,
+      reason,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt: new Date(Date.now() + IMPERSONATION_TTL_MS)
+    }
+  });
+
+  const accessToken = signPurposeToken(
+    { id: targetUser.id, impersonatorId: adminId, iid: impersonation.id },
+    'impersonation',
+    IMPERSONATION_EXPIRES_IN
+  );
+
+  await prisma.auditLog.create({
+    data: {
+      userId: adminId,
+      action: 'IMPERSONATION_STARTED',
+      entityType: 'USER',
+      entityId: targetUser.id,
+      newValues: { impersonationId: impersonation.id, reason, expiresAt: impersonation.expiresAt.toISOString() },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  });
+
+  return { impersonation, targetUser, accessToken };
+};
+
+// Whether the token's impersonation is still running and still permitted
+export const isImpersonationActive = async (claims: ImpersonationClaims): Promise<boolean> => {
+  const impersonation = await prisma.impersonation.findUnique({
+    where: { id: claims.iid },
+    include: {
+      admin: { select: { role: true, sessionsRevokedAt: true } }
+    }
+  });
+
+  if (!impersonation
+    || impersonation.endedAt
+    || impersonation.expiresAt <= new Date()
+    || impersonation.adminId !== claims.impersonatorId
+    || impersonation.targetUserId !== claims.id) {
+    return false;
+  }
+
+  // Demoting the admin or revoking their sessions also ends their impersonations
+  const { admin } = impersonation;
+  return admin.role === 'ADMIN'
+    && (!admin.sessionsRevokedAt || admin.sessionsRevokedAt < impersonation.createdAt);
+};
+
+export const endImpersonation = async (
+  impersonationId: string,
+  endedBy: string,
+  reason: string,
+  context: SessionContext
+): Promise<boolean> => {
+  const { count } = await prisma.impersonation.updateMany({
+    where: { id: impersonationId, endedAt: null },
+    data: { endedAt: new Date(), endedReason: reason }
+  });
+
+  if (count === 0) {
+    return false;
+  }
+
+  const impersonation = await prisma.impersonation.findUniqueOrThrow({
+    where: { id: impersonationId }
+  });
+
+  await prisma.auditLog.create({
+    data: {
+      userId: endedBy,
+      action: 'IMPERSONATION_ENDED',
+      entityType: 'USER',
+      entityId: impersonation.targetUserId,
+      newValues: { impersonationId, adminId: impersonation.adminId, reason },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  });
+
+  return true;
+};
+
+// One audit entry per request made with an impersonation token
+export const recordImpersonatedRequest = async (
+  claims: ImpersonationClaims,
+  request: { method: string; path: string; statusCode: number },
+  context: SessionContext
+): Promise<void> => {
+  await prisma.auditLog.create({
+    data: {
+      userId: claims.id,
+      impersonatorId: claims.impersonatorId,
+      action: 'IMPERSONATED_REQUEST',
+      entityType: 'IMPERSONATION',
+      entityId: claims.iid,
+      newValues: request,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  });
+};
\ No newline at end of file
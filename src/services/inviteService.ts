@@ -0,0 +1,246 @@
+import { InviteReward, InviteRewardType, Participant, Prisma, RegistrationStatus } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { getInviteRewardSettings, InviteRewardGrant } from '@/services/configService';
+import { generateSecureToken } from '@/utils/tokens';
+import { buildFrontendUrl } from '@/utils/urls';
+
+// Stripe won't charge less than this, so discounts always leave at least this much to pay
+const MIN_CHARGE = 0.5;
+
+// Inviters whose registration didn't go through can't bring in friends
+const INVITE_INELIGIBLE_STATUSES: RegistrationStatus[] = ['REJECTED', 'WITHDRAWN'];
+
+export const generateParticipantInviteCode = async (client: Prisma.TransactionClient = prisma): Promise<string> => {
+  let code: string;
+  let exists = true;
+
+  while (exists) {
+    code = 'INV' + generateSecureToken(4).toUpperCase();
+    const existing = await client.participant.findUnique({
+      where: { inviteCode: code }
+    });
+    exists = !!existing;
+  }
+
+  return code!;
+};
+
+export const buildParticipantInviteLink = (inviteCode: string): string => {
+  return buildFrontendUrl('/register', { invite: inviteCode });
+};
+
+// Participants registered before invite codes existed get one on first use
+export const ensureInviteCode = async (participant: Pick<Participant, 'id' | 'inviteCode'>): Promise<string> => {
+  if (participant.inviteCode) {
+    return participant.inviteCode;
+  }
+
+  const updated = await prisma.participant.update({
+    where: { id: participant.id },
+    data: { inviteCode: await generateParticipantInviteCode() }
+  });
+
+  return updated.inviteCode!;
+};
+
+// The participant behind an invite code typed at registration
+export const findInviter = async (inviteCode: string): Promise<Participant> => {
+  const inviter = await prisma.participant.findUnique({
+    where: { inviteCode: inviteCode.trim().toUpperCase() }
+  });
+
+  if (!inviter || INVITE_INELIGIBLE_STATUSES.includes(inviter.status)) {
+    throw new AppError('Invalid invite code', 400);
+  }
+
+  return inviter;
+};
+
+const createRewards = async (
+  tx: Prisma.TransactionClient,
+  participantId: string,
+  inviteeId: string,
+  grants: InviteRewardGrant[]
+): Promise<void> => {
+  if (grants.length === 0) {
+    return;
+  }
+
+  await tx.inviteReward.createMany({
+    data: grants.map(grant => ({ participantId, inviteeId, type: grant.type, amount: grant.amount })),
+    skipDuplicates: true
+  });
+};
+
+// Grant the configured rewards for an invite once `trigger` happens. Safe to call
+// more than once: each reward is granted at most once per invite.
+export const grantInviteRewards = async (
+  tx: Prisma.TransactionClient,
+  invitee: Pick<Participant, 'id' | 'invitedById' | 'flaggedForReview'>,
+  trigger: 'REGISTRATION' | 'FIRST_PAYMENT'
+): Promise<void> => {
+  if (!invitee.invitedById) {
+    return;
+  }
+
+  const settings = await getInviteRewardSettings();
+
+  // Registrations held for fraud review don't earn anything
+  if (!settings.enabled || settings.grantOn !== trigger || invitee.flaggedForReview) {
+    return;
+  }
+
+  const rewardedInvites = await tx.inviteReward.groupBy({
+    by: ['inviteeId'],
+    where: { participantId: invitee.invitedById, inviteeId: { not: invitee.id } }
+  });
+
+  if (rewardedInvites.length < settings.maxRewardedInvites) {
+    await createRewards(tx, invitee.invitedById, invitee.id, settings.inviterRewards);
+  }
+
+  await createRewards(tx, invitee.id, invitee.id, settings.inviteeRewards);
+};
+
+// Unredeemed rewards of a type, e.g. hint credits or leaderboard points still to use
+export const getAvailableRewardTotal = async (
+  participantId: string,
+  type: InviteRewardType,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> => {
+  const { _sum } = await client.inviteReward.aggregate({
+    where: { participantId, type, redeemedAt: null },
+    _sum: { amount: true, redeemedAmount: true }
+  });
+
+  return (_sum.amount ?? 0) - (_sum.redeemedAmount ?? 0);
+};
+
+// Tier discounts to apply to a checkout of `amountDue`, oldest first, always leaving
+// something to charge. Rewards are only marked redeemed once the payment completes.
+export const getApplicableTierDiscount = async (
+  participantId: string,
+  amountDue: number
+): Promise<{ amount: number; rewards: InviteReward[] }> => {
+  const available = await prisma.inviteReward.findMany({
+    where: { participantId, type: 'TIER_DISCOUNT', redeemedAt: null },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  const rewards: InviteReward[] = [];
+  let amount = 0;
+
+  for (const reward of available) {
+    if (amountDue - amount - reward.amount < MIN_CHARGE) {
+      continue;
+    }
+
+    rewards.push(reward);
+    amount += reward.amount;
+  }
+
+  return { amount, rewards };
+};
+
+// Mark the tier discounts used by a completed payment. Returns how many were still unredeemed.
+export const redeemTierDiscounts = async (
+  tx: Prisma.TransactionClient,
+  rewardIds: string[],
+  paymentId: string
+): Promise<number> => {
+  if (rewardIds.length === 0) {
+    return 0;
+  }
+
+  const { count } = await tx.inviteReward.updateMany({
+    where: { id: { in: rewardIds }, type: 'TIER_DISCOUNT', redeemedAt: null },
+    data: { redeemedAt: new Date(), paymentId }
+  });
+
+  return count;
+};
+
+// Spend hint credits from invite rewards, oldest first. A reward is marked redeemed once
+// all of its credits are used. Call after checking enough are available.
+export const redeemHintCredits = async (
+  tx: Prisma.TransactionClient,
+  participantId: string,
+  credits: number
+): Promise<void> => {
+  const rewards = await tx.inviteReward.findMany({
+    where: { participantId, type: 'HINT_CREDITS', redeemedAt: null },
+    orderBy: { createdAt: 'asc' }
+  });
+
+  let remaining = credits;
+
+  for (const reward of rewards) {
+    if (remaining <= 0) {
+      break;
+    }
+
+    const used = Math.min(remaining, reward.amount - reward.redeemedAmount);
+    const redeemedAmount = reward.redeemedAmount + used;
+
+    await tx.inviteReward.update({
+      where: { id: reward.id },
+      data: {
+        redeemedAmount,
+        ...(redeemedAmount >= reward.amount && { redeemedAt: new Date() })
+      }
+    });
+
+    remaining -= used;
+  }
+};
+
+// Invites section of the participant stats
+export const getInviteStats = async (participant: Pick<Participant, 'id' | 'inviteCode'>) => {
+  const inviteCode = await ensureInviteCode(participant);
+
+  const [invitees, rewards, available] = await Promise.all([
+    prisma.participant.findMany({
+      where: { invitedById: participant.id },
+      select: {
+        tier: true,
+        status: true,
+        createdAt: true,
+        user: { select: { firstName: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    }),
+    prisma.inviteReward.groupBy({
+      by: ['type'],
+      where: { participantId: participant.id },
+      _sum: { amount: true }
+    }),
+    prisma.inviteReward.groupBy({
+      by: ['type'],
+      where: { participantId: participant.id, redeemedAt: null },
+      _sum: { amount: true, redeemedAmount: true }
+    })
+  ]);
+
+  return {
+    inviteCode,
+    inviteLink: buildParticipantInviteLink(inviteCode),
+    totalInvited: invitees.length,
+    paidInvites: invitees.filter(invitee => invitee.tier !== 'FREE' && invitee.status === 'ACTIVE').length,
+    rewards: rewards.map(reward => {
+      const unredeemed = available.find(entry => entry.type === reward.type)?._sum;
+
+      return {
+        type: reward.type,
+        earned: reward._sum.amount ?? 0,
+        available: (unredeemed?.amount ?? 0) - (unredeemed?.redeemedAmount ?? 0)
+      };
+    }),
+    invitees: invitees.map(invitee => ({
+      firstName: invitee.user.firstName,
+      tier: invitee.tier,
+      status: invitee.status,
+      joinedAt: invitee.createdAt
+    }))
+  };
+};
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { User } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { sendAccountLockedEmail } from '@/services/emailService';
+import { SessionContext } from '@/services/sessionService';
+import { buildFrontendUrl } from '@/utils/urls';
+
+// Failures allowed before each attempt must wait an increasing delay
+const FREE_ATTEMPTS = 3;
+const MAX_DELAY_SECONDS = 30;
+const MAX_FAILED_ATTEMPTS = parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '10');
+const LOCKOUT_MINUTES = parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15');
+
+type ProtectedUser = Pick<User, 'id' | 'email' | 'firstName' | 'failedLoginAttempts' | 'lastFailedLoginAt' | 'lockedUntil'>;
+
+// Seconds an account must wait after its latest failure: 1s, 2s, 4s ... capped
+const getRequiredDelaySeconds = (failedAttempts: number): number => {
+  if (failedAttempts < FREE_ATTEMPTS) {
+    return 0;
+  }
+
+  return Math.min(2 ** (failedAttempts - FREE_ATTEMPTS), MAX_DELAY_SECONDS);
+};
+
+// Refuse the attempt while the account is locked or still inside its delay window
+export const assertLoginAllowed = (user: ProtectedUser): void => {
+  const now = Date.now();
+
+  if (user.lockedUntil && user.lockedUntil.getTime() > now) {
+    const minutes = Math.ceil((user.lockedUntil.getTime() - now) / 60000);
+    throw new AppError(`Account temporarily locked due to failed login attempts. Try again in ${minutes} minute(s).`, 423);
+  }
+
+  const delaySeconds = getRequiredDelaySeconds(user.failedLoginAttempts);
+  if (delaySeconds > 0 && user.lastFailedLoginAt) {
+    const retryAt = user.lastFailedLoginAt.getTime() + delaySeconds * 1000;
+    if (retryAt > now) {
+      throw new AppError(`Too many failed attempts. Please wait ${Math.ceil((retryAt - now) / 1000)} second(s) before trying again.`, 429);
+    }
+  }
+};
+
+// Count a failed password or 2FA attempt, locking the account once the limit is hit
+export const recordFailedLogin = async (
+  user: ProtectedUser,
+  context: SessionContext,
+  reason: string
+): Promise<void> => {
+  // Increment atomically so parallel attempts can't slip under the limit
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: { increment: 1 },
+      lastFailedLoginAt: new Date()
+    },
+    select: { failedLoginAttempts: true }
+  });
+
+  const lockedUntil = failedLoginAttempts >= MAX_FAILED_ATTEMPTS
+    ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000)
+    : null;
+
+  if (lockedUntil) {
+    // The count restarts once locked, so the lock itself is the penalty
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginAttempts: 0, lockedUntil }
+    });
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'USER_LOGIN_FAILED',
+      entityType: 'USER',
+      entityId: user.id,
+      newValues: { reason, failedLoginAttempts },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  });
+
+  if (!lockedUntil) {
+    return;
+  }
+
+  await prisma.auditLog.create({
+    data: {
+      userId: user.id,
+      action: 'ACCOUNT_LOCKED',
+      entityType: 'USER',
+      entityId: user.id,
+      newValues: { lockedUntil: lockedUntil.toISOString(), failedLoginAttempts },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  });
+
+  try {
+    await sendAccountLockedEmail(
+      user.email,
+      user.firstName || 'there',
+      lockedUntil,
+      buildFrontendUrl('/forgot-password')
+    );
+  } catch (emailError) {
+    console.error('Failed to send account locked email:', emailError);
+  }
+};
+
+// Failed attempt against an email with no account, logged for stuffing analysis
+export const recordUnknownAccountLogin = async (email: string, context: SessionContext): Promise<void> => {
+  await prisma.auditLog.create({
+    data: {
+      action: 'USER_LOGIN_FAILED',
+      entityType: 'USER',
+      entityId: 'UNKNOWN',
+      newValues: { reason: 'UNKNOWN_ACCOUNT', email },
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  });
+};
+
+export const resetFailedLogins = async (user: Pick<User, 'id' | 'failedLoginAttempts' | 'lockedUntil'>): Promise<void> => {
+  if (user.failedLoginAttempts === 0 && !user.lockedUntil) {
+    return;
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null
+    }
+  });
+};
\ No newline at end of file
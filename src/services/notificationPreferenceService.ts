@@ -0,0 +1,189 @@
+import { NotificationPreference, Prisma } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { SessionContext } from '@/services/sessionService';
+import { signPurposeToken, verifyPurposeToken } from '@/utils/tokens';
+import { buildApiUrl, buildFrontendUrl } from '@/utils/urls';
+
+// Kinds of email a user can opt out of. Anything sent without a category is
+// transactional (sign-in, security, registration status) and always delivered.
+export const NOTIFICATION_CATEGORIES = ['MARKETING', 'HUNT_ANNOUNCEMENTS', 'PAYMENT_RECEIPTS', 'PROMOTER_DIGESTS'] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+
+type PreferenceField = 'marketing' | 'huntAnnouncements' | 'paymentReceipts' | 'promoterDigests';
+
+export type NotificationPreferences = Pick<NotificationPreference, PreferenceField>;
+
+const CATEGORY_FIELDS: Record<NotificationCategory, PreferenceField> = {
+  MARKETING: 'marketing',
+  HUNT_ANNOUNCEMENTS: 'huntAnnouncements',
+  PAYMENT_RECEIPTS: 'paymentReceipts',
+  PROMOTER_DIGESTS: 'promoterDigests'
+};
+
+// Unsubscribe links sit in old emails, so they stay valid for a long time
+const UNSUBSCRIBE_TOKEN_EXPIRES_IN = '365d';
+
+const DEFAULT_PREFERENCES: NotificationPreferences = {
+  marketing: false,
+  huntAnnouncements: true,
+  paymentReceipts: true,
+  promoterDigests: true
+};
+
+const toPreferences = (preference: NotificationPreferences): NotificationPreferences => ({
+  marketing: preference.marketing,
+  huntAnnouncements: preference.huntAnnouncements,
+  paymentReceipts: preference.paymentReceipts,
+  promoterDigests: preference.promoterDigests
+});
+
+// Participants who registered before preferences existed only have the
+// `subscribeMailing` checkbox in their registration data
+const getLegacyMarketingConsent = async (userId: string): Promise<boolean> => {
+  const participant = await prisma.participant.findUnique({
+    where: { userId },
+    select: { registrationData: true }
+  });
+
+  const registrationData = participant?.registrationData as Prisma.JsonObject | null | undefined;
+
+  return registrationData?.subscribeMailing === true;
+};
+
+export const getNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const preference = await prisma.notificationPreference.findUnique({
+    where: { userId }
+  });
+
+  if (preference) {
+    return toPreferences(preference);
+  }
+
+  return {
+    ...DEFAULT_PREFERENCES,
+    marketing: await getLegacyMarketingConsent(userId)
+  };
+};
+
+export const updateNotificationPreferences = async (
+  userId: string,
+  changes: Partial<NotificationPreferences>,
+  client: Prisma.TransactionClient = prisma
+): Promise<NotificationPreferences> => {
+  const current = await getNotificationPreferences(userId);
+
+  const preference = await client.notificationPreference.upsert({
+    where: { userId },
+    update: changes,
+    create: { userId, ...current, ...changes }
+  });
+
+  return toPreferences(preference);
+};
+
+// Whether email of this category may be sent to the address. Addresses that
+// don't belong to an account (e.g. the admin inbox) are always allowed.
+export const isSubscribed = async (email: string, category: NotificationCategory): Promise<boolean> => {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true }
+  });
+
+  if (!user) {
+    return true;
+  }
+
+  const preferences = await getNotificationPreferences(user.id);
+
+  return preferences[CATEGORY_FIELDS[category]];
+};
+
+// Unsubscribe links for one recipient: the page linked from the email footer, and
+// the RFC 8058 one-click URL mail clients POST to from the List-Unsubscribe header
+export const buildUnsubscribeLinks = async (
+  email: string,
+  category: NotificationCategory
+): Promise<{ pageUrl: string; oneClickUrl: string } | null> => {
+  const user = await prisma.user.findUnique({
+    where: { email },
+    select: { id: true }
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const token = signPurposeToken({ sub: user.id, category }, 'unsubscribe', UNSUBSCRIBE_TOKEN_EXPIRES_IN);
+
+  return {
+    pageUrl: buildFrontendUrl('/unsubscribe', { token }),
+    oneClickUrl: buildApiUrl('/api/unsubscribe', { token })
+  };
+};
+
+const verifyUnsubscribeToken = (token: string): { userId: string; category: NotificationCategory } => {
+  try {
+    const { sub, category } = verifyPurposeToken<{ sub: string; category: NotificationCategory }>(token, 'unsubscribe');
+
+    if (!NOTIFICATION_CATEGORIES.includes(category)) {
+      throw new jwt.JsonWebTokenError('Unknown category');
+    }
+
+    return { userId: sub, category };
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new AppError('Unsubscribe link is invalid or has expired', 400);
+    }
+    throw error;
+  }
+};
+
+// What an unsubscribe link covers, for the confirmation page
+export const describeUnsubscribeLink = async (token: string) => {
+  const { userId, category } = verifyUnsubscribeToken(token);
+  const preferences = await getNotificationPreferences(userId);
+
+  return {
+    category,
+    subscribed: preferences[CATEGORY_FIELDS[category]]
+  };
+};
+
+// Opt out of the category an unsubscribe link was sent for. No sign-in needed; the signed token is the proof.
+export const unsubscribeWithToken = async (
+  token: string,
+  context: SessionContext
+): Promise<NotificationCategory> => {
+  const { userId, category } = verifyUnsubscribeToken(token);
+  const field = CATEGORY_FIELDS[category];
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true }
+  });
+
+  if (!user) {
+    throw new AppError('Unsubscribe link is invalid or has expired', 400);
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await updateNotificationPreferences(userId, { [field]: false }, tx);
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'EMAIL_UNSUBSCRIBE',
+        entityType: 'USER',
+        entityId: userId,
+        newValues: { category },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+  });
+
+  return category;
+};
\ No newline at end of file
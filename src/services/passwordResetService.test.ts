@@ -0,0 +1,93 @@
+import bcrypt from 'bcryptjs';
+import prisma from '@/config/database';
+import { sendPasswordResetEmail } from '@/services/emailService';
+import { requestPasswordReset, resetPassword } from '@/services/passwordResetService';
+import { revokeAllSessions } from '@/services/sessionService';
+import { makeUser } from '@/test/fixtures';
+import { hashToken } from '@/utils/tokens';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    user: {
+      update: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn()
+    }
+  }
+}));
+
+jest.mock('@/services/emailService', () => ({
+  sendPasswordResetEmail: jest.fn()
+}));
+
+jest.mock('@/services/sessionService', () => ({
+  revokeAllSessions: jest.fn()
+}));
+
+const mockPrisma = jest.mocked(prisma);
+
+const user = makeUser();
+
+describe('passwordResetService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('requestPasswordReset', () => {
+    it('stores only the hash of the token it emails, expiring within the hour', async () => {
+      await requestPasswordReset(user);
+
+      const link = jest.mocked(sendPasswordResetEmail).mock.calls[0][2];
+      const token = new URL(link).searchParams.get('token');
+
+      expect(token).toBeTruthy();
+      expect(mockPrisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { resetToken: hashToken(token!), resetExpires: expect.any(Date) }
+      });
+
+      const { resetExpires } = mockPrisma.user.update.mock.calls[0][0].data;
+      expect(resetExpires).toBeInstanceOf(Date);
+      expect((resetExpires as Date).getTime() - Date.now()).toBeGreaterThan(59 * 60 * 1000);
+      expect((resetExpires as Date).getTime() - Date.now()).toBeLessThanOrEqual(60 * 60 * 1000);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('consumes the token only if it is still outstanding, and signs out existing sessions', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(user);
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await resetPassword('reset-token', 'new-password');
+
+      const { where, data } = mockPrisma.user.updateMany.mock.calls[0][0];
+      expect(where).toMatchObject({ id: 'user-1', resetToken: hashToken('reset-token'), resetExpires: { gt: expect.any(Date) } });
+      expect(data).toMatchObject({ resetToken: null, resetExpires: null, lockedUntil: null, failedLoginAttempts: 0 });
+      await expect(bcrypt.compare('new-password', data.password as string)).resolves.toBe(true);
+      expect(revokeAllSessions).toHaveBeenCalledWith('user-1', 'PASSWORD_RESET');
+    });
+
+    it('refuses a token already consumed by a concurrent reset', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(user);
+      mockPrisma.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(resetPassword('reset-token', 'new-password')).rejects.toMatchObject({ statusCode: 400 });
+      expect(revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('refuses unknown or expired tokens', async () => {
+      mockPrisma.user.findFirst.mockResolvedValue(null);
+
+      await expect(resetPassword('reset-token', 'new-password')).rejects.toThrow('Invalid or expired reset link');
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it.each([null, 'TEMP_PASSWORD'])('refuses unclaimed accounts (password %p)', async (password) => {
+      mockPrisma.user.findFirst.mockResolvedValue(makeUser({ password }));
+
+      await expect(resetPassword('reset-token', 'new-password')).rejects.toThrow('Invalid or expired reset link');
+      expect(mockPrisma.user.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
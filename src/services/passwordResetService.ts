@@ -0,0 +1,77 @@
+import { User } from '@prisma/client';
+import bcrypt from 'bcryptjs';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { isAccountClaimed } from '@/services/accountClaimService';
+import { sendPasswordResetEmail } from '@/services/emailService';
+import { revokeAllSessions } from '@/services/sessionService';
+import { generateSecureToken, hashToken } from '@/utils/tokens';
+import { buildFrontendUrl } from '@/utils/urls';
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Issue a single-use reset token and email the link. Only the hash is stored;
+// a new request replaces any outstanding token.
+export const requestPasswordReset = async (user: Pick<User, 'id' | 'email' | 'firstName'>): Promise<void> => {
+  const token = generateSecureToken();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      resetToken: hashToken(token),
+      resetExpires: new Date(Date.now() + RESET_TOKEN_TTL_MS)
+    }
+  });
+
+  await sendPasswordResetEmail(
+    user.email,
+    user.firstName || 'there',
+    buildFrontendUrl('/reset-password', { token })
+  );
+};
+
+// Consume a reset token, set the new password and invalidate existing tokens.
+// Unclaimed accounts set their first password through the claim link instead.
+export const resetPassword = async (token: string, newPassword: string) => {
+  const resetToken = hashToken(token);
+
+  const user = await prisma.user.findFirst({
+    where: {
+      resetToken,
+      resetExpires: { gt: new Date() }
+    }
+  });
+
+  if (!user || !isAccountClaimed(user)) {
+    throw new AppError('Invalid or expired reset link', 400);
+  }
+
+  const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+  // Tokens are single use; a concurrent reset with the same token finds nothing to update
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: user.id,
+      resetToken,
+      resetExpires: { gt: new Date() }
+    },
+    data: {
+      password: hashedPassword,
+      resetToken: null,
+      resetExpires: null,
+      // A successful reset proves ownership, so any lockout is lifted
+      failedLoginAttempts: 0,
+      lastFailedLoginAt: null,
+      lockedUntil: null
+    }
+  });
+
+  if (count !== 1) {
+    throw new AppError('Invalid or expired reset link', 400);
+  }
+
+  // Anyone holding the old credentials' tokens is signed out
+  await revokeAllSessions(user.id, 'PASSWORD_RESET');
+
+  return user;
+};
\ No newline at end of file
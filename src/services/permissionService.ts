@@ -0,0 +1,77 @@
+import { UserRole } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { hasPermission, Permission, SUPER_ADMIN_ROLE } from '@/config/permissions';
+
+// Union of the permissions of every staff role assigned to the user.
+// Only ADMIN users are staff; everyone else has no admin permissions.
+export const getUserPermissions = async (userId: string, role: UserRole): Promise<string[]> => {
+  if (role !== 'ADMIN') {
+    return [];
+  }
+
+  const staffRoles = await prisma.staffRole.findMany({
+    where: { users: { some: { id: userId } } },
+    select: { permissions: true }
+  });
+
+  return [...new Set(staffRoles.flatMap(staffRole => staffRole.permissions))];
+};
+
+export const userHasPermission = async (userId: string, role: UserRole, permission: Permission): Promise<boolean> => {
+  return hasPermission(await getUserPermissions(userId, role), permission);
+};
+
+// Replace a staff member's roles, refusing changes that would leave nobody with super_admin
+export const setStaffRoles = async (userId: string, roleIds: string[]) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: { staffRoles: true }
+  });
+
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+
+  if (user.role !== 'ADMIN') {
+    throw new AppError('Staff roles can only be assigned to admin users', 400);
+  }
+
+  const roles = await prisma.staffRole.findMany({
+    where: { id: { in: roleIds } }
+  });
+
+  if (roles.length !== new Set(roleIds).size) {
+    throw new AppError('One or more staff roles do not exist', 400);
+  }
+
+  const hadSuperAdmin = user.staffRoles.some(staffRole => staffRole.name === SUPER_ADMIN_ROLE);
+  const keepsSuperAdmin = roles.some(staffRole => staffRole.name === SUPER_ADMIN_ROLE);
+
+  if (hadSuperAdmin && !keepsSuperAdmin) {
+    const otherSuperAdmins = await prisma.user.count({
+      where: {
+        id: { not: userId },
+        role: 'ADMIN',
+        staffRoles: { some: { name: SUPER_ADMIN_ROLE } }
+      }
+    });
+
+    if (otherSuperAdmins === 0) {
+      throw new AppError('At least one user must keep the super_admin role', 400);
+    }
+  }
+
+  const updatedUser = await prisma.user.update({
+    where: { id: userId },
+    data: {
+      staffRoles: { set: roles.map(staffRole => ({ id: staffRole.id })) }
+    },
+    include: { staffRoles: true }
+  });
+
+  return {
+    previousRoles: user.staffRoles.map(staffRole => staffRole.name),
+    staffRoles: updatedUser.staffRoles
+  };
+};
\ No newline at end of file
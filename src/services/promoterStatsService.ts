@@ -0,0 +1,49 @@
+import { Promoter } from '@prisma/client';
+import prisma from '@/config/database';
+
+// Referral performance of a promoter, shared by the promoter dashboard and the partner API
+export const getPromoterStats = async (promoter: Promoter) => {
+  return {
+    status: promoter.status,
+    referralCode: promoter.referralCode,
+    totalReferrals: promoter.totalReferrals,
+    totalRevenue: promoter.totalRevenue,
+    commissionRate: promoter.commissionRate,
+    joinDate: promoter.createdAt,
+    approvedDate: promoter.approvedAt,
+    
+    // Recent performance
+    conversions: await prisma.referral.count({
+      where: { 
+        promoterId: promoter.id,
+        isConverted: true
+      }
+    }),
+    
+    pendingReferrals: await prisma.referral.count({
+      where: { 
+        promoterId: promoter.id,
+        isConverted: false
+      }
+    }),
+    
+    thisMonthReferrals: await prisma.referral.count({
+      where: {
+        promoterId: promoter.id,
+        createdAt: {
+          gte: new Date(new Date().getFullYear(), new Date().getMonth(), 1)
+        }
+      }
+    }),
+    
+    tierBreakdown: await prisma.referral.groupBy({
+      by: ['tier'],
+      where: {
+        promoterId: promoter.id,
+        isConverted: true
+      },
+      _count: true,
+      _sum: { commission: true }
+    })
+  };
+};
\ No newline at end of file
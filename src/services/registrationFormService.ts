@@ -0,0 +1,128 @@
+import { TierType } from '@prisma/client';
+import { z } from 'zod';
+import {
+  getRegistrationForm,
+  RegistrationField,
+  RegistrationForm,
+  setConfig
+} from '@/services/configService';
+
+const DEFAULT_TEXT_MAX_LENGTH = 500;
+const DEFAULT_TEXTAREA_MAX_LENGTH = 2000;
+
+// Fields a registrant of `tier` is asked; every field when no tier is given
+export const getFieldsForTier = (form: RegistrationForm, tier?: TierType): RegistrationField[] => {
+  if (!tier) {
+    return form.fields;
+  }
+
+  return form.fields.filter(field => !field.tiers?.length || field.tiers.includes(tier));
+};
+
+// Shared by every field type so a missing required answer reads the same way
+const typeErrors = (field: RegistrationField, invalidTypeError: string) => ({
+  required_error: `${field.label} is required`,
+  invalid_type_error: invalidTypeError
+});
+
+const buildTextSchema = (field: RegistrationField, defaultMaxLength: number) => {
+  const maxLength = field.maxLength ?? defaultMaxLength;
+  let schema = z.string(typeErrors(field, `${field.label} must be text`))
+    .trim()
+    .max(maxLength, `${field.label} must be at most ${maxLength} characters`);
+
+  if (field.type === 'email') {
+    schema = schema.email(`${field.label} must be a valid email address`);
+  } else if (field.type === 'url') {
+    schema = schema.url(`${field.label} must be a valid URL`);
+  } else if (field.type === 'date') {
+    schema = schema.date(`${field.label} must be a date (YYYY-MM-DD)`);
+  } else if (field.required) {
+    schema = schema.min(1, `${field.label} is required`);
+  }
+
+  return schema;
+};
+
+const buildNumberSchema = (field: RegistrationField) => {
+  let schema = z.number(typeErrors(field, `${field.label} must be a number`));
+
+  if (field.min !== undefined) {
+    schema = schema.min(field.min, `${field.label} must be at least ${field.min}`);
+  }
+
+  if (field.max !== undefined) {
+    schema = schema.max(field.max, `${field.label} must be at most ${field.max}`);
+  }
+
+  return schema;
+};
+
+const buildOptionSchema = (field: RegistrationField) => {
+  const options = field.options ?? [];
+  const message = `${field.label} must be one of: ${options.join(', ')}`;
+
+  return z.string(typeErrors(field, message)).refine(value => options.includes(value), message);
+};
+
+const buildFieldSchema = (field: RegistrationField): z.ZodTypeAny => {
+  switch (field.type) {
+    case 'text':
+    case 'email':
+    case 'url':
+    case 'date':
+      return buildTextSchema(field, DEFAULT_TEXT_MAX_LENGTH);
+    case 'textarea':
+      return buildTextSchema(field, DEFAULT_TEXTAREA_MAX_LENGTH);
+    case 'number':
+      return buildNumberSchema(field);
+    case 'select':
+      return buildOptionSchema(field);
+    case 'multiselect': {
+      const schema = z.array(buildOptionSchema(field), typeErrors(field, `${field.label} must be a list`));
+      return field.required ? schema.min(1, `${field.label} is required`) : schema;
+    }
+    case 'checkbox': {
+      const schema = z.boolean(typeErrors(field, `${field.label} must be true or false`));
+      // A required checkbox is a consent box that must be ticked
+      return field.required ? schema.refine(value => value, `${field.label} is required`) : schema;
+    }
+  }
+};
+
+// Zod schema for the answers to `fields`. Unknown keys (including fields hidden
+// from the registrant's tier) are dropped.
+export const buildRegistrationAnswersSchema = (fields: RegistrationField[]) => {
+  const shape = Object.fromEntries(fields.map(field => {
+    const schema = buildFieldSchema(field);
+
+    // Forms submit untouched optional inputs as empty strings
+    return [
+      field.key,
+      field.required ? schema : z.preprocess(value => value === '' ? undefined : value, schema.nullish())
+    ];
+  }));
+
+  return z.object(shape, { invalid_type_error: 'Registration answers must be an object' });
+};
+
+// Validate a registrant's answers against the current form. Throws a ZodError
+// that routes turn into a 400, like any other request validation failure.
+export const parseRegistrationAnswers = (
+  form: RegistrationForm,
+  tier: TierType,
+  answers: unknown
+): Record<string, unknown> => {
+  const schema = buildRegistrationAnswersSchema(getFieldsForTier(form, tier));
+  return schema.parse(answers ?? {});
+};
+
+// Replace the form's fields, bumping its version so registrations record which questions they answered
+export const saveRegistrationForm = async (fields: RegistrationField[]): Promise<RegistrationForm> => {
+  const current = await getRegistrationForm();
+
+  return setConfig('registration_form', {
+    version: current.version + 1,
+    fields
+  });
+};
\ No newline at end of file
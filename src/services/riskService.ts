@@ -0,0 +1,156 @@
+import prisma from '@/config/database';
+import { getSecuritySettings } from '@/services/configService';
+
+export const RISK_FLAGS = {
+  DISPOSABLE_EMAIL: 'DISPOSABLE_EMAIL',
+  EMAIL_ALIAS: 'EMAIL_ALIAS',
+  IP_VELOCITY: 'IP_VELOCITY',
+  DUPLICATE_WALLET: 'DUPLICATE_WALLET',
+  TURNSTILE_TOKEN_REUSED: 'TURNSTILE_TOKEN_REUSED'
+} as const;
+
+export type RiskFlag = typeof RISK_FLAGS[keyof typeof RISK_FLAGS];
+
+// Each signal on its own is enough to reach the default review threshold (50)
+const RISK_WEIGHTS: Record<RiskFlag, number> = {
+  DISPOSABLE_EMAIL: 60,
+  EMAIL_ALIAS: 60,
+  DUPLICATE_WALLET: 60,
+  IP_VELOCITY: 50,
+  TURNSTILE_TOKEN_REUSED: 50
+};
+
+const IP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Common throwaway inboxes; admins can add more via `blockedEmailDomains`
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  '10minutemail.com',
+  'dispostable.com',
+  'emailondeck.com',
+  'fakeinbox.com',
+  'getnada.com',
+  'guerrillamail.com',
+  'guerrillamail.net',
+  'maildrop.cc',
+  'mailinator.com',
+  'mailnesia.com',
+  'mintemail.com',
+  'mohmal.com',
+  'sharklasers.com',
+  'temp-mail.org',
+  'tempmail.com',
+  'tempmailo.com',
+  'throwawaymail.com',
+  'trashmail.com',
+  'yopmail.com'
+]);
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+export interface RegistrationRiskInput {
+  email: string;
+  ipAddress?: string;
+  walletAddress?: string;
+  turnstileToken?: string;
+  // Partner registrations all come from the partner's server IP
+  skipIpCheck?: boolean;
+}
+
+export interface RegistrationRisk {
+  score: number;
+  flags: RiskFlag[];
+  requiresReview: boolean;
+}
+
+const splitEmail = (email: string): { local: string; domain: string } => {
+  const at = email.lastIndexOf('@');
+  return { local: email.slice(0, at).toLowerCase(), domain: email.slice(at + 1).toLowerCase() };
+};
+
+// Gmail ignores dots and anything after "+", so these all reach one inbox
+export const normalizeGmailLocalPart = (local: string): string => {
+  return local.split('+')[0].replace(/\./g, '');
+};
+
+const isDisposableEmail = (domain: string, blockedDomains: string[]): boolean => {
+  return DISPOSABLE_EMAIL_DOMAINS.has(domain) || blockedDomains.includes(domain);
+};
+
+// An existing account that is the same Gmail inbox under a different spelling
+const hasGmailAlias = async (email: string): Promise<boolean> => {
+  const { local, domain } = splitEmail(email);
+
+  if (!GMAIL_DOMAINS.includes(domain)) {
+    return false;
+  }
+
+  const matches = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM users
+    WHERE split_part(lower(email), '@', 2) IN ('gmail.com', 'googlemail.com')
+      AND replace(split_part(split_part(lower(email), '@', 1), '+', 1), '.', '') = ${normalizeGmailLocalPart(local)}
+      AND lower(email) <> ${email.toLowerCase()}
+    LIMIT 1
+  `;
+
+  return matches.length > 0;
+};
+
+const countRecentRegistrationsFromIp = async (ipAddress: string): Promise<number> => {
+  const since = new Date(Date.now() - IP_WINDOW_MS);
+
+  const [participants, promoters] = await Promise.all([
+    prisma.participant.count({ where: { ipAddress, createdAt: { gte: since } } }),
+    prisma.promoter.count({ where: { ipAddress, createdAt: { gte: since } } })
+  ]);
+
+  return participants + promoters;
+};
+
+const isWalletRegistered = async (walletAddress: string): Promise<boolean> => {
+  const existing = await prisma.participant.findFirst({
+    where: { walletAddress: { equals: walletAddress, mode: 'insensitive' } },
+    select: { id: true }
+  });
+
+  return !!existing;
+};
+
+// Turnstile tokens are single-use; one already stored means a replayed submission
+const isTurnstileTokenReused = async (turnstileToken: string): Promise<boolean> => {
+  const [participant, promoter] = await Promise.all([
+    prisma.participant.findFirst({ where: { turnstileToken }, select: { id: true } }),
+    prisma.promoter.findFirst({ where: { turnstileToken }, select: { id: true } })
+  ]);
+
+  return !!participant || !!promoter;
+};
+
+// Score a new participant or promoter registration. Risky ones are held for
+// admin review rather than approved automatically.
+export const assessRegistrationRisk = async (input: RegistrationRiskInput): Promise<RegistrationRisk> => {
+  const settings = await getSecuritySettings();
+  const { domain } = splitEmail(input.email);
+
+  const [emailAlias, ipRegistrations, duplicateWallet, turnstileReused] = await Promise.all([
+    hasGmailAlias(input.email),
+    input.ipAddress && !input.skipIpCheck ? countRecentRegistrationsFromIp(input.ipAddress) : Promise.resolve(0),
+    input.walletAddress ? isWalletRegistered(input.walletAddress) : Promise.resolve(false),
+    input.turnstileToken ? isTurnstileTokenReused(input.turnstileToken) : Promise.resolve(false)
+  ]);
+
+  const flags: RiskFlag[] = [];
+
+  if (isDisposableEmail(domain, settings.blockedEmailDomains)) flags.push(RISK_FLAGS.DISPOSABLE_EMAIL);
+  if (emailAlias) flags.push(RISK_FLAGS.EMAIL_ALIAS);
+  if (ipRegistrations >= settings.maxRegistrationsPerIp) flags.push(RISK_FLAGS.IP_VELOCITY);
+  if (duplicateWallet) flags.push(RISK_FLAGS.DUPLICATE_WALLET);
+  if (turnstileReused) flags.push(RISK_FLAGS.TURNSTILE_TOKEN_REUSED);
+
+  const score = flags.reduce((total, flag) => total + RISK_WEIGHTS[flag], 0);
+
+  return {
+    score,
+    flags,
+    requiresReview: score >= settings.registrationRiskThreshold
+  };
+};
\ No newline at end of file
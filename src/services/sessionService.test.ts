@@ -0,0 +1,33 @@
+import { isIssuedBeforeRevocation } from '@/services/sessionService';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {}
+}));
+
+describe('sessionService', () => {
+  describe('isIssuedBeforeRevocation', () => {
+    const revokedAt = new Date('2026-03-01T12:00:00.400Z');
+    const revokedSecond = Math.floor(revokedAt.getTime() / 1000);
+
+    it('accepts every token while nothing was revoked', () => {
+      expect(isIssuedBeforeRevocation(revokedSecond - 60, null)).toBe(false);
+    });
+
+    it('rejects tokens issued before the revocation', () => {
+      expect(isIssuedBeforeRevocation(revokedSecond - 1, revokedAt)).toBe(true);
+    });
+
+    it('rejects tokens from the second of the revocation, which may predate it', () => {
+      expect(isIssuedBeforeRevocation(revokedSecond, revokedAt)).toBe(true);
+    });
+
+    it('accepts tokens issued after the revocation', () => {
+      expect(isIssuedBeforeRevocation(revokedSecond + 1, revokedAt)).toBe(false);
+    });
+
+    it('rejects tokens without an issue time', () => {
+      expect(isIssuedBeforeRevocation(undefined, revokedAt)).toBe(true);
+    });
+  });
+});
\ No newline at end of file
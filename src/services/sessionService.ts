@@ -0,0 +1,223 @@
+import { Request } from 'express';
+import { User } from '@prisma/client';
+import jwt from 'jsonwebtoken';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { generateSecureToken } from '@/utils/tokens';
+
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
+type TokenUser = Pick<User, 'id' | 'email' | 'role'>;
+
+const getSecrets = () => {
+  const jwtSecret = process.env.JWT_SECRET;
+  const jwtRefreshSecret = process.env.JWT_REFRESH_SECRET;
+
+  if (!jwtSecret || !jwtRefreshSecret) {
+    throw new Error('JWT secrets not configured');
+  }
+
+  return { jwtSecret, jwtRefreshSecret };
+};
+
+// IP and User-Agent of the current request, recorded against the session
+export const getSessionContext = (req: Request): SessionContext => ({
+  ipAddress: req.ip,
+  userAgent: req.get('User-Agent')
+});
+
+// Sign an access token and a new refresh token for an existing session.
+// Every refresh token is persisted so it can be rotated exactly once.
+const issueTokenPair = async (user: TokenUser, sessionId: string): Promise<TokenPair> => {
+  const { jwtSecret, jwtRefreshSecret } = getSecrets();
+  const tokenId = generateSecureToken(16);
+
+  const accessToken = jwt.sign(
+    { id: user.id, email: user.email, role: user.role, sid: sessionId },
+    jwtSecret,
+    { expiresIn: process.env.JWT_EXPIRES_IN || '24h' } as jwt.SignOptions
+  );
+
+  const refreshToken = jwt.sign(
+    { id: user.id, sid: sessionId, jti: tokenId },
+    jwtRefreshSecret,
+    { expiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '7d' } as jwt.SignOptions
+  );
+
+  const { exp } = jwt.decode(refreshToken) as jwt.JwtPayload;
+  const expiresAt = new Date(exp! * 1000);
+
+  await prisma.$transaction([
+    prisma.refreshToken.create({
+      data: { id: tokenId, sessionId, expiresAt }
+    }),
+    prisma.session.update({
+      where: { id: sessionId },
+      data: { expiresAt, lastUsedAt: new Date() }
+    })
+  ]);
+
+  return { accessToken, refreshToken };
+};
+
+// Start a new session (login, registration, account claim) and issue its tokens
+export const createSession = async (user: TokenUser, context: SessionContext): Promise<TokenPair> => {
+  const session = await prisma.session.create({
+    data: {
+      userId: user.id,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt: new Date()
+    }
+  });
+
+  return issueTokenPair(user, session.id);
+};
+
+export const revokeSession = async (sessionId: string, reason: string): Promise<void> => {
+  await prisma.session.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+};
+
+// Revoke every session of a user. Access tokens issued before this moment are
+// rejected by `authenticate`, even ones not tied to a session.
+export const revokeAllSessions = async (userId: string, reason: string): Promise<void> => {
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: now, revokedReason: reason }
+    }),
+    prisma.user.update({
+      where: { id: userId },
+      data: { sessionsRevokedAt: now }
+    })
+  ]);
+};
+
+// Revoke every session except the given one (e.g. "sign out other devices")
+export const revokeOtherSessions = async (userId: string, keepSessionId: string, reason: string): Promise<number> => {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null, id: { not: keepSessionId } },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  });
+
+  return count;
+};
+
+// Sessions that are neither revoked nor expired, most recently used first
+export const listActiveSessions = async (userId: string) => {
+  return prisma.session.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    select: {
+      id: true,
+      ipAddress: true,
+      userAgent: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true
+    },
+    orderBy: { lastUsedAt: 'desc' }
+  });
+};
+
+// Whether a token issued at `iat` (seconds) may predate a user-wide revocation. `iat` has no
+// sub-second part, so tokens from the second of the revocation are rejected too.
+export const isIssuedBeforeRevocation = (iat: number | undefined, sessionsRevokedAt: Date | null): boolean => {
+  if (!sessionsRevokedAt) {
+    return false;
+  }
+
+  return !iat || iat <= Math.floor(sessionsRevokedAt.getTime() / 1000);
+};
+
+// Exchange a refresh token for a new pair. Each refresh token is single use:
+// presenting one that was already rotated revokes the whole session (token family).
+export const rotateRefreshToken = async (refreshToken: string, context: SessionContext): Promise<TokenPair> => {
+  const { jwtRefreshSecret } = getSecrets();
+
+  let decoded: jwt.JwtPayload;
+  try {
+    decoded = jwt.verify(refreshToken, jwtRefreshSecret) as jwt.JwtPayload;
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new AppError('Invalid refresh token', 401);
+    }
+    throw error;
+  }
+
+  if (!decoded.jti || !decoded.sid) {
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  const storedToken = await prisma.refreshToken.findUnique({
+    where: { id: decoded.jti },
+    include: {
+      session: {
+        include: {
+          user: {
+            select: { id: true, email: true, role: true, sessionsRevokedAt: true }
+          }
+        }
+      }
+    }
+  });
+
+  if (!storedToken || storedToken.sessionId !== decoded.sid || storedToken.session.userId !== decoded.id) {
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  const { session } = storedToken;
+
+  if (session.revokedAt || isIssuedBeforeRevocation(decoded.iat, session.user.sessionsRevokedAt)) {
+    throw new AppError('Refresh token has been revoked', 401);
+  }
+
+  // Mark as used; a concurrent or repeated use finds nothing to update
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: storedToken.id, usedAt: null },
+    data: { usedAt: new Date() }
+  });
+
+  if (count === 0) {
+    await revokeSession(session.id, 'REFRESH_TOKEN_REUSE');
+
+    await prisma.auditLog.create({
+      data: {
+        userId: session.userId,
+        action: 'REFRESH_TOKEN_REUSE_DETECTED',
+        entityType: 'SESSION',
+        entityId: session.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+
+    throw new AppError('Refresh token has already been used. Please log in again.', 401);
+  }
+
+  await prisma.session.update({
+    where: { id: session.id },
+    data: {
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent
+    }
+  });
+
+  return issueTokenPair(session.user, session.id);
+};
\ No newline at end of file
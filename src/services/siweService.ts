@@ -0,0 +1,144 @@
+import { getAddress, verifyMessage } from 'viem';
+import { generateSiweNonce, parseSiweMessage, validateSiweMessage } from 'viem/siwe';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { isAccountClaimed } from '@/services/accountClaimService';
+
+// Sign-In with Ethereum (EIP-4361). Messages are verified locally: the
+// signature is recovered with secp256k1, no RPC provider is involved.
+const NONCE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// The domain wallets show users when signing; must match the frontend host
+const getSiweDomain = (): string => {
+  if (process.env.SIWE_DOMAIN) {
+    return process.env.SIWE_DOMAIN;
+  }
+
+  return new URL(process.env.FRONTEND_URL || 'http://localhost:5173').host;
+};
+
+// Optional comma-separated allow-list of chain IDs, e.g. "1,8453"
+const getAllowedChainIds = (): number[] | null => {
+  if (!process.env.SIWE_CHAIN_IDS) {
+    return null;
+  }
+
+  return process.env.SIWE_CHAIN_IDS.split(',').map(entry => {
+    const id = entry.trim();
+
+    if (!/^\d+$/.test(id)) {
+      throw new Error(`SIWE_CHAIN_IDS has an invalid chain ID: "${id}"`);
+    }
+
+    return Number(id);
+  });
+};
+
+export const createSiweNonce = async () => {
+  const nonce = generateSiweNonce();
+  const expiresAt = new Date(Date.now() + NONCE_TTL_MS);
+
+  await prisma.walletNonce.create({
+    data: { nonce, expiresAt }
+  });
+
+  return { nonce, expiresAt, domain: getSiweDomain() };
+};
+
+// Verify a signed SIWE message and consume its nonce.
+// Returns the checksummed wallet address that signed it.
+export const verifySiweSignature = async (message: string, signature: string): Promise<string> => {
+  const parsed = parseSiweMessage(message);
+
+  if (!parsed.address || !parsed.nonce || !parsed.chainId) {
+    throw new AppError('Malformed Sign-In with Ethereum message', 400);
+  }
+
+  const isValid = validateSiweMessage({
+    message: parsed,
+    domain: getSiweDomain(),
+    nonce: parsed.nonce
+  });
+
+  if (!isValid) {
+    throw new AppError('Sign-In with Ethereum message is invalid or has expired', 401);
+  }
+
+  const allowedChainIds = getAllowedChainIds();
+  if (allowedChainIds && !allowedChainIds.includes(parsed.chainId)) {
+    throw new AppError('Unsupported chain', 400);
+  }
+
+  let isSignatureValid = false;
+  try {
+    isSignatureValid = await verifyMessage({
+      address: parsed.address,
+      message,
+      signature: signature as `0x${string}`
+    });
+  } catch (error) {
+    isSignatureValid = false;
+  }
+
+  if (!isSignatureValid) {
+    throw new AppError('Invalid wallet signature', 401);
+  }
+
+  // Nonces are single use, and only consumed by a valid signature so a forged one can't
+  // burn someone else's; a concurrent replay finds nothing to update
+  const { count } = await prisma.walletNonce.updateMany({
+    where: {
+      nonce: parsed.nonce,
+      usedAt: null,
+      expiresAt: { gt: new Date() }
+    },
+    data: { usedAt: new Date() }
+  });
+
+  if (count === 0) {
+    throw new AppError('Sign-In with Ethereum nonce is invalid or has already been used', 401);
+  }
+
+  return getAddress(parsed.address);
+};
+
+// Participant that proved ownership of this wallet via /siwe/link. Addresses only
+// typed into a form, and accounts that were never claimed, can't sign in by wallet.
+export const findParticipantByWallet = async (address: string) => {
+  const participant = await prisma.participant.findFirst({
+    where: {
+      walletAddress: { equals: address, mode: 'insensitive' },
+      walletVerifiedAt: { not: null }
+    },
+    include: { user: true }
+  });
+
+  if (!participant || !isAccountClaimed(participant.user)) {
+    return null;
+  }
+
+  return participant;
+};
+
+// Record proven ownership of a wallet on a participant
+export const linkVerifiedWallet = async (participantId: string, address: string) => {
+  const owner = await prisma.participant.findFirst({
+    where: {
+      walletAddress: { equals: address, mode: 'insensitive' },
+      walletVerifiedAt: { not: null },
+      id: { not: participantId }
+    }
+  });
+
+  if (owner) {
+    throw new AppError('This wallet is already linked to another account', 409);
+  }
+
+  return prisma.participant.update({
+    where: { id: participantId },
+    data: {
+      walletAddress: address,
+      walletVerifiedAt: new Date()
+    }
+  });
+};
\ No newline at end of file
@@ -0,0 +1,457 @@
+import { Participant, Prisma, RegistrationStatus, Team } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { getSiteSettings } from '@/services/configService';
+import { SessionContext } from '@/services/sessionService';
+import { generateSecureToken } from '@/utils/tokens';
+import { buildFrontendUrl } from '@/utils/urls';
+
+// Participants who can create or join a team; waitlisted, rejected and withdrawn ones can't
+const TEAM_ELIGIBLE_STATUSES: RegistrationStatus[] = ['PENDING', 'APPROVED', 'ACTIVE'];
+
+type TeamParticipant = Pick<Participant, 'id' | 'userId' | 'status' | 'teamId'>;
+
+const teamMemberSelect = {
+  id: true,
+  tier: true,
+  teamJoinedAt: true,
+  user: {
+    select: { firstName: true, lastName: true }
+  }
+} satisfies Prisma.ParticipantSelect;
+
+const generateInviteCode = async (client: Prisma.TransactionClient = prisma): Promise<string> => {
+  let code: string;
+  let exists = true;
+
+  while (exists) {
+    code = generateSecureToken(5).toUpperCase();
+    const existing = await client.team.findUnique({
+      where: { inviteCode: code }
+    });
+    exists = !!existing;
+  }
+
+  return code!;
+};
+
+export const buildInviteLink = (team: Pick<Team, 'inviteCode'>): string => {
+  return buildFrontendUrl('/teams/join', { code: team.inviteCode });
+};
+
+// Serialize membership changes to a team so concurrent joins can't overfill it
+const lockTeam = async (tx: Prisma.TransactionClient, teamId: string): Promise<void> => {
+  await tx.$executeRaw`SELECT id FROM teams WHERE id = ${teamId} FOR UPDATE`;
+};
+
+const assertEligible = (participant: TeamParticipant): void => {
+  if (!TEAM_ELIGIBLE_STATUSES.includes(participant.status)) {
+    throw new AppError('Your registration must be confirmed before you can join a team', 403);
+  }
+};
+
+// Load the caller's team, making sure they captain it
+const getCaptainedTeam = async (participant: TeamParticipant): Promise<Team> => {
+  if (!participant.teamId) {
+    throw new AppError('You are not in a team', 404);
+  }
+
+  const team = await prisma.team.findUniqueOrThrow({
+    where: { id: participant.teamId }
+  });
+
+  if (team.captainId !== participant.id) {
+    throw new AppError('Only the team captain can do that', 403);
+  }
+
+  return team;
+};
+
+const assertNameAvailable = async (name: string, exceptTeamId?: string): Promise<void> => {
+  const existing = await prisma.team.findFirst({
+    where: {
+      name: { equals: name, mode: 'insensitive' },
+      ...(exceptTeamId && { id: { not: exceptTeamId } })
+    }
+  });
+
+  if (existing) {
+    throw new AppError('A team with that name already exists', 409);
+  }
+};
+
+// A team with its members, as shown to its members and in the participant profile
+export const getTeamDetails = async (teamId: string, viewer?: Pick<Participant, 'id'>) => {
+  const team = await prisma.team.findUniqueOrThrow({
+    where: { id: teamId },
+    include: {
+      members: {
+        select: teamMemberSelect,
+        orderBy: { teamJoinedAt: 'asc' }
+      },
+      captain: {
+        select: { tier: true }
+      }
+    }
+  });
+
+  const settings = await getSiteSettings();
+  const isCaptain = !!viewer && team.captainId === viewer.id;
+
+  return {
+    id: team.id,
+    name: team.name,
+    captainId: team.captainId,
+    isCaptain,
+    maxMembers: settings.teamSizeLimits[team.captain.tier],
+    members: team.members.map(member => ({
+      participantId: member.id,
+      firstName: member.user.firstName,
+      lastName: member.user.lastName,
+      tier: member.tier,
+      isCaptain: member.id === team.captainId,
+      joinedAt: member.teamJoinedAt
+    })),
+    // Only the captain hands out invites
+    ...(isCaptain && { inviteCode: team.inviteCode, inviteLink: buildInviteLink(team) }),
+    createdAt: team.createdAt
+  };
+};
+
+// Public summary of a team behind an invite code, shown before joining
+export const previewTeamInvite = async (inviteCode: string) => {
+  const team = await prisma.team.findUnique({
+    where: { inviteCode: inviteCode.toUpperCase() },
+    include: {
+      captain: {
+        select: { tier: true, user: { select: { firstName: true } } }
+      },
+      _count: { select: { members: true } }
+    }
+  });
+
+  if (!team) {
+    throw new AppError('Invite link is invalid or has been replaced', 404);
+  }
+
+  const settings = await getSiteSettings();
+
+  return {
+    id: team.id,
+    name: team.name,
+    captainFirstName: team.captain.user.firstName,
+    memberCount: team._count.members,
+    maxMembers: settings.teamSizeLimits[team.captain.tier]
+  };
+};
+
+export const createTeam = async (
+  participant: TeamParticipant,
+  name: string,
+  context: SessionContext
+): Promise<Team> => {
+  assertEligible(participant);
+
+  if (participant.teamId) {
+    throw new AppError('Leave your current team before creating a new one', 409);
+  }
+
+  await assertNameAvailable(name);
+
+  return prisma.$transaction(async (tx) => {
+    const team = await tx.team.create({
+      data: {
+        name,
+        inviteCode: await generateInviteCode(tx),
+        captainId: participant.id
+      }
+    });
+
+    await tx.participant.update({
+      where: { id: participant.id },
+      data: { teamId: team.id, teamJoinedAt: new Date() }
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: participant.userId,
+        action: 'TEAM_CREATE',
+        entityType: 'TEAM',
+        entityId: team.id,
+        newValues: { name },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+
+    return team;
+  });
+};
+
+export const joinTeam = async (
+  participant: TeamParticipant,
+  inviteCode: string,
+  context: SessionContext
+): Promise<Team> => {
+  assertEligible(participant);
+
+  if (participant.teamId) {
+    throw new AppError('Leave your current team before joining another', 409);
+  }
+
+  const team = await prisma.team.findUnique({
+    where: { inviteCode: inviteCode.toUpperCase() }
+  });
+
+  if (!team) {
+    throw new AppError('Invite link is invalid or has been replaced', 404);
+  }
+
+  const settings = await getSiteSettings();
+
+  await prisma.$transaction(async (tx) => {
+    await lockTeam(tx, team.id);
+
+    const [captain, memberCount] = await Promise.all([
+      tx.participant.findUniqueOrThrow({
+        where: { id: team.captainId },
+        select: { tier: true }
+      }),
+      tx.participant.count({ where: { teamId: team.id } })
+    ]);
+
+    const maxMembers = settings.teamSizeLimits[captain.tier];
+    if (memberCount >= maxMembers) {
+      throw new AppError(`This team is full (${maxMembers} members)`, 409);
+    }
+
+    await tx.participant.update({
+      where: { id: participant.id },
+      data: { teamId: team.id, teamJoinedAt: new Date() }
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId: participant.userId,
+        action: 'TEAM_JOIN',
+        entityType: 'TEAM',
+        entityId: team.id,
+        newValues: { participantId: participant.id },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+  });
+
+  return team;
+};
+
+// Take a participant out of their team. A captain's role passes to the longest-standing
+// member, and a team left empty is disbanded. Used when an account is deleted.
+export const detachFromTeam = async (
+  tx: Prisma.TransactionClient,
+  participant: Pick<Participant, 'id' | 'teamId'>
+): Promise<void> => {
+  if (!participant.teamId) {
+    return;
+  }
+
+  await lockTeam(tx, participant.teamId);
+
+  const team = await tx.team.findUniqueOrThrow({
+    where: { id: participant.teamId }
+  });
+
+  await tx.participant.update({
+    where: { id: participant.id },
+    data: { teamId: null, teamJoinedAt: null }
+  });
+
+  if (team.captainId !== participant.id) {
+    return;
+  }
+
+  const successor = await tx.participant.findFirst({
+    where: { teamId: team.id },
+    orderBy: { teamJoinedAt: 'asc' }
+  });
+
+  if (successor) {
+    await tx.team.update({
+      where: { id: team.id },
+      data: { captainId: successor.id }
+    });
+  } else {
+    await tx.team.delete({
+      where: { id: team.id }
+    });
+  }
+};
+
+export const leaveTeam = async (participant: TeamParticipant, context: SessionContext): Promise<void> => {
+  if (!participant.teamId) {
+    throw new AppError('You are not in a team', 404);
+  }
+
+  const teamId = participant.teamId;
+
+  await prisma.$transaction(async (tx) => {
+    await lockTeam(tx, teamId);
+
+    const team = await tx.team.findUniqueOrThrow({
+      where: { id: teamId },
+      include: { _count: { select: { members: true } } }
+    });
+
+    // The captain has to hand over first unless they're the last one left
+    if (team.captainId === participant.id && team._count.members > 1) {
+      throw new AppError('Transfer captaincy to another member before leaving the team', 409);
+    }
+
+    await detachFromTeam(tx, participant);
+
+    await tx.auditLog.create({
+      data: {
+        userId: participant.userId,
+        action: team._count.members > 1 ? 'TEAM_LEAVE' : 'TEAM_DISBAND',
+        entityType: 'TEAM',
+        entityId: team.id,
+        oldValues: { participantId: participant.id, name: team.name },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    });
+  });
+};
+
+export const transferCaptaincy = async (
+  captain: TeamParticipant,
+  newCaptainId: string,
+  context: SessionContext
+): Promise<void> => {
+  const team = await getCaptainedTeam(captain);
+
+  if (newCaptainId === captain.id) {
+    throw new AppError('You are already the captain', 400);
+  }
+
+  const newCaptain = await prisma.participant.findFirst({
+    where: { id: newCaptainId, teamId: team.id }
+  });
+
+  if (!newCaptain) {
+    throw new AppError('New captain must be a member of the team', 404);
+  }
+
+  await prisma.$transaction([
+    prisma.team.update({
+      where: { id: team.id },
+      data: { captainId: newCaptain.id }
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId: captain.userId,
+        action: 'TEAM_CAPTAIN_TRANSFER',
+        entityType: 'TEAM',
+        entityId: team.id,
+        oldValues: { captainId: captain.id },
+        newValues: { captainId: newCaptain.id },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    })
+  ]);
+};
+
+export const removeTeamMember = async (
+  captain: TeamParticipant,
+  memberId: string,
+  context: SessionContext
+): Promise<void> => {
+  const team = await getCaptainedTeam(captain);
+
+  if (memberId === captain.id) {
+    throw new AppError('Captains leave the team instead of removing themselves', 400);
+  }
+
+  const member = await prisma.participant.findFirst({
+    where: { id: memberId, teamId: team.id }
+  });
+
+  if (!member) {
+    throw new AppError('Team member not found', 404);
+  }
+
+  await prisma.$transaction([
+    prisma.participant.update({
+      where: { id: member.id },
+      data: { teamId: null, teamJoinedAt: null }
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId: captain.userId,
+        action: 'TEAM_MEMBER_REMOVE',
+        entityType: 'TEAM',
+        entityId: team.id,
+        oldValues: { participantId: member.id },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    })
+  ]);
+};
+
+export const updateTeam = async (
+  captain: TeamParticipant,
+  name: string,
+  context: SessionContext
+): Promise<Team> => {
+  const team = await getCaptainedTeam(captain);
+
+  await assertNameAvailable(name, team.id);
+
+  const [updated] = await prisma.$transaction([
+    prisma.team.update({
+      where: { id: team.id },
+      data: { name }
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId: captain.userId,
+        action: 'TEAM_UPDATE',
+        entityType: 'TEAM',
+        entityId: team.id,
+        oldValues: { name: team.name },
+        newValues: { name },
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    })
+  ]);
+
+  return updated;
+};
+
+// Replace the invite code so links already shared stop working
+export const rotateInviteCode = async (captain: TeamParticipant, context: SessionContext): Promise<Team> => {
+  const team = await getCaptainedTeam(captain);
+
+  const [updated] = await prisma.$transaction([
+    prisma.team.update({
+      where: { id: team.id },
+      data: { inviteCode: await generateInviteCode() }
+    }),
+    prisma.auditLog.create({
+      data: {
+        userId: captain.userId,
+        action: 'TEAM_INVITE_CODE_ROTATE',
+        entityType: 'TEAM',
+        entityId: team.id,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent
+      }
+    })
+  ]);
+
+  return updated;
+};
\ No newline at end of file
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import { HuntEnrollment, Prisma } from '@prisma/client';
+import prisma from '@/config/database';
+import { checkInTicket, issueTicket, signTicket, verifyTicket } from '@/services/ticketService';
+import { makeCheckIn, makeEnrollment, makeHunt, makeParticipant, makeUser, runTransactionsInline, sessionContext } from '@/test/fixtures';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    huntEnrollment: { findUnique: jest.fn() },
+    checkIn: { findUnique: jest.fn(), create: jest.fn() },
+    auditLog: { create: jest.fn() },
+    $transaction: jest.fn()
+  }
+}));
+
+const mockPrisma = jest.mocked(prisma);
+
+const enrollment = makeEnrollment({ tier: 'VIP' });
+
+// The enrollment as check-in loads it for a scanned ticket
+const scanned = (overrides: Partial<HuntEnrollment> = {}, participantStatus: 'ACTIVE' | 'SUSPENDED' = 'ACTIVE') => ({
+  ...enrollment,
+  ...overrides,
+  hunt: makeHunt(),
+  participant: { ...makeParticipant({ tier: 'VIP', status: participantStatus }), user: makeUser() }
+});
+
+// Same format as the ticket, signed with the test key, for tickets with arbitrary claims
+const signClaims = (claims: Record<string, unknown>): string => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign(
+    null,
+    Buffer.from(`RMT1.${payload}`),
+    crypto.createPrivateKey(process.env.TICKET_SIGNING_PRIVATE_KEY!)
+  );
+
+  return `RMT1.${payload}.${signature.toString('base64url')}`;
+};
+
+describe('ticketService', () => {
+  const originalKey = process.env.TICKET_SIGNING_PRIVATE_KEY;
+
+  beforeAll(() => {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    process.env.TICKET_SIGNING_PRIVATE_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  });
+
+  afterAll(() => {
+    process.env.TICKET_SIGNING_PRIVATE_KEY = originalKey;
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runTransactionsInline(prisma);
+    mockPrisma.huntEnrollment.findUnique.mockResolvedValue(scanned());
+    mockPrisma.checkIn.findUnique.mockResolvedValue(null);
+    mockPrisma.checkIn.create.mockResolvedValue(makeCheckIn());
+  });
+
+  describe('signTicket / verifyTicket', () => {
+    it('round-trips the participant, hunt and tier', () => {
+      const claims = verifyTicket(signTicket(enrollment));
+
+      expect(claims).toMatchObject({ pid: 'participant-1', hid: 'hunt-1', tier: 'VIP' });
+      expect(claims.iat).toBeLessThanOrEqual(Math.floor(Date.now() / 1000));
+    });
+
+    it('refuses a ticket whose payload was altered', () => {
+      const [prefix, , signature] = signTicket(enrollment).split('.');
+      const forged = Buffer.from(JSON.stringify({ pid: 'participant-2', hid: 'hunt-1', tier: 'VIP', iat: 0 })).toString('base64url');
+
+      expect(() => verifyTicket(`${prefix}.${forged}.${signature}`)).toThrow('Ticket signature is invalid');
+    });
+
+    it('refuses anything that is not a ticket', () => {
+      expect(() => verifyTicket('not-a-ticket')).toThrow('Not a valid ticket');
+    });
+  });
+
+  describe('issueTicket', () => {
+    it('issues a ticket for the enrollment and a PNG QR code', async () => {
+      const { ticket, qrCode } = await issueTicket(enrollment);
+
+      expect(verifyTicket(ticket)).toMatchObject({ pid: 'participant-1', hid: 'hunt-1' });
+      expect(qrCode.subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('refuses enrollments that are not active yet', async () => {
+      await expect(issueTicket({ ...enrollment, status: 'PENDING' })).rejects.toThrow('Tickets are issued once your registration is active');
+    });
+  });
+
+  describe('checkInTicket', () => {
+    it('records the check-in against the ticket hunt, dated by the ticket', async () => {
+      const issuedAt = 1_780_000_000;
+      const ticket = signClaims({ pid: 'participant-1', hid: 'hunt-1', tier: 'PREMIUM', iat: issuedAt });
+
+      const { holder } = await checkInTicket(ticket, 'Main gate', 'staff-1', sessionContext);
+
+      expect(mockPrisma.huntEnrollment.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { huntId_participantId: { huntId: 'hunt-1', participantId: 'participant-1' } }
+      }));
+      expect(mockPrisma.checkIn.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          huntId: 'hunt-1',
+          participantId: 'participant-1',
+          scannedById: 'staff-1',
+          location: 'Main gate',
+          ticketIssuedAt: new Date(issuedAt * 1000)
+        })
+      });
+      // The enrollment's current tier, next to the one printed on the ticket
+      expect(holder).toMatchObject({ huntId: 'hunt-1', huntName: 'Spring Hunt', tier: 'VIP', ticketTier: 'PREMIUM' });
+    });
+
+    it('refuses a second check-in to the same hunt', async () => {
+      mockPrisma.checkIn.findUnique.mockResolvedValue(makeCheckIn());
+
+      await expect(checkInTicket(signTicket(enrollment), 'Side gate', 'staff-1', sessionContext)).rejects.toMatchObject({ statusCode: 409 });
+      expect(mockPrisma.checkIn.create).not.toHaveBeenCalled();
+    });
+
+    it('turns a concurrent scan of the same ticket into a 409', async () => {
+      mockPrisma.checkIn.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' })
+      );
+
+      await expect(checkInTicket(signTicket(enrollment), 'Main gate', 'staff-1', sessionContext)).rejects.toMatchObject({
+        message: 'Ticket has already been checked in',
+        statusCode: 409
+      });
+    });
+
+    it('refuses holders whose enrollment or account is no longer active', async () => {
+      mockPrisma.huntEnrollment.findUnique.mockResolvedValue(scanned({ status: 'WITHDRAWN' }));
+      await expect(checkInTicket(signTicket(enrollment), 'Main gate', 'staff-1', sessionContext)).rejects.toMatchObject({ statusCode: 403 });
+
+      mockPrisma.huntEnrollment.findUnique.mockResolvedValue(scanned({}, 'SUSPENDED'));
+      await expect(checkInTicket(signTicket(enrollment), 'Main gate', 'staff-1', sessionContext)).rejects.toMatchObject({ statusCode: 403 });
+    });
+
+    it('refuses tickets issued before they named a hunt', async () => {
+      const legacyTicket = signClaims({ pid: 'participant-1', tier: 'VIP', iat: 0 });
+
+      await expect(checkInTicket(legacyTicket, 'Main gate', 'staff-1', sessionContext)).rejects.toMatchObject({ statusCode: 400 });
+      expect(mockPrisma.huntEnrollment.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
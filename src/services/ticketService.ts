@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import { HuntEnrollment, Prisma, TierType } from '@prisma/client';
+import QRCode from 'qrcode';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { SessionContext } from '@/services/sessionService';
+
+// Tickets look like `RMT1.<payload>.<signature>`, both parts base64url. The payload is
+// signed with Ed25519, so scanner apps can check tickets offline with just the public key.
+const TICKET_PREFIX = 'RMT1';
+
+export interface TicketClaims {
+  pid: string; // Participant ID
+  hid: string; // Hunt ID; a ticket only admits its holder to that hunt
+  tier: TierType; // Tier of the hunt enrollment
+  iat: number; // Seconds since epoch
+}
+
+const getPrivateKey = (): crypto.KeyObject => {
+  const pem = process.env.TICKET_SIGNING_PRIVATE_KEY;
+
+  if (!pem) {
+    throw new Error('TICKET_SIGNING_PRIVATE_KEY is not configured');
+  }
+
+  // Env files usually carry the PEM on one line with escaped newlines
+  return crypto.createPrivateKey(pem.replace(/\\n/g, '\n'));
+};
+
+const getPublicKey = (): crypto.KeyObject => crypto.createPublicKey(getPrivateKey());
+
+// PEM for scanner apps that verify tickets without calling the API
+export const getTicketPublicKey = (): string => {
+  return getPublicKey().export({ type: 'spki', format: 'pem' }).toString();
+};
+
+type TicketEnrollment = Pick<HuntEnrollment, 'participantId' | 'huntId' | 'tier'>;
+
+export const signTicket = (enrollment: TicketEnrollment): string => {
+  const claims: TicketClaims = {
+    pid: enrollment.participantId,
+    hid: enrollment.huntId,
+    tier: enrollment.tier,
+    iat: Math.floor(Date.now() / 1000)
+  };
+
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.sign(null, Buffer.from(`${TICKET_PREFIX}.${payload}`), getPrivateKey());
+
+  return `${TICKET_PREFIX}.${payload}.${signature.toString('base64url')}`;
+};
+
+// Check a ticket's signature. Needs no database access, like an offline scanner.
+export const verifyTicket = (ticket: string): TicketClaims => {
+  const [prefix, payload, signature] = ticket.trim().split('.');
+
+  if (prefix !== TICKET_PREFIX || !payload || !signature) {
+    throw new AppError('Not a valid ticket', 400);
+  }
+
+  const isValid = crypto.verify(
+    null,
+    Buffer.from(`${prefix}.${payload}`),
+    getPublicKey(),
+    Buffer.from(signature, 'base64url')
+  );
+
+  if (!isValid) {
+    throw new AppError('Ticket signature is invalid', 400);
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as TicketClaims;
+  } catch {
+    throw new AppError('Not a valid ticket', 400);
+  }
+};
+
+export const renderTicketQrCode = (ticket: string): Promise<Buffer> => {
+  return QRCode.toBuffer(ticket, { errorCorrectionLevel: 'M', margin: 2, width: 400 });
+};
+
+// A fresh ticket and its QR code for an active hunt enrollment
+export const issueTicket = async (enrollment: TicketEnrollment & Pick<HuntEnrollment, 'status'>) => {
+  if (enrollment.status !== 'ACTIVE') {
+    throw new AppError('Tickets are issued once your registration is active', 403);
+  }
+
+  const ticket = signTicket(enrollment);
+
+  return {
+    ticket,
+    qrCode: await renderTicketQrCode(ticket)
+  };
+};
+
+// Record a participant's arrival at a hunt from a scanned ticket. The signature is checked
+// before anything else, then the participant and their enrollment in the ticket's hunt must
+// still be active and not yet checked in there.
+export const checkInTicket = async (
+  ticket: string,
+  location: string,
+  staffUserId: string,
+  context: SessionContext
+) => {
+  const claims = verifyTicket(ticket);
+
+  // Tickets issued before they named a hunt
+  if (!claims.hid) {
+    throw new AppError('Ticket has expired. Ask the holder to download a new one.', 400);
+  }
+
+  const enrollment = await prisma.huntEnrollment.findUnique({
+    where: { huntId_participantId: { huntId: claims.hid, participantId: claims.pid } },
+    include: {
+      hunt: { select: { id: true, name: true } },
+      participant: {
+        include: {
+          user: { select: { firstName: true, lastName: true } }
+        }
+      }
+    }
+  });
+
+  if (!enrollment) {
+    throw new AppError('Ticket holder not found', 404);
+  }
+
+  const { hunt, participant } = enrollment;
+
+  // Refunds and suspensions take effect even for tickets issued earlier
+  if (participant.status !== 'ACTIVE') {
+    throw new AppError(`Ticket holder is not active (status: ${participant.status})`, 403);
+  }
+
+  if (enrollment.status !== 'ACTIVE') {
+    throw new AppError(`Ticket holder is not active in ${hunt.name} (status: ${enrollment.status})`, 403);
+  }
+
+  const existing = await prisma.checkIn.findUnique({
+    where: { huntId_participantId: { huntId: hunt.id, participantId: participant.id } }
+  });
+
+  if (existing) {
+    throw new AppError(
+      `Already checked in to ${hunt.name} at ${existing.location} on ${existing.checkedInAt.toISOString()}`,
+      409
+    );
+  }
+
+  try {
+    const checkIn = await prisma.$transaction(async (tx) => {
+      const created = await tx.checkIn.create({
+        data: {
+          huntId: hunt.id,
+          participantId: participant.id,
+          scannedById: staffUserId,
+          location,
+          ticketIssuedAt: new Date(claims.iat * 1000),
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        }
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: staffUserId,
+          action: 'PARTICIPANT_CHECK_IN',
+          entityType: 'PARTICIPANT',
+          entityId: participant.id,
+          newValues: { checkInId: created.id, huntId: hunt.id, location, ticketTier: claims.tier },
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent
+        }
+      });
+
+      return created;
+    });
+
+    return {
+      checkIn,
+      holder: {
+        participantId: participant.id,
+        huntId: hunt.id,
+        huntName: hunt.name,
+        firstName: participant.user.firstName,
+        lastName: participant.user.lastName,
+        tier: enrollment.tier,
+        ticketTier: claims.tier
+      }
+    };
+  } catch (error) {
+    // Two scanners read the same ticket at once
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new AppError('Ticket has already been checked in', 409);
+    }
+    throw error;
+  }
+};
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { Prisma } from '@prisma/client';
+import prisma from '@/config/database';
+import {
+  calculateCommission,
+  getHuntTierPrices,
+  getPaidTier,
+  isHigherTier,
+  quoteTierUpgrade,
+  TIER_PRICES
+} from '@/services/tierUpgradeService';
+import { makeHunt, makeParticipant, makePayment } from '@/test/fixtures';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    payment: { findMany: jest.fn() }
+  }
+}));
+
+const mockPrisma = jest.mocked(prisma);
+
+const hunt = makeHunt({ tierPrices: { PREMIUM: 120 } });
+const participant = makeParticipant();
+
+const paid = (tier: 'PREMIUM' | 'VIP', amount: number, inviteDiscount?: number) => makePayment({
+  tier,
+  amount: new Prisma.Decimal(amount),
+  inviteDiscount: inviteDiscount === undefined ? null : new Prisma.Decimal(inviteDiscount)
+});
+
+describe('tierUpgradeService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.payment.findMany.mockResolvedValue([]);
+  });
+
+  it('ranks tiers FREE < PREMIUM < VIP', () => {
+    expect(isHigherTier('VIP', 'PREMIUM')).toBe(true);
+    expect(isHigherTier('PREMIUM', 'FREE')).toBe(true);
+    expect(isHigherTier('FREE', 'FREE')).toBe(false);
+    expect(isHigherTier('PREMIUM', 'VIP')).toBe(false);
+  });
+
+  it('falls back to the default price for tiers a hunt does not price', () => {
+    expect(getHuntTierPrices(hunt)).toEqual({ FREE: 0, PREMIUM: 120, VIP: TIER_PRICES.VIP });
+  });
+
+  describe('getPaidTier', () => {
+    it('takes the highest tier paid for and counts invite discounts as paid', async () => {
+      mockPrisma.payment.findMany.mockResolvedValue([paid('PREMIUM', 80, 20), paid('VIP', 179.99)]);
+
+      await expect(getPaidTier('participant-1', prisma, 'hunt-1')).resolves.toEqual({ paidTier: 'VIP', amountPaid: 279.99 });
+    });
+
+    it('ignores hint packs and other hunts', async () => {
+      await getPaidTier('participant-1', prisma, 'hunt-1');
+
+      expect(mockPrisma.payment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { participantId: 'participant-1', status: 'COMPLETED', hintCredits: null, huntId: 'hunt-1' }
+      }));
+    });
+  });
+
+  describe('quoteTierUpgrade', () => {
+    it('charges the full hunt price for a first purchase', async () => {
+      await expect(quoteTierUpgrade(participant, 'PREMIUM', hunt)).resolves.toEqual({
+        paidTier: 'FREE',
+        targetTier: 'PREMIUM',
+        fullPrice: 120,
+        amountPaid: 0,
+        amountDue: 120,
+        isUpgrade: false
+      });
+    });
+
+    it('charges only the difference for an upgrade', async () => {
+      mockPrisma.payment.findMany.mockResolvedValue([paid('PREMIUM', 100, 20)]);
+
+      await expect(quoteTierUpgrade(participant, 'VIP', hunt)).resolves.toMatchObject({
+        paidTier: 'PREMIUM',
+        fullPrice: 299,
+        amountPaid: 120,
+        amountDue: 179,
+        isUpgrade: true
+      });
+    });
+
+    it('rounds the difference to cents', async () => {
+      mockPrisma.payment.findMany.mockResolvedValue([paid('PREMIUM', 99.1), paid('PREMIUM', 0.2)]);
+
+      await expect(quoteTierUpgrade(participant, 'VIP', hunt)).resolves.toMatchObject({ amountPaid: 99.3, amountDue: 199.7 });
+    });
+
+    it('refuses to sell the tier already paid for', async () => {
+      mockPrisma.payment.findMany.mockResolvedValue([paid('VIP', 299)]);
+
+      await expect(quoteTierUpgrade(participant, 'VIP', hunt)).rejects.toThrow('Payment already completed for this tier');
+    });
+
+    it('refuses downgrades', async () => {
+      mockPrisma.payment.findMany.mockResolvedValue([paid('VIP', 299)]);
+
+      await expect(quoteTierUpgrade(participant, 'PREMIUM', hunt)).rejects.toThrow('Cannot downgrade from VIP to PREMIUM');
+    });
+
+    it('refuses upgrades already covered by earlier payments', async () => {
+      mockPrisma.payment.findMany.mockResolvedValue([paid('PREMIUM', 150), paid('PREMIUM', 150)]);
+
+      await expect(quoteTierUpgrade(participant, 'VIP', hunt)).rejects.toMatchObject({ statusCode: 409 });
+    });
+  });
+
+  it('rounds commission to cents', () => {
+    expect(calculateCommission(99, 0.125)).toBe(12.38);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { Hunt, Participant, Prisma, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+
+// Default full price of each tier, in dollars. Each hunt sets its own in `tierPrices`.
+export const TIER_PRICES: Record<TierType, number> = {
+  FREE: 0,
+  PREMIUM: 99,
+  VIP: 299
+};
+
+const TIER_RANK: Record<TierType, number> = {
+  FREE: 0,
+  PREMIUM: 1,
+  VIP: 2
+};
+
+export interface TierUpgradeQuote {
+  paidTier: TierType;
+  targetTier: TierType;
+  fullPrice: number;
+  amountPaid: number;
+  amountDue: number;
+  isUpgrade: boolean;
+}
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const isHigherTier = (tier: TierType, than: TierType): boolean => TIER_RANK[tier] > TIER_RANK[than];
+
+// A hunt's tier prices, falling back to the defaults for tiers it doesn't price
+export const getHuntTierPrices = (hunt: Pick<Hunt, 'tierPrices'>): Record<TierType, number> => {
+  return { ...TIER_PRICES, ...(hunt.tierPrices as Partial<Record<TierType, number>>) };
+};
+
+// Highest tier the participant has actually paid for, and the total paid so far (invite
+// discounts count as paid), in one hunt or across all of them. Hint packs don't count. The
+// tier on the participant record may still be an unpaid selection.
+export const getPaidTier = async (
+  participantId: string,
+  client: Prisma.TransactionClient = prisma,
+  huntId?: string
+): Promise<{ paidTier: TierType; amountPaid: number }> => {
+  const completedPayments = await client.payment.findMany({
+    where: { participantId, status: 'COMPLETED', hintCredits: null, ...(huntId && { huntId }) },
+    select: { tier: true, amount: true, inviteDiscount: true }
+  });
+
+  const paidTier = completedPayments.reduce<TierType>(
+    (highest, payment) => isHigherTier(payment.tier, highest) ? payment.tier : highest,
+    'FREE'
+  );
+  const amountPaid = completedPayments.reduce(
+    (total, payment) => total + Number(payment.amount) + Number(payment.inviteDiscount ?? 0),
+    0
+  );
+
+  return { paidTier, amountPaid: roundToCents(amountPaid) };
+};
+
+// Price to move a participant to `targetTier` in a hunt: the hunt's tier price minus what they
+// already paid for that hunt. Checkout can only move up; downgrades and repeat purchases are refused.
+export const quoteTierUpgrade = async (
+  participant: Pick<Participant, 'id'>,
+  targetTier: TierType,
+  hunt: Pick<Hunt, 'id' | 'tierPrices'>
+): Promise<TierUpgradeQuote> => {
+  const { paidTier, amountPaid } = await getPaidTier(participant.id, prisma, hunt.id);
+
+  if (targetTier === paidTier) {
+    throw new AppError('Payment already completed for this tier', 400);
+  }
+
+  if (!isHigherTier(targetTier, paidTier)) {
+    throw new AppError(`Cannot downgrade from ${paidTier} to ${targetTier} through checkout`, 400);
+  }
+
+  const fullPrice = getHuntTierPrices(hunt)[targetTier];
+  const amountDue = roundToCents(fullPrice - amountPaid);
+
+  if (amountDue <= 0) {
+    throw new AppError('Completed payments already cover this tier. Please contact support.', 409);
+  }
+
+  return {
+    paidTier,
+    targetTier,
+    fullPrice,
+    amountPaid,
+    amountDue,
+    isUpgrade: paidTier !== 'FREE'
+  };
+};
+
+// Commission owed on a payment, at the promoter's rate
+export const calculateCommission = (amount: number, commissionRate: number): number => {
+  return roundToCents(amount * commissionRate);
+};
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { User, UserRole } from '@prisma/client';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { getSecuritySettings } from '@/services/configService';
+import { hashToken, signPurposeToken, verifyPurposeToken } from '@/utils/tokens';
+import { buildTotpProvisioningUri, generateTotpSecret, verifyTotpCode } from '@/utils/totp';
+
+const TOTP_ISSUER = 'Red Mugsy Treasure Hunt';
+const LOGIN_CHALLENGE_EXPIRES_IN = '5m';
+const RECOVERY_CODE_COUNT = 10;
+
+type TwoFactorUser = Pick<
+  User,
+  'id' | 'twoFactorEnabled' | 'twoFactorSecret' | 'twoFactorLastUsedStep' | 'twoFactorRecoveryCodes'
+>;
+
+// Recovery codes are shown as xxxxx-xxxxx but compared without formatting
+const normalizeRecoveryCode = (code: string): string => {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+};
+
+const generateRecoveryCodes = (): string[] => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+};
+
+// Whether the role must have 2FA enabled before using privileged routes
+export const isTwoFactorRequiredForRole = async (role: UserRole): Promise<boolean> => {
+  if (role !== 'ADMIN') {
+    return false;
+  }
+
+  const settings = await getSecuritySettings();
+  return settings.requireAdminTwoFactor;
+};
+
+// Generate a new (not yet active) secret for the user to scan
+export const beginTwoFactorSetup = async (user: Pick<User, 'id' | 'email' | 'twoFactorEnabled'>) => {
+  if (user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorSecret: secret }
+  });
+
+  return {
+    secret,
+    provisioningUri: buildTotpProvisioningUri(secret, user.email, TOTP_ISSUER)
+  };
+};
+
+// Activate 2FA once the user proves their authenticator produces valid codes.
+// Returns the plain recovery codes, which are never shown again.
+export const confirmTwoFactorSetup = async (user: TwoFactorUser, code: string): Promise<string[]> => {
+  if (user.twoFactorEnabled) {
+    throw new AppError('Two-factor authentication is already enabled', 400);
+  }
+
+  if (!user.twoFactorSecret) {
+    throw new AppError('Start two-factor setup first', 400);
+  }
+
+  const timeStep = verifyTotpCode(user.twoFactorSecret, code);
+  if (timeStep === null) {
+    throw new AppError('Invalid authentication code', 400);
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabled: true,
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastUsedStep: timeStep,
+      twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(normalizeRecoveryCode(recoveryCode)))
+    }
+  });
+
+  return recoveryCodes;
+};
+
+// Check a TOTP code or recovery code. Codes are single use: a TOTP step can't
+// be replayed and a recovery code is removed once consumed.
+export const verifyTwoFactor = async (
+  user: TwoFactorUser,
+  credentials: { code?: string; recoveryCode?: string }
+): Promise<'totp' | 'recovery' | null> => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return null;
+  }
+
+  if (credentials.code) {
+    const timeStep = verifyTotpCode(user.twoFactorSecret, credentials.code);
+    if (timeStep === null || (user.twoFactorLastUsedStep !== null && timeStep <= user.twoFactorLastUsedStep)) {
+      return null;
+    }
+
+    // Conditional so two requests racing with the same code can't both pass
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [
+          { twoFactorLastUsedStep: null },
+          { twoFactorLastUsedStep: { lt: timeStep } }
+        ]
+      },
+      data: { twoFactorLastUsedStep: timeStep }
+    });
+
+    return count === 1 ? 'totp' : null;
+  }
+
+  if (credentials.recoveryCode) {
+    const codeHash = hashToken(normalizeRecoveryCode(credentials.recoveryCode));
+    if (!user.twoFactorRecoveryCodes.includes(codeHash)) {
+      return null;
+    }
+
+    // Only applies to the codes read above, so a racing request can't reuse this code
+    // or bring back one consumed in the meantime
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        twoFactorRecoveryCodes: { has: codeHash, equals: user.twoFactorRecoveryCodes }
+      },
+      data: {
+        twoFactorRecoveryCodes: user.twoFactorRecoveryCodes.filter(hash => hash !== codeHash)
+      }
+    });
+
+    return count === 1 ? 'recovery' : null;
+  }
+
+  return null;
+};
+
+export const regenerateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const recoveryCodes = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => hashToken(normalizeRecoveryCode(recoveryCode)))
+    }
+  });
+
+  return recoveryCodes;
+};
+
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodes: []
+    }
+  });
+};
+
+export type LoginMethod = 'PASSWORD' | 'SIWE';
+
+// Short-lived token proving the first step of login (password or wallet) succeeded
+export const createLoginChallenge = (userId: string, loginMethod: LoginMethod = 'PASSWORD'): string => {
+  return signPurposeToken({ id: userId, loginMethod }, 'two-factor-login', LOGIN_CHALLENGE_EXPIRES_IN);
+};
+
+export const verifyLoginChallenge = (challengeToken: string): { userId: string; loginMethod: LoginMethod } => {
+  try {
+    const { id, loginMethod } = verifyPurposeToken<{ id: string; loginMethod?: LoginMethod }>(
+      challengeToken,
+      'two-factor-login'
+    );
+    return { userId: id, loginMethod: loginMethod || 'PASSWORD' };
+  } catch (error) {
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new AppError('Login challenge is invalid or has expired. Please log in again.', 401);
+    }
+    throw error;
+  }
+};
\ No newline at end of file
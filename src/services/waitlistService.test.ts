@@ -0,0 +1,222 @@
+import { Hunt, Participant, Prisma, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import { DEFAULT_SITE_SETTINGS, getSiteSettings, SiteSettings } from '@/services/configService';
+import { sendWaitlistPromotionEmail } from '@/services/emailService';
+import {
+  assertTierCapacity,
+  getWaitlistPosition,
+  hasCapacity,
+  hasTierCapacity,
+  promoteFromWaitlist
+} from '@/services/waitlistService';
+import { makeEnrollment, makeHunt, makeParticipant, makeUser, runTransactionsInline } from '@/test/fixtures';
+
+jest.mock('@/config/database', () => ({
+  __esModule: true,
+  default: {
+    $executeRaw: jest.fn(),
+    $transaction: jest.fn(),
+    participant: { groupBy: jest.fn(), update: jest.fn() },
+    huntEnrollment: { count: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+    auditLog: { create: jest.fn() }
+  }
+}));
+
+jest.mock('@/services/configService', () => ({
+  ...jest.requireActual('@/services/configService'),
+  getSiteSettings: jest.fn()
+}));
+
+jest.mock('@/services/emailService', () => ({
+  sendWaitlistPromotionEmail: jest.fn()
+}));
+
+const mockPrisma = jest.mocked(prisma);
+
+// Narrower views of mocks whose Prisma signatures are too generic to stub through
+const mockGroupBy = mockPrisma.participant.groupBy as unknown as jest.Mock<Promise<{ tier: TierType; _count: number }[]>>;
+const mockCount = mockPrisma.huntEnrollment.count as unknown as jest.Mock<Promise<number>, [Prisma.HuntEnrollmentCountArgs]>;
+
+// Site-wide places held, per tier
+const givenUsage = (byTier: Partial<Record<TierType, number>>) => {
+  mockGroupBy.mockResolvedValue(
+    Object.entries(byTier).map(([tier, count]) => ({ tier: tier as TierType, _count: count }))
+  );
+};
+
+const givenSettings = (settings: Partial<SiteSettings>) => {
+  jest.mocked(getSiteSettings).mockResolvedValue({ ...DEFAULT_SITE_SETTINGS, ...settings });
+};
+
+// Places already taken in each hunt
+const givenHuntPlaces = (places: Record<string, number>) => {
+  mockCount.mockImplementation(async ({ where }) => places[where?.huntId as string] ?? 0);
+};
+
+const waitlisted = (id: string, participant: Partial<Participant>, hunt: Hunt) => {
+  const { tier = 'FREE' } = participant;
+
+  return {
+    ...makeEnrollment({ id, huntId: hunt.id, participantId: participant.id, tier, status: 'WAITLISTED' }),
+    hunt,
+    participant: { ...makeParticipant({ status: 'APPROVED', ...participant }), user: makeUser({ email: `${participant.id}@example.com` }) }
+  };
+};
+
+const promotedEnrollmentIds = () => mockPrisma.huntEnrollment.update.mock.calls.map(([{ where }]) => where.id);
+
+describe('waitlistService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runTransactionsInline(prisma);
+    givenSettings({ maxParticipants: 10 });
+    givenUsage({ FREE: 3 });
+    givenHuntPlaces({});
+  });
+
+  describe('hasCapacity', () => {
+    const hunt = makeHunt({ maxParticipants: 5 });
+
+    it('gives a place when the site and the hunt have room', async () => {
+      await expect(hasCapacity('FREE', hunt, prisma)).resolves.toBe(true);
+    });
+
+    it('waitlists once the site is full', async () => {
+      givenUsage({ FREE: 6, PREMIUM: 4 });
+
+      await expect(hasCapacity('VIP', hunt, prisma)).resolves.toBe(false);
+    });
+
+    it('waitlists once the tier is full, leaving other tiers open', async () => {
+      givenSettings({ maxParticipants: 10, tierCapacity: { VIP: 1 } });
+      givenUsage({ FREE: 3, VIP: 1 });
+
+      await expect(hasCapacity('VIP', hunt, prisma)).resolves.toBe(false);
+      await expect(hasCapacity('FREE', hunt, prisma)).resolves.toBe(true);
+    });
+
+    it('waitlists once the hunt is full', async () => {
+      givenHuntPlaces({ 'hunt-1': 5 });
+
+      await expect(hasCapacity('FREE', hunt, prisma)).resolves.toBe(false);
+    });
+  });
+
+  describe('hasTierCapacity', () => {
+    beforeEach(() => {
+      givenSettings({ maxParticipants: 4, tierCapacity: { VIP: 1 } });
+    });
+
+    it('lets participants keep their own tier without counting', async () => {
+      await expect(hasTierCapacity({ tier: 'VIP', status: 'ACTIVE' }, 'VIP', prisma)).resolves.toBe(true);
+      expect(mockPrisma.participant.groupBy).not.toHaveBeenCalled();
+    });
+
+    it('checks only the target tier limit for participants who hold a place', async () => {
+      // The site is full, but upgrading doesn't take another place
+      givenUsage({ FREE: 4 });
+      await expect(hasTierCapacity({ tier: 'FREE', status: 'APPROVED' }, 'VIP', prisma)).resolves.toBe(true);
+
+      givenUsage({ FREE: 3, VIP: 1 });
+      await expect(hasTierCapacity({ tier: 'FREE', status: 'APPROVED' }, 'VIP', prisma)).resolves.toBe(false);
+    });
+
+    it('also needs a site-wide place for participants without one', async () => {
+      givenUsage({ FREE: 4 });
+
+      await expect(hasTierCapacity({ tier: 'FREE', status: 'WAITLISTED' }, 'VIP', prisma)).resolves.toBe(false);
+    });
+
+    it('refuses checkout for a full tier', async () => {
+      givenUsage({ FREE: 3, VIP: 1 });
+
+      await expect(assertTierCapacity({ tier: 'PREMIUM', status: 'ACTIVE' }, 'VIP')).rejects.toMatchObject({
+        message: 'The VIP tier is full',
+        statusCode: 409
+      });
+    });
+  });
+
+  describe('getWaitlistPosition', () => {
+    it('is null for enrollments that are not waitlisted', async () => {
+      await expect(getWaitlistPosition(makeEnrollment({ status: 'APPROVED' }))).resolves.toBeNull();
+      await expect(getWaitlistPosition(undefined)).resolves.toBeNull();
+    });
+
+    it('counts the enrollments ahead in the same hunt', async () => {
+      mockCount.mockResolvedValue(2);
+      const enrollment = makeEnrollment({ status: 'WAITLISTED' });
+
+      await expect(getWaitlistPosition(enrollment)).resolves.toBe(3);
+      expect(mockPrisma.huntEnrollment.count).toHaveBeenCalledWith({
+        where: { huntId: 'hunt-1', status: 'WAITLISTED', createdAt: { lt: enrollment.createdAt } }
+      });
+    });
+  });
+
+  describe('promoteFromWaitlist', () => {
+    const spring = makeHunt({ maxParticipants: 2 });
+    const autumn = makeHunt({ id: 'hunt-2', name: 'Autumn Hunt', maxParticipants: 3 });
+
+    it("fills each hunt's free places oldest first, counting each hunt once", async () => {
+      givenHuntPlaces({ 'hunt-1': 1, 'hunt-2': 2 });
+      mockPrisma.huntEnrollment.findMany.mockResolvedValue([
+        waitlisted('enrollment-1', { id: 'p1' }, spring),
+        waitlisted('enrollment-2', { id: 'p2' }, autumn),
+        waitlisted('enrollment-3', { id: 'p3' }, spring),
+        waitlisted('enrollment-4', { id: 'p4' }, autumn)
+      ]);
+
+      await expect(promoteFromWaitlist()).resolves.toBe(2);
+
+      expect(mockPrisma.huntEnrollment.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: 'WAITLISTED' },
+        orderBy: { createdAt: 'asc' }
+      }));
+      expect(promotedEnrollmentIds()).toEqual(['enrollment-1', 'enrollment-2']);
+      expect(mockPrisma.huntEnrollment.count).toHaveBeenCalledTimes(2);
+      // They already hold a site-wide place, so only the enrollments move
+      expect(mockPrisma.participant.update).not.toHaveBeenCalled();
+      expect(jest.mocked(sendWaitlistPromotionEmail).mock.calls.map(([email]) => email)).toEqual(['p1@example.com', 'p2@example.com']);
+    });
+
+    it('starts promoted enrollments where a direct registration would', async () => {
+      mockPrisma.huntEnrollment.findMany.mockResolvedValue([
+        waitlisted('enrollment-1', { id: 'p1' }, autumn),
+        waitlisted('enrollment-2', { id: 'p2', flaggedForReview: true }, autumn),
+        waitlisted('enrollment-3', { id: 'p3', tier: 'VIP' }, autumn)
+      ]);
+
+      await promoteFromWaitlist('hunt-2');
+
+      expect(mockPrisma.huntEnrollment.update.mock.calls.map(([{ data }]) => data.status)).toEqual(['APPROVED', 'PENDING', 'PENDING']);
+    });
+
+    it('skips site-waitlisted participants whose tier is full, so those behind them move up', async () => {
+      givenSettings({ maxParticipants: 10, tierCapacity: { VIP: 0 } });
+      mockPrisma.huntEnrollment.findMany.mockResolvedValue([
+        waitlisted('enrollment-1', { id: 'p1', status: 'WAITLISTED', tier: 'VIP' }, autumn),
+        waitlisted('enrollment-2', { id: 'p2', status: 'WAITLISTED', tier: 'PREMIUM' }, autumn)
+      ]);
+
+      await expect(promoteFromWaitlist()).resolves.toBe(1);
+
+      expect(promotedEnrollmentIds()).toEqual(['enrollment-2']);
+      expect(mockPrisma.participant.update).toHaveBeenCalledWith({
+        where: { id: 'p2' },
+        data: { status: 'PENDING', waitlistedAt: null }
+      });
+    });
+
+    it('counts site-wide places as it hands them out', async () => {
+      givenUsage({ FREE: 9 });
+      mockPrisma.huntEnrollment.findMany.mockResolvedValue([
+        waitlisted('enrollment-1', { id: 'p1', status: 'WAITLISTED' }, autumn),
+        waitlisted('enrollment-2', { id: 'p2', status: 'WAITLISTED' }, autumn)
+      ]);
+
+      await expect(promoteFromWaitlist()).resolves.toBe(1);
+      expect(promotedEnrollmentIds()).toEqual(['enrollment-1']);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,223 @@
+import { Hunt, HuntEnrollment, Participant, Prisma, RegistrationStatus, TierType } from '@prisma/client';
+import prisma from '@/config/database';
+import { AppError } from '@/middleware/errorHandler';
+import { getSiteSettings, SiteSettings } from '@/services/configService';
+import { sendWaitlistPromotionEmail } from '@/services/emailService';
+import { countHuntPlaces, hasHuntCapacity, lockHunt } from '@/services/huntService';
+import { buildFrontendUrl } from '@/utils/urls';
+
+// Statuses that occupy a place; rejected and waitlisted participants don't
+const SLOT_HOLDING_STATUSES: RegistrationStatus[] = ['PENDING', 'APPROVED', 'ACTIVE', 'SUSPENDED'];
+
+// Arbitrary key for the Postgres advisory lock guarding capacity decisions
+const CAPACITY_LOCK_KEY = 72_610_013;
+
+interface CapacityUsage {
+  total: number;
+  byTier: Partial<Record<TierType, number>>;
+}
+
+// Serialize capacity checks so concurrent registrations can't overfill.
+// Held until the surrounding transaction commits.
+export const lockCapacity = async (tx: Prisma.TransactionClient): Promise<void> => {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CAPACITY_LOCK_KEY})`;
+};
+
+const getCapacityUsage = async (client: Prisma.TransactionClient): Promise<CapacityUsage> => {
+  const counts = await client.participant.groupBy({
+    by: ['tier'],
+    where: { status: { in: SLOT_HOLDING_STATUSES } },
+    _count: true
+  });
+
+  return {
+    total: counts.reduce((total, count) => total + count._count, 0),
+    byTier: Object.fromEntries(counts.map(count => [count.tier, count._count]))
+  };
+};
+
+const fitsCapacity = (usage: CapacityUsage, tier: TierType, settings: SiteSettings): boolean => {
+  const tierLimit = settings.tierCapacity[tier];
+
+  return usage.total < settings.maxParticipants
+    && (tierLimit === undefined || tierLimit === null || (usage.byTier[tier] ?? 0) < tierLimit);
+};
+
+// Whether a new registration for `tier` in `hunt` gets a place, both site-wide and in the
+// hunt itself. Call inside a transaction after `lockCapacity`.
+export const hasCapacity = async (
+  tier: TierType,
+  hunt: Pick<Hunt, 'id' | 'maxParticipants'>,
+  tx: Prisma.TransactionClient
+): Promise<boolean> => {
+  const [settings, usage] = await Promise.all([getSiteSettings(), getCapacityUsage(tx)]);
+  return fitsCapacity(usage, tier, settings) && await hasHuntCapacity(tx, hunt);
+};
+
+// Whether a participant can move to `tier`, e.g. through a paid upgrade. Participants who
+// already hold a place keep it, so only the target tier's own limit applies to them.
+// Call inside a transaction after `lockCapacity`.
+export const hasTierCapacity = async (
+  participant: Pick<Participant, 'tier' | 'status'>,
+  tier: TierType,
+  tx: Prisma.TransactionClient
+): Promise<boolean> => {
+  if (participant.tier === tier) {
+    return true;
+  }
+
+  const [settings, usage] = await Promise.all([getSiteSettings(), getCapacityUsage(tx)]);
+
+  if (!SLOT_HOLDING_STATUSES.includes(participant.status)) {
+    return fitsCapacity(usage, tier, settings);
+  }
+
+  const tierLimit = settings.tierCapacity[tier];
+  return tierLimit === undefined || tierLimit === null || (usage.byTier[tier] ?? 0) < tierLimit;
+};
+
+// Refuse checkout for a tier that has no places left
+export const assertTierCapacity = async (participant: Pick<Participant, 'tier' | 'status'>, tier: TierType): Promise<void> => {
+  const available = await prisma.$transaction(async (tx) => {
+    await lockCapacity(tx);
+    return hasTierCapacity(participant, tier, tx);
+  });
+
+  if (!available) {
+    throw new AppError(`The ${tier} tier is full`, 409);
+  }
+};
+
+// 1-based place in a hunt's waitlist, or null if the enrollment isn't waitlisted
+export const getWaitlistPosition = async (
+  enrollment: Pick<HuntEnrollment, 'huntId' | 'status' | 'createdAt'> | null | undefined
+): Promise<number | null> => {
+  if (!enrollment || enrollment.status !== 'WAITLISTED') {
+    return null;
+  }
+
+  const ahead = await prisma.huntEnrollment.count({
+    where: {
+      huntId: enrollment.huntId,
+      status: 'WAITLISTED',
+      createdAt: { lt: enrollment.createdAt }
+    }
+  });
+
+  return ahead + 1;
+};
+
+// Give freed hunt places to waitlisted enrollments, oldest first, in one hunt or all of them.
+// Participants also waiting for a site-wide place need one in their tier as well; anyone who
+// can't move up yet is skipped so people behind them can.
+export const promoteFromWaitlist = async (huntId?: string): Promise<number> => {
+  const settings = await getSiteSettings();
+
+  const promoted = await prisma.$transaction(async (tx) => {
+    await lockCapacity(tx);
+
+    const usage = await getCapacityUsage(tx);
+
+    const waitlisted = await tx.huntEnrollment.findMany({
+      where: { status: 'WAITLISTED', ...(huntId && { huntId }) },
+      include: {
+        hunt: { select: { id: true, name: true, maxParticipants: true } },
+        participant: {
+          include: {
+            user: { select: { email: true, firstName: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    // Free places per hunt, counted once the hunt is locked
+    const freePlaces = new Map<string, number>();
+    const siteWaitlisted = new Set(
+      waitlisted.filter(enrollment => enrollment.participant.status === 'WAITLISTED').map(enrollment => enrollment.participantId)
+    );
+    const promotedEnrollments: typeof waitlisted = [];
+
+    for (const enrollment of waitlisted) {
+      const { hunt, participant } = enrollment;
+
+      if (!freePlaces.has(hunt.id)) {
+        await lockHunt(tx, hunt.id);
+        freePlaces.set(
+          hunt.id,
+          hunt.maxParticipants === null ? Infinity : hunt.maxParticipants - await countHuntPlaces(hunt.id, tx)
+        );
+      }
+
+      if (freePlaces.get(hunt.id)! <= 0) {
+        continue;
+      }
+
+      const leavesSiteWaitlist = siteWaitlisted.has(participant.id);
+      if (leavesSiteWaitlist && !fitsCapacity(usage, participant.tier, settings)) {
+        continue;
+      }
+
+      // Same starting status as a registration that got a place straight away
+      const status: RegistrationStatus = enrollment.tier === 'FREE' && !participant.flaggedForReview ? 'APPROVED' : 'PENDING';
+
+      await tx.huntEnrollment.update({
+        where: { id: enrollment.id },
+        data: { status }
+      });
+
+      if (leavesSiteWaitlist) {
+        await tx.participant.update({
+          where: { id: participant.id },
+          data: { status, waitlistedAt: null }
+        });
+
+        usage.total += 1;
+        usage.byTier[participant.tier] = (usage.byTier[participant.tier] ?? 0) + 1;
+        siteWaitlisted.delete(participant.id);
+      }
+
+      await tx.auditLog.create({
+        data: {
+          userId: participant.userId,
+          action: 'PARTICIPANT_WAITLIST_PROMOTED',
+          entityType: 'PARTICIPANT',
+          entityId: participant.id,
+          oldValues: { huntId: hunt.id, status: 'WAITLISTED', waitlistedAt: participant.waitlistedAt?.toISOString() },
+          newValues: { huntId: hunt.id, status }
+        }
+      });
+
+      freePlaces.set(hunt.id, freePlaces.get(hunt.id)! - 1);
+      promotedEnrollments.push(enrollment);
+    }
+
+    return promotedEnrollments;
+  });
+
+  for (const enrollment of promoted) {
+    try {
+      await sendWaitlistPromotionEmail(
+        enrollment.participant.user.email,
+        enrollment.participant.user.firstName || 'there',
+        enrollment.tier,
+        buildFrontendUrl('/dashboard')
+      );
+    } catch (emailError) {
+      console.error('Failed to send waitlist promotion email:', emailError);
+    }
+  }
+
+  return promoted.length;
+};
+
+// Run after a place may have been freed; failures never break the triggering request
+export const promoteFromWaitlistInBackground = (trigger: string, huntId?: string): void => {
+  promoteFromWaitlist(huntId)
+    .then(count => {
+      if (count > 0) {
+        console.log(`Promoted ${count} participant(s) from the waitlist after ${trigger}`);
+      }
+    })
+    .catch(error => console.error(`Waitlist promotion after ${trigger} failed:`, error));
+};
\ No newline at end of file
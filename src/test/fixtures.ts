@@ -0,0 +1,207 @@
+import { CheckIn, Clue, ClueProgress, Hint, HintUnlock, Hunt, HuntEnrollment, Participant, Payment, Prisma, PrismaClient, User } from '@prisma/client';
+import { SessionContext } from '@/services/sessionService';
+
+// Records as Prisma returns them, for tests that mock the database. Each factory
+// fills in every column so a test only spells out what it's about.
+
+const HOUR = 60 * 60 * 1000;
+
+export const hoursFromNow = (hours: number): Date => new Date(Date.now() + hours * HOUR);
+
+export const sessionContext: SessionContext = { ipAddress: '127.0.0.1', userAgent: 'jest' };
+
+export const makeUser = (overrides: Partial<User> = {}): User => ({
+  id: 'user-1',
+  email: 'player@example.com',
+  password: '$2a$12$existinghash',
+  role: 'PARTICIPANT',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  firstName: 'Pat',
+  lastName: 'Lee',
+  phone: null,
+  country: null,
+  emailVerified: true,
+  emailVerifyToken: null,
+  emailVerifySentAt: null,
+  resetToken: null,
+  resetExpires: null,
+  claimToken: null,
+  claimExpires: null,
+  sessionsRevokedAt: null,
+  failedLoginAttempts: 0,
+  lastFailedLoginAt: null,
+  lockedUntil: null,
+  twoFactorEnabled: false,
+  twoFactorSecret: null,
+  twoFactorEnabledAt: null,
+  twoFactorLastUsedStep: null,
+  twoFactorRecoveryCodes: [],
+  deletionRequestedAt: null,
+  deletionScheduledFor: null,
+  anonymizedAt: null,
+  ...overrides
+});
+
+export const makeParticipant = (overrides: Partial<Participant> = {}): Participant => ({
+  id: 'participant-1',
+  userId: 'user-1',
+  tier: 'FREE',
+  status: 'ACTIVE',
+  waitlistedAt: null,
+  referralCode: null,
+  referredBy: null,
+  inviteCode: null,
+  invitedById: null,
+  walletAddress: null,
+  walletVerifiedAt: null,
+  discordUsername: null,
+  telegramUsername: null,
+  registrationData: null,
+  turnstileToken: null,
+  ipAddress: null,
+  userAgent: null,
+  riskScore: 0,
+  riskFlags: [],
+  flaggedForReview: false,
+  riskReviewedAt: null,
+  riskReviewedBy: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  teamId: null,
+  teamJoinedAt: null,
+  ...overrides
+});
+
+// Under way by default: started a day ago, ends in a day
+export const makeHunt = (overrides: Partial<Hunt> = {}): Hunt => ({
+  id: 'hunt-1',
+  name: 'Spring Hunt',
+  slug: 'spring-hunt',
+  description: null,
+  startsAt: hoursFromNow(-24),
+  endsAt: hoursFromNow(24),
+  registrationOpensAt: hoursFromNow(-24 * 30),
+  registrationClosesAt: hoursFromNow(24),
+  maxParticipants: null,
+  tierPrices: { FREE: 0, PREMIUM: 99, VIP: 299 },
+  isPublished: true,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+export const makeEnrollment = (overrides: Partial<HuntEnrollment> = {}): HuntEnrollment => ({
+  id: 'enrollment-1',
+  huntId: 'hunt-1',
+  participantId: 'participant-1',
+  tier: 'FREE',
+  status: 'ACTIVE',
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+export const makeClue = (overrides: Partial<Clue> = {}): Clue => ({
+  id: 'clue-1',
+  huntId: 'hunt-1',
+  position: 1,
+  title: 'The cathedral',
+  body: 'Where the dome whispers',
+  answerSalt: 'salt',
+  answerHashes: [],
+  isBonus: false,
+  minimumTier: null,
+  releasesAt: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+export const makeClueProgress = (overrides: Partial<ClueProgress> = {}): ClueProgress => ({
+  id: 'progress-1',
+  clueId: 'clue-1',
+  participantId: 'participant-1',
+  attempts: 1,
+  unlockedAt: hoursFromNow(-1),
+  lastAttemptAt: null,
+  solvedAt: null,
+  ...overrides
+});
+
+export const makeHint = (overrides: Partial<Hint> = {}): Hint => {
+  const position = overrides.position ?? 1;
+
+  return {
+    id: `hint-${position}`,
+    clueId: 'clue-1',
+    position,
+    body: `Hint ${position}`,
+    unlockAfterMinutes: 0,
+    creditCost: 1,
+    penaltyPoints: 5,
+    minimumTier: null,
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    updatedAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides
+  };
+};
+
+export const makeHintUnlock = (overrides: Partial<HintUnlock> = {}): HintUnlock => ({
+  id: 'hint-unlock-1',
+  hintId: 'hint-1',
+  participantId: 'participant-1',
+  huntId: 'hunt-1',
+  penaltyPoints: 5,
+  allowanceSpent: 1,
+  inviteCreditsSpent: 0,
+  purchasedCreditsSpent: 0,
+  unlockedAt: new Date(),
+  ...overrides
+});
+
+// A completed tier purchase by default
+export const makePayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: 'payment-1',
+  userId: 'user-1',
+  participantId: 'participant-1',
+  huntId: 'hunt-1',
+  stripePaymentIntentId: 'pi_test',
+  amount: new Prisma.Decimal(99),
+  currency: 'usd',
+  tier: 'PREMIUM',
+  upgradedFromTier: null,
+  status: 'COMPLETED',
+  stripeSessionId: 'cs_test',
+  stripeChargeId: null,
+  receiptUrl: null,
+  referralCode: null,
+  commissionAmount: null,
+  inviteDiscount: null,
+  hintCredits: null,
+  paymentMethod: null,
+  failureReason: null,
+  refundReason: null,
+  refundedAt: null,
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  ...overrides
+});
+
+export const makeCheckIn = (overrides: Partial<CheckIn> = {}): CheckIn => ({
+  id: 'check-in-1',
+  huntId: 'hunt-1',
+  participantId: 'participant-1',
+  scannedById: 'staff-1',
+  location: 'Main gate',
+  ticketIssuedAt: hoursFromNow(-1),
+  ipAddress: null,
+  userAgent: null,
+  checkedInAt: new Date(),
+  ...overrides
+});
+
+// Run interactive transactions against the mocked client itself
+export const runTransactionsInline = (client: PrismaClient): void => {
+  jest.mocked(client.$transaction).mockImplementation((fn) => fn(client));
+};
\ No newline at end of file
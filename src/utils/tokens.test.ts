@@ -0,0 +1,60 @@
+import jwt from 'jsonwebtoken';
+import { generateSecureToken, hashToken, signPurposeToken, verifyPurposeToken } from '@/utils/tokens';
+
+describe('tokens', () => {
+  const originalSecret = process.env.JWT_SECRET;
+
+  beforeAll(() => {
+    process.env.JWT_SECRET = 'test-jwt-secret';
+  });
+
+  afterAll(() => {
+    process.env.JWT_SECRET = originalSecret;
+  });
+
+  describe('generateSecureToken', () => {
+    it('returns hex of the requested length', () => {
+      expect(generateSecureToken(16)).toMatch(/^[0-9a-f]{32}$/);
+    });
+
+    it('never repeats', () => {
+      expect(generateSecureToken()).not.toEqual(generateSecureToken());
+    });
+  });
+
+  describe('hashToken', () => {
+    it('is a stable SHA-256 digest that differs from the token', () => {
+      const token = generateSecureToken();
+
+      expect(hashToken(token)).toEqual(hashToken(token));
+      expect(hashToken(token)).toMatch(/^[0-9a-f]{64}$/);
+      expect(hashToken(token)).not.toEqual(token);
+    });
+  });
+
+  describe('purpose tokens', () => {
+    it('redeems a token for the purpose it was issued for', () => {
+      const token = signPurposeToken({ userId: 'user-1' }, 'email-verify', '1h');
+
+      expect(verifyPurposeToken<{ userId: string }>(token, 'email-verify').userId).toBe('user-1');
+    });
+
+    it('refuses a token issued for another purpose', () => {
+      const token = signPurposeToken({ userId: 'user-1' }, 'email-verify', '1h');
+
+      expect(() => verifyPurposeToken(token, 'impersonation')).toThrow(jwt.JsonWebTokenError);
+    });
+
+    it('refuses a plain access token signed with the JWT secret', () => {
+      const token = jwt.sign({ userId: 'user-1', purpose: 'unsubscribe' }, process.env.JWT_SECRET!);
+
+      expect(() => verifyPurposeToken(token, 'unsubscribe')).toThrow(jwt.JsonWebTokenError);
+    });
+
+    it('refuses an expired token', () => {
+      const token = signPurposeToken({ userId: 'user-1' }, 'data-export', '-1s');
+
+      expect(() => verifyPurposeToken(token, 'data-export')).toThrow(jwt.TokenExpiredError);
+    });
+  });
+});
\ No newline at end of file
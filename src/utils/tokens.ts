@@ -0,0 +1,53 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+// Purposes for single-use signed tokens. Each purpose signs with its own
+// derived key so a token minted for one flow can never be replayed in another
+// (or accepted by `authenticate` as an access token).
+export type TokenPurpose = 'email-verify' | 'two-factor-login' | 'impersonation' | 'data-export' | 'unsubscribe';
+
+const getPurposeSecret = (purpose: TokenPurpose): string => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not configured');
+  }
+
+  return crypto
+    .createHmac('sha256', process.env.JWT_SECRET)
+    .update(`purpose:${purpose}`)
+    .digest('hex');
+};
+
+// Random, URL-safe token for links sent by email
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+// Tokens are only ever persisted as SHA-256 digests
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+export const signPurposeToken = (
+  payload: Record<string, unknown>,
+  purpose: TokenPurpose,
+  expiresIn: string
+): string => {
+  return jwt.sign(
+    { ...payload, purpose },
+    getPurposeSecret(purpose),
+    { expiresIn } as jwt.SignOptions
+  );
+};
+
+export const verifyPurposeToken = <T extends Record<string, unknown>>(
+  token: string,
+  purpose: TokenPurpose
+): T => {
+  const decoded = jwt.verify(token, getPurposeSecret(purpose)) as any;
+
+  if (decoded.purpose !== purpose) {
+    throw new jwt.JsonWebTokenError('Token purpose mismatch');
+  }
+
+  return decoded as T;
+};
\ No newline at end of file
@@ -0,0 +1,21 @@
+// Build an absolute link into the frontend app (used in emails)
+export const buildFrontendUrl = (path: string, params: Record<string, string> = {}): string => {
+  const url = new URL(path, process.env.FRONTEND_URL || 'http://localhost:5173');
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  return url.toString();
+};
+
+// Absolute link to this API, for links that must work without the frontend (e.g. one-click unsubscribe)
+export const buildApiUrl = (path: string, params: Record<string, string> = {}): string => {
+  const url = new URL(path, process.env.API_URL || `http://localhost:${process.env.PORT || 3001}`);
+
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+
+  return url.toString();
+};
\ No newline at end of file
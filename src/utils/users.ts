@@ -0,0 +1,14 @@
+import { User } from '@prisma/client';
+
+// Copy of a user without credentials, one-time token hashes or 2FA secrets
+export const toSafeUser = <T extends User>(user: T): Partial<T> => {
+  const safeUser: Partial<T> = { ...user };
+  delete safeUser.password;
+  delete safeUser.emailVerifyToken;
+  delete safeUser.resetToken;
+  delete safeUser.claimToken;
+  delete safeUser.twoFactorSecret;
+  delete safeUser.twoFactorRecoveryCodes;
+
+  return safeUser;
+};
\ No newline at end of file
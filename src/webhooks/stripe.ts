@@ -1,6 +1,12 @@
 import { Router, Request, Response } from 'express';
 import Stripe from 'stripe';
 import prisma from '@/config/database';
+import { issueAccountClaim } from '@/services/accountClaimService';
+import { sendPaymentConfirmationEmail } from '@/services/emailService';
+import { grantInviteRewards, redeemTierDiscounts } from '@/services/inviteService';
+import { issueTicket } from '@/services/ticketService';
+import { calculateCommission, getPaidTier, isHigherTier } from '@/services/tierUpgradeService';
+import { hasTierCapacity, lockCapacity, promoteFromWaitlistInBackground } from '@/services/waitlistService';
 
 const router = Router();
 
@@ -39,6 +45,10 @@ router.post('/stripe', async (req: Request, res: Response) => {
         await handlePaymentIntentFailed(event.data.object as Stripe.PaymentIntent);
         break;
       
+      case 'charge.refunded':
+        await handleChargeRefunded(event.data.object as Stripe.Charge);
+        break;
+      
       case 'invoice.payment_succeeded':
         // Handle subscription payments if needed in future
         console.log('Invoice payment succeeded:', event.data.object.id);
@@ -58,11 +68,17 @@ router.post('/stripe', async (req: Request, res: Response) => {
 // Handle successful checkout session
 async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session) {
   console.log('Checkout session completed:', session.id);
+
+  // Hint packs only add credits; the tier and registration are left alone
+  if (session.metadata?.hintPackId) {
+    await handleHintPackCompleted(session);
+    return;
+  }
   
-  const { participantId, userId, tier, referralCode } = session.metadata!;
+  const { participantId, userId, tier, referralCode, inviteRewardIds } = session.metadata!;
   
   try {
-    await prisma.$transaction(async (tx) => {
+    const outcome = await prisma.$transaction(async (tx) => {
       // Update payment record
       const payment = await tx.payment.findFirst({
         where: { stripeSessionId: session.id }
@@ -72,54 +88,136 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
         throw new Error(`Payment record not found for session ${session.id}`);
       }
 
-      await tx.payment.update({
-        where: { id: payment.id },
+      // Stripe retries deliveries, sometimes concurrently; only the delivery that moves the payment
+      // out of PENDING applies it (and its commission). A payment refused for a full tier stays FAILED.
+      const { count: claimed } = await tx.payment.updateMany({
+        where: { id: payment.id, status: 'PENDING' },
         data: {
           status: 'COMPLETED',
-          stripePaymentIntentId: session.payment_intent as string,
-          receiptUrl: undefined // Receipt URL not available in session object
+          stripePaymentIntentId: session.payment_intent as string
         }
       });
 
+      if (claimed === 0) {
+        console.log(`Payment ${payment.id} already processed, skipping`);
+        return null;
+      }
+
+      // Tier paid for before this payment, so an upgrade can't lower the tier
+      const { paidTier } = await getPaidTier(participantId, tx);
+      const newTier = isHigherTier(payment.tier, paidTier) ? payment.tier : paidTier;
+
+      // Places can fill up while the customer is in checkout, so check again under the capacity lock
+      await lockCapacity(tx);
+
+      const current = await tx.participant.findUniqueOrThrow({
+        where: { id: participantId }
+      });
+
+      if (!await hasTierCapacity(current, newTier, tx)) {
+        await tx.payment.update({
+          where: { id: payment.id },
+          data: {
+            status: 'FAILED',
+            failureReason: `${newTier} tier is full`
+          }
+        });
+
+        await tx.auditLog.create({
+          data: {
+            userId,
+            action: 'PAYMENT_TIER_FULL',
+            entityType: 'PAYMENT',
+            entityId: payment.id,
+            newValues: { status: 'FAILED', tier: newTier, amount: payment.amount }
+          }
+        });
+
+        console.log(`Tier ${newTier} is full, refunding payment ${payment.id}`);
+
+        return { payment, tierFull: true };
+      }
+
       // Activate participant
-      await tx.participant.update({
+      const participant = await tx.participant.update({
         where: { id: participantId },
         data: {
           status: 'ACTIVE',
-          tier: tier as any
+          tier: newTier
         }
       });
 
+      // The tier bought applies to the hunt the payment was for
+      if (payment.huntId) {
+        const { paidTier: huntTier } = await getPaidTier(participantId, tx, payment.huntId);
+
+        await tx.huntEnrollment.update({
+          where: { huntId_participantId: { huntId: payment.huntId, participantId } },
+          data: { status: 'ACTIVE', tier: huntTier }
+        });
+      }
+
+      // Use up the invite tier discounts taken off this payment
+      if (inviteRewardIds) {
+        await redeemTierDiscounts(tx, inviteRewardIds.split(','), payment.id);
+      }
+
+      // A friend's first payment can earn the inviter their reward
+      if (paidTier === 'FREE') {
+        await grantInviteRewards(tx, participant, 'FIRST_PAYMENT');
+      }
+
       // Process referral commission if applicable
       if (referralCode) {
         const referral = await tx.referral.findFirst({
           where: {
             participantEmail: session.customer_email!,
-            referralCode,
-            isConverted: false
+            referralCode
           },
           include: { promoter: true }
         });
 
         if (referral) {
-          // Mark referral as converted
+          // Commission is earned on every amount paid, so upgrades add to it
+          const commission = calculateCommission(Number(payment.amount), referral.promoter.commissionRate);
+
           await tx.referral.update({
             where: { id: referral.id },
             data: {
               isConverted: true,
-              convertedAt: new Date(),
+              convertedAt: referral.convertedAt ?? new Date(),
+              tier: newTier,
+              commission: { increment: commission },
               paymentId: payment.id
             }
           });
 
+          await tx.payment.update({
+            where: { id: payment.id },
+            data: { commissionAmount: commission }
+          });
+
           // Update promoter stats
           await tx.promoter.update({
             where: { id: referral.promoterId },
             data: {
-              totalReferrals: { increment: 1 },
-              totalRevenue: { increment: referral.commission }
+              ...(!referral.isConverted && { totalReferrals: { increment: 1 } }),
+              totalRevenue: { increment: commission }
             }
           });
+
+          if (referral.isConverted) {
+            await tx.auditLog.create({
+              data: {
+                userId,
+                action: 'REFERRAL_COMMISSION_ADJUSTED',
+                entityType: 'REFERRAL',
+                entityId: referral.id,
+                oldValues: { tier: referral.tier, commission: Number(referral.commission) },
+                newValues: { tier: newTier, commission: Number(referral.commission) + commission, paymentId: payment.id }
+              }
+            });
+          }
         }
       }
 
@@ -133,16 +231,84 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
           newValues: {
             status: 'COMPLETED',
             tier,
-            amount: payment.amount
+            amount: payment.amount,
+            inviteDiscount: payment.inviteDiscount
           }
         }
       });
 
+      if (payment.upgradedFromTier) {
+        await tx.auditLog.create({
+          data: {
+            userId,
+            action: 'PARTICIPANT_TIER_UPGRADE',
+            entityType: 'PARTICIPANT',
+            entityId: participantId,
+            oldValues: { tier: payment.upgradedFromTier },
+            newValues: { tier: newTier, paymentId: payment.id, amount: payment.amount }
+          }
+        });
+      }
+
       console.log(`Payment completed for participant ${participantId}, tier ${tier}`);
+
+      return { payment, tierFull: false };
     });
 
-    // TODO: Send confirmation email
-    console.log('TODO: Send payment confirmation email to:', session.customer_email);
+    // The tier was never applied; the refund's charge.refunded event then finds nothing to undo.
+    // The idempotency key keeps retried deliveries from refunding twice.
+    if (outcome?.tierFull) {
+      await stripe.refunds.create(
+        { payment_intent: session.payment_intent as string },
+        { idempotencyKey: `tier-full-${outcome.payment.id}` }
+      );
+      return;
+    }
+
+    // Confirmation with the event ticket; not re-sent for duplicate deliveries
+    if (outcome) {
+      try {
+        const participant = await prisma.participant.findUniqueOrThrow({
+          where: { id: participantId },
+          include: { user: { select: { email: true, firstName: true } } }
+        });
+
+        // Still confirm the payment if the ticket can't be issued
+        let qrCode: Buffer | undefined;
+        try {
+          // The ticket admits the participant to the hunt the payment was for
+          const enrollment = await prisma.huntEnrollment.findFirstOrThrow({
+            where: { participantId, ...(outcome.payment.huntId && { huntId: outcome.payment.huntId }) },
+            orderBy: { createdAt: 'desc' }
+          });
+
+          ({ qrCode } = await issueTicket(enrollment));
+        } catch (ticketError) {
+          console.error('Failed to issue event ticket:', ticketError);
+        }
+
+        await sendPaymentConfirmationEmail(
+          participant.user.email,
+          participant.user.firstName || 'there',
+          participant.tier,
+          Number(outcome.payment.amount),
+          session.payment_intent as string,
+          qrCode
+        );
+      } catch (emailError) {
+        console.error('Failed to send payment confirmation email:', emailError);
+      }
+    }
+
+    // Re-send the set-password link if the account still hasn't been claimed
+    const user = await prisma.user.findUnique({ where: { id: userId } });
+    if (user) {
+      try {
+        await issueAccountClaim(user);
+      } catch (emailError) {
+        console.error('Failed to send account activation email:', emailError);
+      }
+    }
     
   } catch (error) {
     console.error('Error processing checkout session:', error);
@@ -150,6 +316,52 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
   }
 }
 
+// Complete a hint pack purchase. The credits count from then on (see getHintBalance).
+async function handleHintPackCompleted(session: Stripe.Checkout.Session) {
+  const { userId, huntId, hintPackId, hintCredits } = session.metadata!;
+
+  await prisma.$transaction(async (tx) => {
+    const payment = await tx.payment.findFirst({
+      where: { stripeSessionId: session.id }
+    });
+
+    if (!payment) {
+      throw new Error(`Payment record not found for session ${session.id}`);
+    }
+
+    // Stripe retries deliveries; never add the same credits twice
+    if (payment.status === 'COMPLETED') {
+      console.log(`Payment ${payment.id} already completed, skipping`);
+      return;
+    }
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: 'COMPLETED',
+        stripePaymentIntentId: session.payment_intent as string
+      }
+    });
+
+    await tx.auditLog.create({
+      data: {
+        userId,
+        action: 'HINT_PACK_PURCHASED',
+        entityType: 'PAYMENT',
+        entityId: payment.id,
+        newValues: {
+          huntId,
+          packId: hintPackId,
+          credits: Number(hintCredits),
+          amount: payment.amount
+        }
+      }
+    });
+
+    console.log(`Hint pack ${hintPackId} purchased for hunt ${huntId}`);
+  });
+}
+
 // Handle successful payment intent
 async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
   console.log('Payment intent succeeded:', paymentIntent.id);
@@ -202,4 +414,110 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
   }
 }
 
+// Handle a fully refunded charge: the participant drops back to the highest
+// tier they still have a payment for, freeing their place in the refunded tier
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  console.log('Charge refunded:', charge.id);
+
+  // Partial refunds leave the tier in place
+  if (!charge.refunded || !charge.payment_intent) {
+    return;
+  }
+
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent.id;
+
+  try {
+    const refundedTier = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.findUnique({
+        where: { stripePaymentIntentId: paymentIntentId },
+        include: { user: { select: { email: true } } }
+      });
+
+      if (!payment || payment.status === 'REFUNDED') {
+        return false;
+      }
+
+      await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          status: 'REFUNDED',
+          stripeChargeId: charge.id,
+          refundedAt: new Date(),
+          refundReason: charge.refunds?.data[0]?.reason ?? undefined
+        }
+      });
+
+      // Reverse the commission earned on this payment
+      if (payment.commissionAmount && payment.referralCode) {
+        const referral = await tx.referral.findFirst({
+          where: { referralCode: payment.referralCode, participantEmail: payment.user.email }
+        });
+
+        if (referral) {
+          await tx.referral.update({
+            where: { id: referral.id },
+            data: { commission: { decrement: payment.commissionAmount } }
+          });
+
+          await tx.promoter.update({
+            where: { id: referral.promoterId },
+            data: { totalRevenue: { decrement: payment.commissionAmount } }
+          });
+        }
+      }
+
+      // Refunded hint packs just stop counting towards the hint balance, and payments
+      // refused because their tier was full never changed the tier
+      const changedTier = payment.hintCredits === null && payment.status === 'COMPLETED';
+
+      if (payment.participantId && changedTier) {
+        const { paidTier } = await getPaidTier(payment.participantId, tx);
+
+        await tx.participant.update({
+          where: { id: payment.participantId },
+          data: {
+            tier: paidTier,
+            ...(paidTier === 'FREE' && { status: 'APPROVED' })
+          }
+        });
+
+        if (payment.huntId) {
+          const { paidTier: huntTier } = await getPaidTier(payment.participantId, tx, payment.huntId);
+
+          await tx.huntEnrollment.update({
+            where: { huntId_participantId: { huntId: payment.huntId, participantId: payment.participantId } },
+            data: {
+              tier: huntTier,
+              ...(huntTier === 'FREE' && { status: 'APPROVED' })
+            }
+          });
+        }
+      }
+
+      await tx.auditLog.create({
+        data: {
+          userId: payment.userId,
+          action: 'PAYMENT_REFUNDED',
+          entityType: 'PAYMENT',
+          entityId: payment.id,
+          oldValues: { status: payment.status, tier: payment.tier },
+          newValues: { status: 'REFUNDED', chargeId: charge.id }
+        }
+      });
+
+      return changedTier;
+    });
+
+    // The refunded tier has a free place again
+    if (refundedTier) {
+      promoteFromWaitlistInBackground('refund');
+    }
+  } catch (error) {
+    console.error('Error processing refund:', error);
+    throw error;
+  }
+}
+
 export default router;
\ No newline at end of file